@@ -0,0 +1,457 @@
+// Assistants APIのRunを実行するランナー
+import type { ChatCompletionChunk } from 'openai/resources'
+import type { AssistantStreamEvent } from 'openai/resources/beta/assistants'
+import type { Message } from 'openai/resources/beta/threads/messages'
+import type { Run } from 'openai/resources/beta/threads/runs/runs'
+import type {
+  FunctionToolCall,
+  RunStep,
+} from 'openai/resources/beta/threads/runs/steps'
+import * as vscode from 'vscode'
+import { convertAssistantsRunToOpenAIRequest } from '../converter/openaiAssistantsConverter'
+import {
+  handleChatCompletionError,
+  sendChatCompletionRequest,
+} from '../server/openaiHandler'
+import { logger } from '../utils/logger'
+import { assistantsStore, createAssistantsId } from './store'
+
+// 実行中とみなすRunのステータス
+const ACTIVE_RUN_STATUSES: Run['status'][] = [
+  'queued',
+  'in_progress',
+  'cancelling',
+]
+
+/**
+ * Assistantsランナークラス
+ * スレッドのメッセージからChat Completions APIのリクエストを組み立ててLM APIへ送信し、
+ * 応答をメッセージ・Runステップとしてストアに保存しながらストリーミングイベントを生成します。
+ * ツールコールが返された場合はRunをrequires_actionにして停止し、
+ * submit_tool_outputsで出力が送信されたら再度実行します。
+ */
+class AssistantsRunner {
+  // 実行中のRunのキャンセラレーショントークン
+  private cancellations = new Map<string, vscode.CancellationTokenSource>()
+
+  /**
+   * Runの実行を開始する
+   * 実行状態は呼び出し時点で登録されるため、返却したイベントを消費しない間も実行中として扱われる
+   * @param {string} runId RunのID
+   * @returns {AsyncIterable<AssistantStreamEvent>} ストリーミングイベント
+   */
+  public startRun(runId: string): AsyncIterable<AssistantStreamEvent> {
+    const cancellation = new vscode.CancellationTokenSource()
+    this.cancellations.set(runId, cancellation)
+    return this.executeRun(runId, cancellation)
+  }
+
+  /**
+   * 実行中のRunをキャンセルする
+   * @param {string} runId RunのID
+   * @returns {boolean} 実行中でキャンセルを要求した場合はtrue
+   */
+  public cancelRun(runId: string): boolean {
+    const cancellation = this.cancellations.get(runId)
+    if (!cancellation) {
+      return false
+    }
+    cancellation.cancel()
+    return true
+  }
+
+  /**
+   * Runが実行中かどうかを判定する
+   * @param {string} runId RunのID
+   * @returns {boolean}
+   */
+  public isRunning(runId: string): boolean {
+    return this.cancellations.has(runId)
+  }
+
+  /**
+   * 実行中のステータスのまま停止しているRunを失敗として保存する
+   * （拡張機能の再起動などで実行が中断された場合）
+   * @param {Run} run Run
+   * @returns {Promise<Run>} 更新後のRun
+   */
+  public async recoverRun(run: Run): Promise<Run> {
+    if (!ACTIVE_RUN_STATUSES.includes(run.status) || this.isRunning(run.id)) {
+      return run
+    }
+
+    logger.warn(`Run ${run.id} was interrupted`)
+    const now = Math.floor(Date.now() / 1000)
+    if (run.status === 'cancelling') {
+      return assistantsStore.put<Run>('runs', {
+        ...run,
+        status: 'cancelled',
+        cancelled_at: now,
+      })
+    }
+    return assistantsStore.put<Run>('runs', {
+      ...run,
+      status: 'failed',
+      failed_at: now,
+      last_error: {
+        code: 'server_error',
+        message: 'The run was interrupted before completion',
+      },
+    })
+  }
+
+  /**
+   * Runを実行し、ストリーミングイベントを生成する
+   * @param {string} runId RunのID
+   * @param {vscode.CancellationTokenSource} cancellation キャンセラレーショントークン
+   * @returns {AsyncGenerator<AssistantStreamEvent>}
+   */
+  private async *executeRun(
+    runId: string,
+    cancellation: vscode.CancellationTokenSource,
+  ): AsyncGenerator<AssistantStreamEvent> {
+    const storedRun = await assistantsStore.get<Run>('runs', runId)
+    if (!storedRun) {
+      this.cancellations.delete(runId)
+      return
+    }
+    let run = storedRun
+
+    // 実行中のメッセージ・ステップ（エラー時に状態を更新するため保持）
+    let message: Message | null = null
+    let messageStep: RunStep | null = null
+
+    try {
+      yield { event: 'thread.run.queued', data: run }
+
+      run = await assistantsStore.put<Run>('runs', {
+        ...run,
+        status: 'in_progress',
+        started_at: run.started_at ?? Math.floor(Date.now() / 1000),
+      })
+      yield { event: 'thread.run.in_progress', data: run }
+
+      // スレッドの状態からChat Completions APIのリクエストを組み立てる
+      const threadId = run.thread_id
+      const messages = await assistantsStore.list<Message>(
+        'messages',
+        item => item.thread_id === threadId,
+      )
+      const steps = await assistantsStore.list<RunStep>(
+        'steps',
+        item => item.thread_id === threadId && item.status === 'completed',
+      )
+      const request = {
+        ...convertAssistantsRunToOpenAIRequest(run, messages, steps),
+        stream: true as const,
+      }
+      logger.debug('Assistants run request', { runId, request })
+
+      // LM APIへリクエスト送信（ストリーミング）
+      const stream = (await sendChatCompletionRequest(
+        request,
+        cancellation.token,
+      )) as AsyncIterable<ChatCompletionChunk>
+
+      const toolCalls: FunctionToolCall[] = []
+      let usage: RunStep['usage'] = null
+
+      for await (const chunk of stream) {
+        if (cancellation.token.isCancellationRequested) {
+          break
+        }
+        if (chunk.usage?.total_tokens) {
+          usage = {
+            prompt_tokens: chunk.usage.prompt_tokens,
+            completion_tokens: chunk.usage.completion_tokens,
+            total_tokens: chunk.usage.total_tokens,
+          }
+        }
+
+        const delta = chunk.choices[0]?.delta
+        if (!delta) {
+          continue
+        }
+
+        // テキストはアシスタントのメッセージとして追加
+        if (delta.content) {
+          if (!message || !messageStep) {
+            const now = Math.floor(Date.now() / 1000)
+            message = await assistantsStore.put<Message>('messages', {
+              id: createAssistantsId('msg'),
+              object: 'thread.message',
+              created_at: now,
+              thread_id: run.thread_id,
+              assistant_id: run.assistant_id,
+              run_id: run.id,
+              role: 'assistant',
+              content: [],
+              attachments: [],
+              metadata: {},
+              status: 'in_progress',
+              completed_at: null,
+              incomplete_at: null,
+              incomplete_details: null,
+            })
+            messageStep = await assistantsStore.put<RunStep>(
+              'steps',
+              this.createStep(run, {
+                type: 'message_creation',
+                message_creation: { message_id: message.id },
+              }),
+            )
+            yield { event: 'thread.run.step.created', data: messageStep }
+            yield { event: 'thread.run.step.in_progress', data: messageStep }
+            yield { event: 'thread.message.created', data: message }
+            yield { event: 'thread.message.in_progress', data: message }
+          }
+
+          const content = message.content[0]
+          if (content?.type === 'text') {
+            content.text.value += delta.content
+          } else {
+            message.content.push({
+              type: 'text',
+              text: { value: delta.content, annotations: [] },
+            })
+          }
+          yield {
+            event: 'thread.message.delta',
+            data: {
+              id: message.id,
+              object: 'thread.message.delta',
+              delta: {
+                content: [
+                  {
+                    index: 0,
+                    type: 'text',
+                    text: { value: delta.content, annotations: [] },
+                  },
+                ],
+              },
+            },
+          }
+        }
+
+        // ツールコールは出力待ちのツールコールとして保持
+        for (const toolCall of delta.tool_calls ?? []) {
+          toolCalls.push({
+            id: toolCall.id ?? createAssistantsId('call'),
+            type: 'function',
+            function: {
+              name: toolCall.function?.name ?? '',
+              arguments: toolCall.function?.arguments ?? '',
+              output: null,
+            },
+          })
+        }
+      }
+
+      // キャンセルされた場合
+      if (cancellation.token.isCancellationRequested) {
+        if (message && messageStep) {
+          yield* this.finishMessage(message, messageStep, 'cancelled', null)
+        }
+        run = await assistantsStore.put<Run>('runs', {
+          ...run,
+          status: 'cancelled',
+          cancelled_at: Math.floor(Date.now() / 1000),
+        })
+        yield { event: 'thread.run.cancelled', data: run }
+        return
+      }
+
+      // メッセージを完了（使用量はツールコールがなければメッセージのステップに記録）
+      if (message && messageStep) {
+        yield* this.finishMessage(
+          message,
+          messageStep,
+          'completed',
+          toolCalls.length > 0 ? null : usage,
+        )
+        message = null
+        messageStep = null
+      }
+
+      // ツールコールがあればrequires_actionで停止
+      if (toolCalls.length > 0) {
+        const toolStep = await assistantsStore.put<RunStep>('steps', {
+          ...this.createStep(run, {
+            type: 'tool_calls',
+            tool_calls: toolCalls,
+          }),
+          usage,
+        })
+        yield { event: 'thread.run.step.created', data: toolStep }
+        yield { event: 'thread.run.step.in_progress', data: toolStep }
+
+        run = await assistantsStore.put<Run>('runs', {
+          ...run,
+          status: 'requires_action',
+          required_action: {
+            type: 'submit_tool_outputs',
+            submit_tool_outputs: {
+              tool_calls: toolCalls.map(toolCall => ({
+                id: toolCall.id,
+                type: 'function',
+                function: {
+                  name: toolCall.function.name,
+                  arguments: toolCall.function.arguments,
+                },
+              })),
+            },
+          },
+        })
+        yield { event: 'thread.run.requires_action', data: run }
+        return
+      }
+
+      // Runを完了（使用量はこのRunのステップの合計）
+      run = await assistantsStore.put<Run>('runs', {
+        ...run,
+        status: 'completed',
+        completed_at: Math.floor(Date.now() / 1000),
+        usage: await this.sumUsage(run.id),
+      })
+      yield { event: 'thread.run.completed', data: run }
+    } catch (error) {
+      const { statusCode, apiError } = handleChatCompletionError(
+        error as vscode.LanguageModelError,
+      )
+      const lastError = {
+        code:
+          statusCode === 429
+            ? ('rate_limit_exceeded' as const)
+            : ('server_error' as const),
+        message: apiError.message,
+      }
+
+      if (message && messageStep) {
+        yield* this.finishMessage(message, messageStep, 'failed', null)
+      }
+      run = await assistantsStore.put<Run>('runs', {
+        ...run,
+        status: 'failed',
+        failed_at: Math.floor(Date.now() / 1000),
+        last_error: lastError,
+      })
+      yield { event: 'thread.run.failed', data: run }
+    } finally {
+      this.cancellations.delete(runId)
+    }
+  }
+
+  /**
+   * メッセージとメッセージ作成ステップを終了状態にして保存する
+   * @param {Message} message メッセージ
+   * @param {RunStep} step メッセージ作成ステップ
+   * @param {'completed' | 'cancelled' | 'failed'} status ステップの終了状態
+   * @param {RunStep['usage']} usage ステップの使用量
+   * @returns {AsyncGenerator<AssistantStreamEvent>}
+   */
+  private async *finishMessage(
+    message: Message,
+    step: RunStep,
+    status: 'completed' | 'cancelled' | 'failed',
+    usage: RunStep['usage'],
+  ): AsyncGenerator<AssistantStreamEvent> {
+    const now = Math.floor(Date.now() / 1000)
+
+    if (status === 'completed') {
+      const completedMessage = await assistantsStore.put<Message>('messages', {
+        ...message,
+        status: 'completed',
+        completed_at: now,
+      })
+      yield { event: 'thread.message.completed', data: completedMessage }
+
+      const completedStep = await assistantsStore.put<RunStep>('steps', {
+        ...step,
+        status: 'completed',
+        completed_at: now,
+        usage,
+      })
+      yield { event: 'thread.run.step.completed', data: completedStep }
+      return
+    }
+
+    const incompleteMessage = await assistantsStore.put<Message>('messages', {
+      ...message,
+      status: 'incomplete',
+      incomplete_at: now,
+      incomplete_details: { reason: 'run_cancelled' },
+    })
+    yield { event: 'thread.message.incomplete', data: incompleteMessage }
+
+    if (status === 'cancelled') {
+      const cancelledStep = await assistantsStore.put<RunStep>('steps', {
+        ...step,
+        status: 'cancelled',
+        cancelled_at: now,
+      })
+      yield { event: 'thread.run.step.cancelled', data: cancelledStep }
+    } else {
+      const failedStep = await assistantsStore.put<RunStep>('steps', {
+        ...step,
+        status: 'failed',
+        failed_at: now,
+        last_error: {
+          code: 'server_error',
+          message: 'The run failed while generating the message',
+        },
+      })
+      yield { event: 'thread.run.step.failed', data: failedStep }
+    }
+  }
+
+  /**
+   * 実行中のRunステップを生成する（保存はしない）
+   * @param {Run} run Run
+   * @param {RunStep['step_details']} stepDetails ステップの詳細
+   * @returns {RunStep}
+   */
+  private createStep(run: Run, stepDetails: RunStep['step_details']): RunStep {
+    return {
+      id: createAssistantsId('step'),
+      object: 'thread.run.step',
+      created_at: Math.floor(Date.now() / 1000),
+      assistant_id: run.assistant_id,
+      thread_id: run.thread_id,
+      run_id: run.id,
+      type: stepDetails.type,
+      status: 'in_progress',
+      step_details: stepDetails,
+      last_error: null,
+      expired_at: null,
+      cancelled_at: null,
+      failed_at: null,
+      completed_at: null,
+      metadata: {},
+      usage: null,
+    }
+  }
+
+  /**
+   * Runのステップの使用量を合計する
+   * @param {string} runId RunのID
+   * @returns {Promise<Run['usage']>}
+   */
+  private async sumUsage(runId: string): Promise<Run['usage']> {
+    const steps = await assistantsStore.list<RunStep>(
+      'steps',
+      step => step.run_id === runId,
+    )
+    return steps.reduce(
+      (total, step) => ({
+        prompt_tokens: total.prompt_tokens + (step.usage?.prompt_tokens ?? 0),
+        completion_tokens:
+          total.completion_tokens + (step.usage?.completion_tokens ?? 0),
+        total_tokens: total.total_tokens + (step.usage?.total_tokens ?? 0),
+      }),
+      { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    )
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const assistantsRunner = new AssistantsRunner()
@@ -0,0 +1,253 @@
+// Assistants APIのオブジェクトを永続化するストア
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type * as vscode from 'vscode'
+import { generateRandomId } from '../utils'
+import { logger } from '../utils/logger'
+
+/**
+ * ストアで管理するオブジェクトの種類
+ */
+export type AssistantsCollection =
+  | 'assistants'
+  | 'threads'
+  | 'messages'
+  | 'runs'
+  | 'steps'
+
+// すべてのコレクション
+const COLLECTIONS: AssistantsCollection[] = [
+  'assistants',
+  'threads',
+  'messages',
+  'runs',
+  'steps',
+]
+
+// 最後にIDを発行した時刻（ミリ秒）
+let lastIdTime = 0
+
+/**
+ * Assistants APIのオブジェクトIDを生成します。
+ * created_atは秒単位のため、同じ秒に作成されたオブジェクトの順序をIDで判定できるよう、
+ * プレフィックスの後に単調増加する作成時刻（36進数）を含めます。
+ * @param {string} prefix IDのプレフィックス（例: msg）
+ * @returns {string} 例: msg_0lz3k9x2a4f8h2k1c9d
+ */
+export function createAssistantsId(prefix: string): string {
+  lastIdTime = Math.max(Date.now(), lastIdTime + 1)
+  return `${prefix}_${lastIdTime.toString(36).padStart(9, '0')}${generateRandomId()}`
+}
+
+/**
+ * Assistants APIのオブジェクトを作成順に比較します。
+ * created_atが同じ場合はIDに含まれる作成時刻で比較します。
+ * @param a 比較対象
+ * @param b 比較対象
+ * @returns {number}
+ */
+export function compareByCreation(
+  a: { id: string; created_at: number },
+  b: { id: string; created_at: number },
+): number {
+  if (a.created_at !== b.created_at) {
+    return a.created_at - b.created_at
+  }
+  const keyA = a.id.slice(a.id.indexOf('_') + 1)
+  const keyB = b.id.slice(b.id.indexOf('_') + 1)
+  return keyA < keyB ? -1 : keyA > keyB ? 1 : 0
+}
+
+/**
+ * Assistantsストアクラス
+ * Assistants APIのassistant, thread, message, run, run stepを
+ * 拡張機能のグローバルストレージに1オブジェクト1ファイルで保存します。
+ * 起動時にすべて読み込み、以降はメモリ上のデータを参照しつつ変更をファイルに書き込みます。
+ */
+class AssistantsStore {
+  // オブジェクトの保存先ディレクトリ
+  private storageDir: string | null = null
+
+  // 読み込み済みのオブジェクト（コレクションごと）
+  private collections = new Map<
+    AssistantsCollection,
+    Map<string, { id: string; created_at: number }>
+  >()
+  private loading: Promise<void> | null = null
+
+  // ファイル書き込みを直列化するためのPromiseチェーン
+  private writeChain: Promise<void> = Promise.resolve()
+
+  /**
+   * ExtensionContextをセット（グローバルストレージ利用のため）
+   * @param {vscode.ExtensionContext} context 拡張機能のコンテキスト
+   */
+  public setExtensionContext(context: vscode.ExtensionContext) {
+    this.storageDir = path.join(context.globalStorageUri.fsPath, 'assistants')
+  }
+
+  /**
+   * オブジェクトを取得する
+   * @param {AssistantsCollection} collection コレクション
+   * @param {string} id オブジェクトID
+   * @returns {Promise<T | undefined>}
+   */
+  public async get<T extends { id: string; created_at: number }>(
+    collection: AssistantsCollection,
+    id: string,
+  ): Promise<T | undefined> {
+    await this.load()
+    return this.getCollection(collection).get(id) as T | undefined
+  }
+
+  /**
+   * 条件に一致するオブジェクトを作成日時の古い順に取得する
+   * @param {AssistantsCollection} collection コレクション
+   * @param {(item: T) => boolean} filter 絞り込み条件
+   * @returns {Promise<T[]>}
+   */
+  public async list<T extends { id: string; created_at: number }>(
+    collection: AssistantsCollection,
+    filter: (item: T) => boolean = () => true,
+  ): Promise<T[]> {
+    await this.load()
+    return ([...this.getCollection(collection).values()] as T[])
+      .filter(filter)
+      .sort(compareByCreation)
+  }
+
+  /**
+   * オブジェクトを保存する（同じIDのオブジェクトは上書き）
+   * @param {AssistantsCollection} collection コレクション
+   * @param {T} item 保存するオブジェクト
+   * @returns {Promise<T>} 保存したオブジェクト
+   */
+  public async put<T extends { id: string; created_at: number }>(
+    collection: AssistantsCollection,
+    item: T,
+  ): Promise<T> {
+    await this.load()
+    this.getCollection(collection).set(item.id, item)
+
+    const data = JSON.stringify(item)
+    await this.enqueueWrite(() =>
+      fs.writeFile(this.getFilePath(collection, item.id), data),
+    )
+    return item
+  }
+
+  /**
+   * オブジェクトを削除する
+   * @param {AssistantsCollection} collection コレクション
+   * @param {string} id オブジェクトID
+   * @returns {Promise<boolean>} 削除した場合はtrue
+   */
+  public async delete(
+    collection: AssistantsCollection,
+    id: string,
+  ): Promise<boolean> {
+    await this.load()
+    if (!this.getCollection(collection).delete(id)) {
+      return false
+    }
+
+    await this.enqueueWrite(() =>
+      fs.rm(this.getFilePath(collection, id), { force: true }),
+    )
+    return true
+  }
+
+  /**
+   * 保存済みのオブジェクトを読み込む（初回のみ）
+   * @returns {Promise<void>}
+   */
+  public load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadFromDisk().catch(error => {
+        // 次回の呼び出しで再試行できるようにする
+        this.loading = null
+        throw error
+      })
+    }
+    return this.loading
+  }
+
+  /**
+   * すべてのコレクションをファイルから読み込む
+   * @returns {Promise<void>}
+   */
+  private async loadFromDisk(): Promise<void> {
+    if (!this.storageDir) {
+      throw new Error('Assistants storage is not initialized')
+    }
+
+    for (const collection of COLLECTIONS) {
+      const dir = path.join(this.storageDir, collection)
+      await fs.mkdir(dir, { recursive: true })
+
+      const items = this.getCollection(collection)
+      for (const entry of await fs.readdir(dir)) {
+        if (!entry.endsWith('.json')) {
+          continue
+        }
+        try {
+          const item = JSON.parse(
+            await fs.readFile(path.join(dir, entry), 'utf8'),
+          )
+          items.set(item.id, item)
+        } catch (error) {
+          logger.warn(`Failed to load ${collection}/${entry}`, error as Error)
+        }
+      }
+    }
+
+    logger.debug('Loaded assistants store', {
+      assistants: this.getCollection('assistants').size,
+      threads: this.getCollection('threads').size,
+    })
+  }
+
+  /**
+   * ファイル書き込みを直列に実行する
+   * @param {() => Promise<void>} write 書き込み処理
+   * @returns {Promise<void>}
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write)
+    // 書き込みエラーで後続の書き込みが止まらないようにする
+    this.writeChain = next.catch(error => {
+      logger.error('Assistants storage write error', error as Error)
+    })
+    return next
+  }
+
+  /**
+   * コレクションのMapを取得する（存在しない場合は作成）
+   * @param {AssistantsCollection} collection コレクション
+   * @returns {Map<string, { id: string; created_at: number }>}
+   */
+  private getCollection(collection: AssistantsCollection) {
+    let items = this.collections.get(collection)
+    if (!items) {
+      items = new Map()
+      this.collections.set(collection, items)
+    }
+    return items
+  }
+
+  /**
+   * オブジェクトの保存先ファイルパスを取得する
+   * @param {AssistantsCollection} collection コレクション
+   * @param {string} id オブジェクトID
+   * @returns {string}
+   */
+  private getFilePath(collection: AssistantsCollection, id: string): string {
+    if (!this.storageDir) {
+      throw new Error('Assistants storage is not initialized')
+    }
+    return path.join(this.storageDir, collection, `${id}.json`)
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const assistantsStore = new AssistantsStore()
@@ -0,0 +1,609 @@
+// バッチジョブの永続化・実行を行うマネージャー
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import * as vscode from 'vscode'
+import { generateRandomId } from '../utils'
+import { logger } from '../utils/logger'
+
+/**
+ * バッチジョブを作成したAPIの種類
+ */
+export type BatchDialect = 'anthropic' | 'openai'
+
+/**
+ * バッチ内の個別リクエスト
+ */
+export interface BatchRequest {
+  customId: string
+  params: unknown
+}
+
+/**
+ * 個別リクエストの処理結果
+ * bodyには成功時のレスポンス、失敗時のエラーレスポンスをAPIの形式のまま保持する
+ */
+export interface BatchResult {
+  customId: string
+  type: 'succeeded' | 'errored' | 'canceled' | 'expired'
+  statusCode?: number
+  body?: unknown
+}
+
+/**
+ * 個別リクエストの処理件数
+ */
+export interface BatchRequestCounts {
+  processing: number
+  succeeded: number
+  errored: number
+  canceled: number
+  expired: number
+}
+
+/**
+ * バッチジョブのメタデータ
+ */
+export interface BatchJob {
+  id: string
+  dialect: BatchDialect
+  status: 'in_progress' | 'canceling' | 'ended'
+  createdAt: number
+  expiresAt: number
+  endedAt: number | null
+  cancelInitiatedAt: number | null
+  requestCounts: BatchRequestCounts
+  // API固有の情報（OpenAIのinput_file_idなど）
+  metadata: Record<string, unknown>
+}
+
+/**
+ * 個別リクエストを実行する関数
+ * 失敗時も例外を投げずに、type: 'errored'の結果を返す
+ * cancellationTokenはバッチジョブのキャンセル時にキャンセルされる
+ */
+export type BatchRunner = (
+  params: unknown,
+  cancellationToken: vscode.CancellationToken,
+) => Promise<Omit<BatchResult, 'customId'>>
+
+/**
+ * バッチジョブの終了時に呼ばれる関数
+ * 戻り値はジョブのメタデータにマージされる（OpenAIの出力ファイルIDなど）
+ */
+export type BatchEndHandler = (
+  job: BatchJob,
+) => Promise<Record<string, unknown> | undefined>
+
+// バッチジョブの有効期限（24時間）
+const BATCH_EXPIRATION_MS = 24 * 60 * 60 * 1000
+
+/**
+ * バッチジョブ管理クラス
+ * バッチジョブを拡張機能のグローバルストレージに保存し、同時実行数を制限しながら順次実行します。
+ * ジョブはディレクトリ単位で保存され、ウィンドウのリロード後もサーバー起動時に未処理分から再開します。
+ * - batch.json: ジョブのメタデータ
+ * - requests.jsonl: 個別リクエスト
+ * - results.jsonl: 個別リクエストの処理結果（処理済み判定にも利用）
+ */
+class BatchManager {
+  // バッチジョブの保存先ディレクトリ
+  private storageDir: string | null = null
+
+  // 読み込み済みのバッチジョブ
+  private jobs = new Map<string, BatchJob>()
+  private isLoaded = false
+
+  // APIの種類ごとのリクエスト実行関数と終了時の処理
+  private runners = new Map<BatchDialect, BatchRunner>()
+  private endHandlers = new Map<BatchDialect, BatchEndHandler>()
+
+  // 終了処理中のバッチID
+  private finishing = new Set<string>()
+
+  // 実行待ちのリクエスト
+  private queue: Array<{ jobId: string; request: BatchRequest }> = []
+
+  // 実行中のリクエスト（`{バッチID}:{custom_id}`）とキャンセラレーショントークンソース
+  private inFlight = new Map<string, vscode.CancellationTokenSource>()
+
+  // キューを処理中かどうか（サーバー停止中は処理しない）
+  private isRunning = false
+
+  // ファイル書き込みを直列化するためのPromiseチェーン
+  private writeChain: Promise<void> = Promise.resolve()
+
+  /**
+   * ExtensionContextをセット（グローバルストレージ利用のため）
+   * @param {vscode.ExtensionContext} context 拡張機能のコンテキスト
+   */
+  public setExtensionContext(context: vscode.ExtensionContext) {
+    this.storageDir = path.join(context.globalStorageUri.fsPath, 'batches')
+  }
+
+  /**
+   * APIの種類ごとのリクエスト実行関数を登録する
+   * @param {BatchDialect} dialect APIの種類
+   * @param {BatchRunner} runner リクエスト実行関数
+   * @param {BatchEndHandler} onEnded ジョブ終了時の処理（任意）
+   */
+  public registerRunner(
+    dialect: BatchDialect,
+    runner: BatchRunner,
+    onEnded?: BatchEndHandler,
+  ) {
+    this.runners.set(dialect, runner)
+    if (onEnded) {
+      this.endHandlers.set(dialect, onEnded)
+    }
+  }
+
+  /**
+   * 保存済みのバッチジョブを読み込み、未処理のリクエストの実行を再開する
+   * @returns {Promise<void>}
+   */
+  public async start(): Promise<void> {
+    await this.load()
+    this.isRunning = true
+
+    // 未完了のジョブを再開
+    for (const job of this.jobs.values()) {
+      if (job.status === 'ended') {
+        continue
+      }
+
+      // 処理件数は結果ファイルから再計算する（メタデータの保存前に終了した場合に備える）
+      const requests = await this.readRequests(job.id)
+      const results = await this.readResults(job.id)
+      job.requestCounts = {
+        processing: requests.length - results.length,
+        succeeded: 0,
+        errored: 0,
+        canceled: 0,
+        expired: 0,
+      }
+      for (const result of results) {
+        job.requestCounts[result.type]++
+      }
+
+      // 処理済み・実行中のリクエストを除外
+      const doneIds = new Set(results.map(result => result.customId))
+      const pending = requests.filter(
+        request =>
+          !doneIds.has(request.customId) &&
+          !this.inFlight.has(`${job.id}:${request.customId}`),
+      )
+
+      if (job.status === 'canceling') {
+        await this.finishRemaining(job, pending, 'canceled')
+        continue
+      }
+
+      logger.info(`Resuming batch ${job.id}`, { pending: pending.length })
+      for (const request of pending) {
+        this.queue.push({ jobId: job.id, request })
+      }
+      await this.completeIfDone(job)
+    }
+
+    this.pump()
+  }
+
+  /**
+   * キューの処理を停止する（実行中のリクエストは完了まで処理される）
+   */
+  public stop() {
+    this.isRunning = false
+    this.queue = []
+  }
+
+  /**
+   * バッチジョブを作成し、実行キューに追加する
+   * @param {BatchDialect} dialect APIの種類
+   * @param {string} idPrefix バッチIDの接頭辞
+   * @param {BatchRequest[]} requests 個別リクエスト
+   * @param {Record<string, unknown>} metadata API固有の情報
+   * @returns {Promise<BatchJob>} 作成したバッチジョブ
+   */
+  public async createJob(
+    dialect: BatchDialect,
+    idPrefix: string,
+    requests: BatchRequest[],
+    metadata: Record<string, unknown> = {},
+  ): Promise<BatchJob> {
+    await this.load()
+
+    const now = Date.now()
+    const job: BatchJob = {
+      id: `${idPrefix}${generateRandomId()}${generateRandomId()}`,
+      dialect,
+      status: 'in_progress',
+      createdAt: now,
+      expiresAt: now + BATCH_EXPIRATION_MS,
+      endedAt: null,
+      cancelInitiatedAt: null,
+      requestCounts: {
+        processing: requests.length,
+        succeeded: 0,
+        errored: 0,
+        canceled: 0,
+        expired: 0,
+      },
+      metadata,
+    }
+
+    // リクエストとメタデータを保存
+    const jobDir = this.getJobDir(job.id)
+    await fs.mkdir(jobDir, { recursive: true })
+    await fs.writeFile(
+      path.join(jobDir, 'requests.jsonl'),
+      requests.map(request => JSON.stringify(request)).join('\n'),
+    )
+    await fs.writeFile(path.join(jobDir, 'results.jsonl'), '')
+    this.jobs.set(job.id, job)
+    await this.saveJob(job)
+    logger.info(`Batch ${job.id} created`, { requests: requests.length })
+
+    // キューに追加して実行
+    for (const request of requests) {
+      this.queue.push({ jobId: job.id, request })
+    }
+    await this.completeIfDone(job)
+    this.pump()
+
+    return job
+  }
+
+  /**
+   * バッチジョブを取得する
+   * @param {string} id バッチID
+   * @returns {Promise<BatchJob | undefined>}
+   */
+  public async getJob(id: string): Promise<BatchJob | undefined> {
+    await this.load()
+    return this.jobs.get(id)
+  }
+
+  /**
+   * 指定したAPIのバッチジョブ一覧を新しい順に取得する
+   * @param {BatchDialect} dialect APIの種類
+   * @returns {Promise<BatchJob[]>}
+   */
+  public async listJobs(dialect: BatchDialect): Promise<BatchJob[]> {
+    await this.load()
+    return [...this.jobs.values()]
+      .filter(job => job.dialect === dialect)
+      .sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  /**
+   * バッチジョブをキャンセルする
+   * 未実行のリクエストはcanceledとなり、実行中のリクエストはLM APIへのリクエストをキャンセルして終了を待つ
+   * @param {string} id バッチID
+   * @returns {Promise<BatchJob | undefined>}
+   */
+  public async cancelJob(id: string): Promise<BatchJob | undefined> {
+    await this.load()
+    const job = this.jobs.get(id)
+    if (!job || job.status !== 'in_progress') {
+      return job
+    }
+
+    job.status = 'canceling'
+    job.cancelInitiatedAt = Date.now()
+
+    // キューから未実行のリクエストを取り除く
+    const pending = this.queue
+      .filter(item => item.jobId === id)
+      .map(item => item.request)
+    this.queue = this.queue.filter(item => item.jobId !== id)
+
+    // 実行中のリクエストをキャンセル（結果はcanceledとして記録される）
+    for (const [key, cancellation] of this.inFlight) {
+      if (key.startsWith(`${id}:`)) {
+        cancellation.cancel()
+      }
+    }
+
+    await this.finishRemaining(job, pending, 'canceled')
+    logger.info(`Batch ${id} canceling`)
+
+    return job
+  }
+
+  /**
+   * 終了したバッチジョブを削除する
+   * @param {string} id バッチID
+   * @returns {Promise<boolean>} 削除した場合はtrue
+   */
+  public async deleteJob(id: string): Promise<boolean> {
+    await this.load()
+    const job = this.jobs.get(id)
+    if (!job || job.status !== 'ended') {
+      return false
+    }
+
+    this.jobs.delete(id)
+    await this.enqueueWrite(() =>
+      fs.rm(this.getJobDir(id), { recursive: true, force: true }),
+    )
+    return true
+  }
+
+  /**
+   * バッチジョブの処理結果を取得する
+   * @param {string} id バッチID
+   * @returns {Promise<BatchResult[]>}
+   */
+  public async getResults(id: string): Promise<BatchResult[]> {
+    await this.writeChain
+    return this.readResults(id)
+  }
+
+  /**
+   * 保存済みのバッチジョブを読み込む（初回のみ）
+   * @returns {Promise<void>}
+   */
+  private async load(): Promise<void> {
+    if (this.isLoaded) {
+      return
+    }
+    if (!this.storageDir) {
+      throw new Error('Batch storage is not initialized')
+    }
+
+    await fs.mkdir(this.storageDir, { recursive: true })
+    const entries = await fs.readdir(this.storageDir, { withFileTypes: true })
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue
+      }
+      try {
+        const data = await fs.readFile(
+          path.join(this.storageDir, entry.name, 'batch.json'),
+          'utf8',
+        )
+        const job = JSON.parse(data) as BatchJob
+        this.jobs.set(job.id, job)
+      } catch (error) {
+        logger.warn(`Failed to load batch ${entry.name}`, error as Error)
+      }
+    }
+
+    this.isLoaded = true
+    logger.debug('Loaded batches', { count: this.jobs.size })
+  }
+
+  /**
+   * 同時実行数の上限までキューのリクエストを実行する
+   */
+  private pump() {
+    const config = vscode.workspace.getConfiguration('vscode-lm-proxy')
+    const concurrency = Math.max(1, config.get<number>('batchConcurrency', 2))
+
+    while (
+      this.isRunning &&
+      this.inFlight.size < concurrency &&
+      this.queue.length > 0
+    ) {
+      const item = this.queue.shift()
+      if (!item) {
+        break
+      }
+
+      const key = `${item.jobId}:${item.request.customId}`
+      const cancellation = new vscode.CancellationTokenSource()
+      this.inFlight.set(key, cancellation)
+      this.processRequest(item.jobId, item.request, cancellation.token)
+        .catch(error => {
+          logger.error(`Batch ${item.jobId} request failed`, error as Error)
+        })
+        .finally(() => {
+          this.inFlight.delete(key)
+          cancellation.dispose()
+          this.pump()
+        })
+    }
+  }
+
+  /**
+   * 個別リクエストを実行し、結果を保存する
+   * @param {string} jobId バッチID
+   * @param {BatchRequest} request 個別リクエスト
+   * @param {vscode.CancellationToken} cancellationToken バッチジョブのキャンセル時にキャンセルされるトークン
+   * @returns {Promise<void>}
+   */
+  private async processRequest(
+    jobId: string,
+    request: BatchRequest,
+    cancellationToken: vscode.CancellationToken,
+  ): Promise<void> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'in_progress') {
+      return
+    }
+
+    // 有効期限切れのリクエストは実行しない
+    if (Date.now() > job.expiresAt) {
+      await this.recordResult(job, {
+        customId: request.customId,
+        type: 'expired',
+      })
+      return
+    }
+
+    const runner = this.runners.get(job.dialect)
+    if (!runner) {
+      throw new Error(`No batch runner registered for ${job.dialect}`)
+    }
+
+    logger.debug(`Processing batch ${jobId} request ${request.customId}`)
+    const result = await runner(request.params, cancellationToken)
+
+    // 実行中にキャンセルされた場合は途中までの結果を破棄する
+    if (cancellationToken.isCancellationRequested) {
+      await this.recordResult(job, {
+        customId: request.customId,
+        type: 'canceled',
+      })
+      return
+    }
+    await this.recordResult(job, { ...result, customId: request.customId })
+  }
+
+  /**
+   * 未処理のリクエストをまとめて指定の結果で終了させる
+   * @param {BatchJob} job バッチジョブ
+   * @param {BatchRequest[]} requests 未処理のリクエスト
+   * @param {'canceled' | 'expired'} type 結果の種類
+   * @returns {Promise<void>}
+   */
+  private async finishRemaining(
+    job: BatchJob,
+    requests: BatchRequest[],
+    type: 'canceled' | 'expired',
+  ): Promise<void> {
+    for (const request of requests) {
+      await this.recordResult(job, { customId: request.customId, type })
+    }
+    await this.completeIfDone(job)
+  }
+
+  /**
+   * 個別リクエストの結果を保存し、処理件数を更新する
+   * @param {BatchJob} job バッチジョブ
+   * @param {BatchResult} result 処理結果
+   * @returns {Promise<void>}
+   */
+  private async recordResult(job: BatchJob, result: BatchResult) {
+    job.requestCounts.processing--
+    job.requestCounts[result.type]++
+
+    // 削除済みのジョブには書き込まない
+    if (!this.jobs.has(job.id)) {
+      return
+    }
+
+    await this.enqueueWrite(() =>
+      fs.appendFile(
+        path.join(this.getJobDir(job.id), 'results.jsonl'),
+        `${JSON.stringify(result)}\n`,
+      ),
+    )
+    await this.completeIfDone(job)
+  }
+
+  /**
+   * すべてのリクエストが処理済みであればジョブを終了し、メタデータを保存する
+   * @param {BatchJob} job バッチジョブ
+   * @returns {Promise<void>}
+   */
+  private async completeIfDone(job: BatchJob) {
+    if (
+      job.status !== 'ended' &&
+      job.requestCounts.processing <= 0 &&
+      !this.finishing.has(job.id)
+    ) {
+      this.finishing.add(job.id)
+      try {
+        // APIごとの終了処理（結果ファイルの生成など）
+        const onEnded = this.endHandlers.get(job.dialect)
+        if (onEnded) {
+          Object.assign(job.metadata, await onEnded(job))
+        }
+      } catch (error) {
+        logger.error(`Batch ${job.id} end handler failed`, error as Error)
+      } finally {
+        this.finishing.delete(job.id)
+      }
+
+      job.status = 'ended'
+      job.endedAt = Date.now()
+      logger.info(`Batch ${job.id} ended`, job.requestCounts)
+    }
+    await this.saveJob(job)
+  }
+
+  /**
+   * バッチジョブのメタデータを保存する
+   * @param {BatchJob} job バッチジョブ
+   * @returns {Promise<void>}
+   */
+  private async saveJob(job: BatchJob) {
+    if (!this.jobs.has(job.id)) {
+      return
+    }
+    const data = JSON.stringify(job)
+    await this.enqueueWrite(() =>
+      fs.writeFile(path.join(this.getJobDir(job.id), 'batch.json'), data),
+    )
+  }
+
+  /**
+   * ファイル書き込みを直列に実行する
+   * @param {() => Promise<void>} write 書き込み処理
+   * @returns {Promise<void>}
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(write)
+    // 書き込みエラーで後続の書き込みが止まらないようにする
+    this.writeChain = next.catch(error => {
+      logger.error('Batch storage write error', error as Error)
+    })
+    return next
+  }
+
+  /**
+   * 保存済みの個別リクエストを読み込む
+   * @param {string} id バッチID
+   * @returns {Promise<BatchRequest[]>}
+   */
+  private async readRequests(id: string): Promise<BatchRequest[]> {
+    return this.readJsonLines<BatchRequest>(
+      path.join(this.getJobDir(id), 'requests.jsonl'),
+    )
+  }
+
+  /**
+   * 保存済みの処理結果を読み込む
+   * @param {string} id バッチID
+   * @returns {Promise<BatchResult[]>}
+   */
+  private async readResults(id: string): Promise<BatchResult[]> {
+    return this.readJsonLines<BatchResult>(
+      path.join(this.getJobDir(id), 'results.jsonl'),
+    )
+  }
+
+  /**
+   * JSONLファイルを読み込む（ファイルが存在しない場合は空配列）
+   * @param {string} filePath ファイルパス
+   * @returns {Promise<T[]>}
+   */
+  private async readJsonLines<T>(filePath: string): Promise<T[]> {
+    let data: string
+    try {
+      data = await fs.readFile(filePath, 'utf8')
+    } catch {
+      return []
+    }
+    return data
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as T)
+  }
+
+  /**
+   * バッチジョブの保存先ディレクトリを取得する
+   * @param {string} id バッチID
+   * @returns {string}
+   */
+  private getJobDir(id: string): string {
+    if (!this.storageDir) {
+      throw new Error('Batch storage is not initialized')
+    }
+    return path.join(this.storageDir, id)
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const batchManager = new BatchManager()
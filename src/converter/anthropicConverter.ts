@@ -1,5 +1,6 @@
 import type {
   ContentBlock,
+  ImageBlockParam,
   Message,
   MessageCreateParams,
   RawMessageStreamEvent,
@@ -8,9 +9,54 @@ import type {
   WebSearchTool20250305,
 } from '@anthropic-ai/sdk/resources'
 import * as vscode from 'vscode'
-import { isTextPart, isToolCallPart } from '../server/handler'
+import { isTextPart, isThinkingPart, isToolCallPart } from '../server/handler'
+import {
+  type AgentLoopContext,
+  formatAgentToolStep,
+  isAgentToolStep,
+  runAgentLoop,
+} from '../tools/agentLoop'
+import { withInjectedVSCodeTools } from '../tools/vscodeTools'
 import { generateRandomId } from '../utils'
 import { logger } from '../utils/logger'
+import {
+  createImageDataPart,
+  createImageDataPartFromURL,
+  type LanguageModelChatMessagePart,
+} from './dataPartConverter'
+import {
+  applyCitations,
+  type CitationContext,
+  convertAnthropicDocumentBlock,
+  createCitationContext,
+  getCitationInstruction,
+  isCitedText,
+} from './documentConverter'
+import {
+  applyMaxTokens,
+  isMaxTokensReached,
+  type MaxTokensContext,
+} from './maxTokensConverter'
+import {
+  applyStopSequences,
+  isStopSequenceMatch,
+  type StopSequenceContext,
+} from './stopSequenceConverter'
+import {
+  applySystemPromptStrategy,
+  createSystemPrompt,
+  type SystemPrompt,
+} from './systemPromptConverter'
+import {
+  createThinkingPart,
+  getThinkingSignature,
+  getThinkingText,
+} from './thinkingConverter'
+import {
+  applyToolChoice,
+  keepFirstToolCall,
+  type ToolChoice,
+} from './toolChoiceConverter'
 
 /**
  * Anthropic APIのMessageCreateParamsリクエストを
@@ -19,11 +65,12 @@ import { logger } from '../utils/logger'
  * - systemプロンプトやmessagesをVSCodeのメッセージ配列に変換
  * - tools, tool_choice等をVSCode APIのオプション形式に変換
  * - VSCode APIが未対応のパラメータはmodelOptionsに集約
+ * - documentブロックはテキストを抽出し、引用が有効な場合は引用元の情報を返す
  * - 仕様差異を吸収するための変換ロジックを含む
  *
  * @param anthropicRequest Anthropicのチャットリクエストパラメータ
  * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
- * @returns VSCode拡張API用のチャットメッセージ配列とオプション
+ * @returns VSCode拡張API用のチャットメッセージ配列とオプション、引用のコンテキスト
  */
 export async function convertAnthropicRequestToVSCodeRequest(
   anthropicRequest: MessageCreateParams,
@@ -32,50 +79,42 @@ export async function convertAnthropicRequestToVSCodeRequest(
   messages: vscode.LanguageModelChatMessage[]
   options: vscode.LanguageModelChatRequestOptions
   inputTokens: number
+  citations?: CitationContext
 }> {
   logger.debug('Converting Anthropic request to VSCode request')
 
   // --- messages変換 ---
-  const messages: vscode.LanguageModelChatMessage[] = []
+  const convertedMessages: (vscode.LanguageModelChatMessage | SystemPrompt)[] =
+    []
+  // documentブロックの引用元の情報
+  const citationContext = createCitationContext()
 
-  // systemプロンプトがあればassistant roleで先頭に追加
+  // systemプロンプトがあれば先頭に追加（後で設定された渡し方で変換する）
   if ('system' in anthropicRequest && anthropicRequest.system) {
     if (typeof anthropicRequest.system === 'string') {
       // stringの場合
-      messages.push(
-        new vscode.LanguageModelChatMessage(
-          vscode.LanguageModelChatMessageRole.Assistant,
-          `[SYSTEM] ${anthropicRequest.system}`,
-          'System',
-        ),
-      )
+      convertedMessages.push(createSystemPrompt(anthropicRequest.system))
     } else if (Array.isArray(anthropicRequest.system)) {
       // TextBlockParam[] の場合
       for (const block of anthropicRequest.system) {
         if (block.type === 'text' && typeof block.text === 'string') {
-          messages.push(
-            new vscode.LanguageModelChatMessage(
-              vscode.LanguageModelChatMessageRole.Assistant,
-              `[SYSTEM] ${block.text}`,
-              'System',
-            ),
-          )
+          convertedMessages.push(createSystemPrompt(block.text))
         }
       }
     }
   }
 
+  // 思考過程は最後のassistantメッセージ（ツール実行中のターン）のものだけを残し、以前のターンのものは除く
+  const lastAssistantIndex = anthropicRequest.messages
+    .map(msg => msg.role)
+    .lastIndexOf('assistant')
+  const isThinkingEnabled = anthropicRequest.thinking?.type === 'enabled'
+
   // 通常のmessagesを追加
-  messages.push(
-    ...anthropicRequest.messages.map(msg => {
+  convertedMessages.push(
+    ...anthropicRequest.messages.map((msg, messageIndex) => {
       let role: vscode.LanguageModelChatMessageRole
-      let content:
-        | string
-        | Array<
-            | vscode.LanguageModelTextPart
-            | vscode.LanguageModelToolResultPart
-            | vscode.LanguageModelToolCallPart
-          > = ''
+      let content: string | LanguageModelChatMessagePart[] = ''
       let name = 'Assistant'
 
       // ロール変換
@@ -94,14 +133,12 @@ export async function convertAnthropicRequestToVSCodeRequest(
       if (typeof msg.content === 'string') {
         content = msg.content
       } else if (Array.isArray(msg.content)) {
-        content = msg.content.map(c => {
+        content = msg.content.flatMap(c => {
           switch (c.type) {
             case 'text':
               return new vscode.LanguageModelTextPart(c.text)
             case 'image':
-              return new vscode.LanguageModelTextPart(
-                `[Image] ${JSON.stringify(c)}`,
-              )
+              return convertAnthropicImageBlock(c, vsCodeModel)
             case 'tool_use':
               return new vscode.LanguageModelToolCallPart(
                 c.id,
@@ -118,9 +155,7 @@ export async function convertAnthropicRequestToVSCodeRequest(
                       case 'text':
                         return new vscode.LanguageModelTextPart(c.text)
                       case 'image':
-                        return new vscode.LanguageModelTextPart(
-                          `[Image] ${JSON.stringify(c)}`,
-                        )
+                        return convertAnthropicImageBlock(c, vsCodeModel)
                     }
                   }),
                 )
@@ -131,17 +166,21 @@ export async function convertAnthropicRequestToVSCodeRequest(
                 new vscode.LanguageModelTextPart(c.content ?? 'undefined'),
               ])
             case 'document':
-              return new vscode.LanguageModelTextPart(
-                `[Document] ${JSON.stringify(c)}`,
-              )
-            case 'thinking':
-              return new vscode.LanguageModelTextPart(
-                `[Thinking] ${JSON.stringify(c)}`,
+              return convertAnthropicDocumentBlock(
+                c,
+                vsCodeModel,
+                citationContext,
               )
+            case 'thinking': {
+              const thinkingPart =
+                isThinkingEnabled && messageIndex === lastAssistantIndex
+                  ? createThinkingPart(c.thinking, c.signature)
+                  : undefined
+              return thinkingPart ?? []
+            }
             case 'redacted_thinking':
-              return new vscode.LanguageModelTextPart(
-                `[Redacted Thinking] ${JSON.stringify(c)}`,
-              )
+              // 暗号化された思考過程はLM APIに渡せないため除く
+              return []
             case 'server_tool_use':
               return new vscode.LanguageModelTextPart('[Server Tool Use]')
             case 'web_search_tool_result':
@@ -156,10 +195,22 @@ export async function convertAnthropicRequestToVSCodeRequest(
         })
       }
 
-      return new vscode.LanguageModelChatMessage(role, content, name)
+      return new vscode.LanguageModelChatMessage(
+        role,
+        content as vscode.LanguageModelChatMessage['content'],
+        name,
+      )
     }),
   )
 
+  // 引用が有効なドキュメントがある場合は引用元の指定方法の指示を先頭に追加
+  if (citationContext.documents.length > 0) {
+    convertedMessages.unshift(createSystemPrompt(getCitationInstruction()))
+  }
+
+  // システムプロンプトを変換し、連続する同じロールのメッセージをまとめる
+  const messages = applySystemPromptStrategy(convertedMessages, vsCodeModel)
+
   // --- input tokens計算 ---
   let inputTokens = 0
   for (const msg of messages) {
@@ -169,28 +220,6 @@ export async function convertAnthropicRequestToVSCodeRequest(
   // --- options生成 ---
   const options: vscode.LanguageModelChatRequestOptions = {}
 
-  // tool_choice変換
-  if (
-    'tool_choice' in anthropicRequest &&
-    anthropicRequest.tool_choice !== undefined
-  ) {
-    const tc = anthropicRequest.tool_choice
-    switch (tc.type) {
-      case 'auto':
-        options.toolMode = vscode.LanguageModelChatToolMode.Auto
-        break
-      case 'any':
-        options.toolMode = vscode.LanguageModelChatToolMode.Required
-        break
-      case 'tool':
-        options.toolMode = vscode.LanguageModelChatToolMode.Required
-        break
-      case 'none': // VSCode APIにNoneはないためAuto
-        options.toolMode = vscode.LanguageModelChatToolMode.Auto
-        break
-    }
-  }
-
   // tools変換
   if ('tools' in anthropicRequest && Array.isArray(anthropicRequest.tools)) {
     options.tools = anthropicRequest.tools.map(tool => {
@@ -264,6 +293,36 @@ export async function convertAnthropicRequestToVSCodeRequest(
     })
   }
 
+  // 設定で選択されたVSCodeのツールを追加
+  const tools = withInjectedVSCodeTools(options.tools)
+  if (tools) {
+    options.tools = tools
+  }
+
+  // tool_choice変換（追加したツールにも適用するため、tools変換の後に行う）
+  if (
+    'tool_choice' in anthropicRequest &&
+    anthropicRequest.tool_choice !== undefined
+  ) {
+    const tc = anthropicRequest.tool_choice
+    let toolChoice: ToolChoice
+    switch (tc.type) {
+      case 'auto':
+        toolChoice = 'auto'
+        break
+      case 'any':
+        toolChoice = 'required'
+        break
+      case 'tool':
+        toolChoice = { name: tc.name }
+        break
+      case 'none':
+        toolChoice = 'none'
+        break
+    }
+    applyToolChoice(options, toolChoice)
+  }
+
   // --- その他パラメータはmodelOptionsに集約 ---
   const modelOptions: { [name: string]: any } = {}
   const modelOptionKeys = [
@@ -290,10 +349,8 @@ export async function convertAnthropicRequestToVSCodeRequest(
     }
   }
 
-  // max_tokensを変換
-  // max_tokensが1の場合は少し大きい数字に変換、それ以外の場合はそのまま使用
-  modelOptions.max_tokens =
-    anthropicRequest.max_tokens === 1 ? 16 : anthropicRequest.max_tokens
+  // max_tokensはプロキシ側でも出力を打ち切るため、そのまま渡す
+  modelOptions.max_tokens = anthropicRequest.max_tokens
 
   // modelOptionsが空でなければoptionsに追加
   if (Object.keys(modelOptions).length > 0) {
@@ -307,7 +364,33 @@ export async function convertAnthropicRequestToVSCodeRequest(
     inputTokens,
   })
 
-  return { messages, options, inputTokens }
+  return {
+    messages,
+    options,
+    inputTokens,
+    citations:
+      citationContext.documents.length > 0 ? citationContext : undefined,
+  }
+}
+
+/**
+ * Anthropicのimageブロックを画像のLanguageModelDataPartに変換する
+ * @param {ImageBlockParam} block imageブロック
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {vscode.LanguageModelDataPart}
+ */
+function convertAnthropicImageBlock(
+  block: ImageBlockParam,
+  vsCodeModel: vscode.LanguageModelChat,
+): vscode.LanguageModelDataPart {
+  if (block.source.type === 'base64') {
+    return createImageDataPart(
+      vsCodeModel,
+      block.source.media_type,
+      block.source.data,
+    )
+  }
+  return createImageDataPartFromURL(vsCodeModel, block.source.url)
 }
 
 /**
@@ -318,6 +401,12 @@ export async function convertAnthropicRequestToVSCodeRequest(
  * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
  * @param isStreaming ストリーミングかどうか
  * @param inputTokens 入力トークン数
+ * @param agentLoop エージェントループのコンテキスト（指定時はVSCodeのツールコールをサーバー側で実行）
+ * @param stopSequences 停止シーケンスのコンテキスト（指定時は一致した時点で出力を打ち切る）
+ * @param maxTokens 最大出力トークン数のコンテキスト（指定時は上限に達した時点で出力を打ち切る）
+ * @param disableParallelToolCalls 並列のツールコールを無効にするかどうか（最初のツールコールだけを返す）
+ * @param citations 引用のコンテキスト（指定時は引用元の付いたテキストをcitationsとして返す）
+ * @param thinking 思考過程をthinkingブロックとして返すかどうか
  * @returns Message または AsyncIterable<RawMessageStreamEvent>
  */
 export function convertVSCodeResponseToAnthropicResponse(
@@ -325,6 +414,12 @@ export function convertVSCodeResponseToAnthropicResponse(
   vsCodeModel: vscode.LanguageModelChat,
   isStreaming: boolean,
   inputTokens: number,
+  agentLoop?: AgentLoopContext,
+  stopSequences?: StopSequenceContext,
+  maxTokens?: MaxTokensContext,
+  disableParallelToolCalls?: boolean,
+  citations?: CitationContext,
+  thinking?: boolean,
 ): Promise<Message> | AsyncIterable<RawMessageStreamEvent> {
   if (isStreaming) {
     // ストリーミング: VSCode stream → Anthropic RawMessageStreamEvent列に変換
@@ -332,6 +427,12 @@ export function convertVSCodeResponseToAnthropicResponse(
       vscodeResponse.stream,
       vsCodeModel,
       inputTokens,
+      agentLoop,
+      stopSequences,
+      maxTokens,
+      disableParallelToolCalls,
+      citations,
+      thinking,
     )
   }
 
@@ -340,6 +441,12 @@ export function convertVSCodeResponseToAnthropicResponse(
     vscodeResponse,
     vsCodeModel,
     inputTokens,
+    agentLoop,
+    stopSequences,
+    maxTokens,
+    disableParallelToolCalls,
+    citations,
+    thinking,
   )
 }
 
@@ -351,6 +458,12 @@ export function convertVSCodeResponseToAnthropicResponse(
  * @param stream VSCodeのストリーム
  * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
  * @param inputTokens 入力トークン数
+ * @param agentLoop エージェントループのコンテキスト（指定時は実行したツールの途中経過をテキストとして送信）
+ * @param stopSequences 停止シーケンスのコンテキスト（指定時は一致した時点で送信を打ち切る）
+ * @param maxTokens 最大出力トークン数のコンテキスト（指定時は上限に達した時点で送信を打ち切る）
+ * @param disableParallelToolCalls 並列のツールコールを無効にするかどうか（最初のツールコールだけを送信）
+ * @param citations 引用のコンテキスト（指定時は引用元の付いたテキストをcitations_deltaとともに送信）
+ * @param thinking 思考過程をthinkingブロックとしてthinking_delta, signature_deltaで送信するかどうか
  * @returns Anthropic RawMessageStreamEventのAsyncIterable
  */
 async function* convertVSCodeStreamToAnthropicStream(
@@ -359,9 +472,16 @@ async function* convertVSCodeStreamToAnthropicStream(
   >,
   vsCodeModel: vscode.LanguageModelChat,
   inputTokens: number,
+  agentLoop?: AgentLoopContext,
+  stopSequences?: StopSequenceContext,
+  maxTokens?: MaxTokensContext,
+  disableParallelToolCalls?: boolean,
+  citations?: CitationContext,
+  thinking?: boolean,
 ): AsyncIterable<RawMessageStreamEvent> {
   const messageId = `msg_${generateRandomId()}`
   let stopReason: StopReason = 'end_turn'
+  let stopSequence: string | null = null
   let outputTokens = 0
 
   // --- message_startイベント送信 ---
@@ -387,35 +507,135 @@ async function* convertVSCodeStreamToAnthropicStream(
   }
 
   let contentIndex = 0
-  let isInsideTextBlock = false
+  // 開いているブロックの種類
+  let openBlock: 'text' | 'thinking' | undefined
+  // thinkingブロックの署名（ブロックを閉じる前にsignature_deltaで送信）
+  let thinkingSignature = ''
+
+  // 開いているブロックを閉じる
+  const closeOpenBlock = function* (): Generator<RawMessageStreamEvent> {
+    if (openBlock === 'thinking') {
+      yield {
+        type: 'content_block_delta',
+        index: contentIndex,
+        delta: { type: 'signature_delta', signature: thinkingSignature },
+      }
+      thinkingSignature = ''
+    }
+    if (openBlock) {
+      yield { type: 'content_block_stop', index: contentIndex }
+      openBlock = undefined
+      contentIndex++
+    }
+  }
+
+  // 並列のツールコールが無効な場合は最初のツールコールだけを残す
+  const toolCallParts = disableParallelToolCalls
+    ? keepFirstToolCall(stream)
+    : stream
+  // エージェントループ有効時はVSCodeのツールコールをサーバー側で実行
+  const loopParts = agentLoop
+    ? runAgentLoop(toolCallParts, vsCodeModel, agentLoop)
+    : toolCallParts
+  // 停止シーケンスが指定された場合は一致した時点で出力を打ち切る
+  const stoppedParts = stopSequences
+    ? applyStopSequences(loopParts, stopSequences)
+    : loopParts
+  // 最大出力トークン数が指定された場合は上限に達した時点で出力を打ち切る
+  const limitedParts = maxTokens
+    ? applyMaxTokens(stoppedParts, vsCodeModel, maxTokens)
+    : stoppedParts
+  // 引用が有効なドキュメントがある場合は引用のタグを引用元の付いたテキストに変換
+  const parts = citations
+    ? applyCitations(limitedParts, citations)
+    : limitedParts
 
   // --- ストリームを順次処理 ---
-  for await (const part of stream) {
-    if (isTextPart(part)) {
+  for await (const part of parts) {
+    if (isTextPart(part) || isAgentToolStep(part)) {
+      // サーバー側で実行したツールの途中経過はテキストとして送信
+      const text = isTextPart(part) ? part.value : formatAgentToolStep(part)
+
       // テキストブロック開始
-      if (!isInsideTextBlock) {
+      if (openBlock !== 'text') {
+        yield* closeOpenBlock()
         yield {
           type: 'content_block_start',
           index: contentIndex,
           content_block: { type: 'text', text: '', citations: [] },
         }
-        isInsideTextBlock = true
+        openBlock = 'text'
       }
       // テキスト差分を送信
       yield {
         type: 'content_block_delta',
         index: contentIndex,
-        delta: { type: 'text_delta', text: part.value },
+        delta: { type: 'text_delta', text },
       }
       // 出力トークン数を加算
-      outputTokens += await vsCodeModel.countTokens(part.value)
-    } else if (isToolCallPart(part)) {
-      // テキストブロック終了
-      if (isInsideTextBlock) {
-        yield { type: 'content_block_stop', index: contentIndex }
-        isInsideTextBlock = false
-        contentIndex++
+      outputTokens += await vsCodeModel.countTokens(text)
+    } else if (isThinkingPart(part)) {
+      // thinkingが無効な場合は思考過程を送信しない
+      if (!thinking) {
+        continue
+      }
+      const text = getThinkingText(part)
+
+      // thinkingブロック開始
+      if (openBlock !== 'thinking') {
+        yield* closeOpenBlock()
+        yield {
+          type: 'content_block_start',
+          index: contentIndex,
+          content_block: { type: 'thinking', thinking: '', signature: '' },
+        }
+        openBlock = 'thinking'
+      }
+      thinkingSignature = getThinkingSignature(part) ?? thinkingSignature
+      // 思考過程の差分を送信
+      if (text) {
+        yield {
+          type: 'content_block_delta',
+          index: contentIndex,
+          delta: { type: 'thinking_delta', thinking: text },
+        }
       }
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(text)
+    } else if (isCitedText(part)) {
+      // 引用元の付いたテキストは独立したテキストブロックとして送信
+      yield* closeOpenBlock()
+      yield {
+        type: 'content_block_start',
+        index: contentIndex,
+        content_block: { type: 'text', text: '', citations: [] },
+      }
+      for (const citation of part.citations) {
+        yield {
+          type: 'content_block_delta',
+          index: contentIndex,
+          delta: { type: 'citations_delta', citation },
+        }
+      }
+      yield {
+        type: 'content_block_delta',
+        index: contentIndex,
+        delta: { type: 'text_delta', text: part.text },
+      }
+      yield { type: 'content_block_stop', index: contentIndex }
+      contentIndex++
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.text)
+    } else if (isStopSequenceMatch(part)) {
+      // 停止シーケンスに一致した場合はstopReasonを変更
+      stopReason = 'stop_sequence'
+      stopSequence = part.stopSequence
+    } else if (isMaxTokensReached(part)) {
+      // 最大出力トークン数に達した場合はstopReasonを変更
+      stopReason = 'max_tokens'
+    } else if (isToolCallPart(part)) {
+      // テキストブロック・thinkingブロック終了
+      yield* closeOpenBlock()
       // ツールコール時はstopReasonを変更
       stopReason = 'tool_use'
 
@@ -450,18 +670,15 @@ async function* convertVSCodeStreamToAnthropicStream(
     }
   }
 
-  // --- 最後のテキストブロックが未終了なら閉じる ---
-  if (isInsideTextBlock) {
-    yield { type: 'content_block_stop', index: contentIndex }
-    contentIndex++
-  }
+  // --- 最後のブロックが未終了なら閉じる ---
+  yield* closeOpenBlock()
 
   // --- message_deltaイベント送信 ---
   yield {
     type: 'message_delta',
     delta: {
       stop_reason: stopReason,
-      stop_sequence: null,
+      stop_sequence: stopSequence,
     },
     usage: {
       input_tokens: inputTokens,
@@ -484,28 +701,106 @@ async function* convertVSCodeStreamToAnthropicStream(
  * @param vscodeResponse VSCodeのLanguageModelChatResponse
  * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
  * @param inputTokens 入力トークン数
+ * @param agentLoop エージェントループのコンテキスト（指定時は実行したツールの途中経過をテキストに含める）
+ * @param stopSequences 停止シーケンスのコンテキスト（指定時は一致した時点で出力を打ち切る）
+ * @param maxTokens 最大出力トークン数のコンテキスト（指定時は上限に達した時点で出力を打ち切る）
+ * @param disableParallelToolCalls 並列のツールコールを無効にするかどうか（最初のツールコールだけを返す）
+ * @param citations 引用のコンテキスト（指定時は引用元の付いたテキストをcitationsとして返す）
+ * @param thinking 思考過程をthinkingブロックとして返すかどうか
  * @returns Anthropic Message
  */
 async function convertVSCodeTextToAnthropicMessage(
   vscodeResponse: vscode.LanguageModelChatResponse,
   vsCodeModel: vscode.LanguageModelChat,
   inputTokens: number,
+  agentLoop?: AgentLoopContext,
+  stopSequences?: StopSequenceContext,
+  maxTokens?: MaxTokensContext,
+  disableParallelToolCalls?: boolean,
+  citations?: CitationContext,
+  thinking?: boolean,
 ): Promise<Message> {
   const id = `msg_${generateRandomId()}`
 
   const content: ContentBlock[] = []
   let textBuffer = ''
   let isToolCalled = false
+  let stopSequence: string | null = null
+  let isTruncated = false
   let outputTokens = 0
 
+  // 並列のツールコールが無効な場合は最初のツールコールだけを残す
+  const toolCallParts = disableParallelToolCalls
+    ? keepFirstToolCall(vscodeResponse.stream)
+    : vscodeResponse.stream
+  // エージェントループ有効時はVSCodeのツールコールをサーバー側で実行
+  const loopParts = agentLoop
+    ? runAgentLoop(toolCallParts, vsCodeModel, agentLoop)
+    : toolCallParts
+  // 停止シーケンスが指定された場合は一致した時点で出力を打ち切る
+  const stoppedParts = stopSequences
+    ? applyStopSequences(loopParts, stopSequences)
+    : loopParts
+  // 最大出力トークン数が指定された場合は上限に達した時点で出力を打ち切る
+  const limitedParts = maxTokens
+    ? applyMaxTokens(stoppedParts, vsCodeModel, maxTokens)
+    : stoppedParts
+  // 引用が有効なドキュメントがある場合は引用のタグを引用元の付いたテキストに変換
+  const parts = citations
+    ? applyCitations(limitedParts, citations)
+    : limitedParts
+
   // --- ストリームを順次処理 ---
-  for await (const part of vscodeResponse.stream) {
-    if (isTextPart(part)) {
-      // テキストはバッファに連結
-      textBuffer += part.value
+  for await (const part of parts) {
+    if (isTextPart(part) || isAgentToolStep(part)) {
+      // テキスト（ツールの途中経過を含む）はバッファに連結
+      const text = isTextPart(part) ? part.value : formatAgentToolStep(part)
+      textBuffer += text
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(text)
+    } else if (isThinkingPart(part)) {
+      // thinkingが無効な場合は思考過程を返さない
+      if (!thinking) {
+        continue
+      }
+      const text = getThinkingText(part)
+      if (textBuffer) {
+        content.push({ type: 'text', text: textBuffer, citations: [] })
+        textBuffer = ''
+      }
+
+      // 連続する思考過程は1つのthinkingブロックにまとめる
+      const last = content[content.length - 1]
+      if (last?.type === 'thinking') {
+        last.thinking += text
+        last.signature = getThinkingSignature(part) ?? last.signature
+      } else {
+        content.push({
+          type: 'thinking',
+          thinking: text,
+          signature: getThinkingSignature(part) ?? '',
+        })
+      }
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(text)
+    } else if (isCitedText(part)) {
+      // 引用元の付いたテキストは独立したtextブロックとして追加
+      if (textBuffer) {
+        content.push({ type: 'text', text: textBuffer, citations: [] })
+        textBuffer = ''
+      }
+      content.push({ type: 'text', text: part.text, citations: part.citations })
 
       // 出力トークン数を加算
-      outputTokens += await vsCodeModel.countTokens(part.value)
+      outputTokens += await vsCodeModel.countTokens(part.text)
+    } else if (isStopSequenceMatch(part)) {
+      // 一致した停止シーケンスを記録
+      stopSequence = part.stopSequence
+    } else if (isMaxTokensReached(part)) {
+      // 最大出力トークン数で打ち切ったことを記録
+      isTruncated = true
     } else if (isToolCallPart(part)) {
       if (textBuffer) {
         // テキストバッファがあればtextブロックとして追加
@@ -546,8 +841,14 @@ async function convertVSCodeTextToAnthropicMessage(
     role: 'assistant',
     content,
     model: vsCodeModel.id,
-    stop_reason: isToolCalled ? 'tool_use' : 'end_turn',
-    stop_sequence: null,
+    stop_reason: isTruncated
+      ? 'max_tokens'
+      : isToolCalled
+        ? 'tool_use'
+        : stopSequence !== null
+          ? 'stop_sequence'
+          : 'end_turn',
+    stop_sequence: stopSequence,
     usage: {
       input_tokens: inputTokens,
       output_tokens: outputTokens,
@@ -0,0 +1,127 @@
+import type { ChatCompletion, ChatCompletionChunk } from 'openai/resources'
+
+/**
+ * Azure OpenAIのコンテンツフィルター結果（カテゴリごと）
+ */
+type AzureContentFilterResult = {
+  filtered: boolean
+  severity: 'safe' | 'low' | 'medium' | 'high'
+}
+
+/**
+ * Azure OpenAIのコンテンツフィルター結果
+ */
+type AzureContentFilterResults = {
+  hate: AzureContentFilterResult
+  self_harm: AzureContentFilterResult
+  sexual: AzureContentFilterResult
+  violence: AzureContentFilterResult
+}
+
+/**
+ * Azure OpenAIのプロンプトに対するフィルター結果
+ */
+type AzurePromptFilterResult = {
+  prompt_index: number
+  content_filter_results: AzureContentFilterResults
+}
+
+/**
+ * Azure OpenAI形式のChatCompletion
+ */
+export type AzureChatCompletion = ChatCompletion & {
+  prompt_filter_results: AzurePromptFilterResult[]
+  choices: Array<
+    ChatCompletion.Choice & {
+      content_filter_results: AzureContentFilterResults
+    }
+  >
+}
+
+/**
+ * Azure OpenAI形式のChatCompletionChunk
+ */
+export type AzureChatCompletionChunk = ChatCompletionChunk & {
+  prompt_filter_results?: AzurePromptFilterResult[]
+}
+
+/**
+ * すべてのカテゴリがフィルターされていない（safe）結果を生成します。
+ * VSCode LM APIはフィルター結果を返さないため、常にsafeとして扱います。
+ * @returns {AzureContentFilterResults}
+ */
+function createSafeContentFilterResults(): AzureContentFilterResults {
+  const safe: AzureContentFilterResult = { filtered: false, severity: 'safe' }
+  return {
+    hate: { ...safe },
+    self_harm: { ...safe },
+    sexual: { ...safe },
+    violence: { ...safe },
+  }
+}
+
+/**
+ * OpenAI形式のChatCompletionにAzure OpenAI固有のフィールドを付与します。
+ * - prompt_filter_results: プロンプトのフィルター結果
+ * - choices[].content_filter_results: 出力のフィルター結果
+ * @param {ChatCompletion} completion OpenAI形式のChatCompletion
+ * @returns {AzureChatCompletion}
+ */
+export function convertOpenAIResponseToAzureResponse(
+  completion: ChatCompletion,
+): AzureChatCompletion {
+  return {
+    ...completion,
+    prompt_filter_results: [
+      {
+        prompt_index: 0,
+        content_filter_results: createSafeContentFilterResults(),
+      },
+    ],
+    choices: completion.choices.map(choice => ({
+      ...choice,
+      content_filter_results: createSafeContentFilterResults(),
+    })),
+  }
+}
+
+/**
+ * OpenAI形式のChatCompletionChunkのストリームをAzure OpenAI形式に変換します。
+ * Azure OpenAIと同様に、最初にprompt_filter_resultsのみを含むチャンク（choicesは空）を送信し、
+ * 以降のチャンクのchoicesにはcontent_filter_resultsを付与します。
+ * @param {AsyncIterable<ChatCompletionChunk>} stream OpenAI形式のチャンクのストリーム
+ * @returns {AsyncIterable<AzureChatCompletionChunk>}
+ */
+export async function* convertOpenAIChunksToAzureChunks(
+  stream: AsyncIterable<ChatCompletionChunk>,
+): AsyncIterable<AzureChatCompletionChunk> {
+  let isFirstChunk = true
+
+  for await (const chunk of stream) {
+    // 最初のチャンクの前にプロンプトのフィルター結果を送信
+    if (isFirstChunk) {
+      yield {
+        id: '',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model: '',
+        choices: [],
+        prompt_filter_results: [
+          {
+            prompt_index: 0,
+            content_filter_results: createSafeContentFilterResults(),
+          },
+        ],
+      }
+      isFirstChunk = false
+    }
+
+    yield {
+      ...chunk,
+      choices: chunk.choices.map(choice => ({
+        ...choice,
+        content_filter_results: createSafeContentFilterResults(),
+      })),
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode'
+
+// LM APIに画像として渡せるMIMEタイプ
+const IMAGE_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/bmp',
+]
+
+/**
+ * LanguageModelChatMessageのcontentに指定できるパート
+ * 型定義上はLanguageModelDataPartやLanguageModelThinkingPartを受け付けないため、メッセージ生成時にキャストして渡す
+ */
+export type LanguageModelChatMessagePart =
+  | vscode.LanguageModelTextPart
+  | vscode.LanguageModelToolResultPart
+  | vscode.LanguageModelToolCallPart
+  | vscode.LanguageModelDataPart
+  | vscode.LanguageModelThinkingPart
+
+/**
+ * 画像入力のバリデーションエラーを生成する
+ * @param {string} message エラーメッセージ
+ * @returns {vscode.LanguageModelError}
+ */
+function createImageInputError(message: string): vscode.LanguageModelError {
+  return {
+    ...new Error(message),
+    message,
+    name: 'InvalidMessageFormat',
+    code: 'invalid_request_error',
+  }
+}
+
+/**
+ * data URL（data:<mimeType>;base64,<data>）をMIMEタイプとBase64データに分解する
+ * data URLでない場合はundefinedを返す
+ * @param {string} url URL
+ * @returns {{ mimeType: string, data: string } | undefined}
+ */
+export function parseDataURL(
+  url: string,
+): { mimeType: string; data: string } | undefined {
+  const match = url.match(/^data:([^;,]+)(?:;[^;,]+)*;base64,(.*)$/s)
+  if (!match) {
+    return undefined
+  }
+  return { mimeType: match[1].toLowerCase(), data: match[2] }
+}
+
+/**
+ * モデルが画像入力に対応しているかどうかを判定する
+ * 対応機能を取得できない場合（提案段階のAPIが無効な場合など）はundefinedを返す
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {boolean | undefined}
+ */
+function supportsImageInput(
+  vsCodeModel: vscode.LanguageModelChat,
+): boolean | undefined {
+  try {
+    return vsCodeModel.capabilities?.supportsImageToText
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Base64エンコードされた画像をLanguageModelDataPartに変換する
+ * - モデルが画像入力に対応していない場合
+ * - VSCodeがLanguageModelDataPartに対応していない場合
+ * - 対応していないMIMEタイプの場合
+ * はInvalidMessageFormatエラーをスローする
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param {string} mimeType 画像のMIMEタイプ
+ * @param {string} data Base64エンコードされた画像データ
+ * @returns {vscode.LanguageModelDataPart}
+ */
+export function createImageDataPart(
+  vsCodeModel: vscode.LanguageModelChat,
+  mimeType: string,
+  data: string,
+): vscode.LanguageModelDataPart {
+  if (supportsImageInput(vsCodeModel) === false) {
+    throw createImageInputError(
+      `Model ${vsCodeModel.id} does not support image input`,
+    )
+  }
+  if (!('LanguageModelDataPart' in vscode)) {
+    throw createImageInputError(
+      'Image input is not supported by this version of VSCode',
+    )
+  }
+  if (!IMAGE_MIME_TYPES.includes(mimeType)) {
+    throw createImageInputError(
+      `Unsupported image type ${mimeType}. Supported types are ${IMAGE_MIME_TYPES.join(', ')}`,
+    )
+  }
+
+  return vscode.LanguageModelDataPart.image(
+    new Uint8Array(Buffer.from(data, 'base64')),
+    mimeType,
+  )
+}
+
+/**
+ * 画像のURLをLanguageModelDataPartに変換する
+ * LM APIは外部URLを扱えないため、data URLのみ対応する
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param {string} url 画像のURL
+ * @returns {vscode.LanguageModelDataPart}
+ */
+export function createImageDataPartFromURL(
+  vsCodeModel: vscode.LanguageModelChat,
+  url: string,
+): vscode.LanguageModelDataPart {
+  const dataURL = parseDataURL(url)
+  if (!dataURL) {
+    throw createImageInputError(
+      'Only base64 data URLs are supported for image input',
+    )
+  }
+  return createImageDataPart(vsCodeModel, dataURL.mimeType, dataURL.data)
+}
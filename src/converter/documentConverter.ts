@@ -0,0 +1,554 @@
+import type {
+  DocumentBlockParam,
+  TextCitation,
+} from '@anthropic-ai/sdk/resources'
+import type { ChatCompletionContentPart } from 'openai/resources'
+import * as vscode from 'vscode'
+import { fileManager } from '../files/manager'
+import { isTextPart } from '../server/handler'
+import { logger } from '../utils/logger'
+import { extractPDFText } from '../utils/pdf'
+import {
+  createImageDataPart,
+  createImageDataPartFromURL,
+  type LanguageModelChatMessagePart,
+  parseDataURL,
+} from './dataPartConverter'
+
+/**
+ * ドキュメントの引用可能な範囲（テキストは文、PDFはページ、contentドキュメントはブロック）
+ */
+interface DocumentPassage {
+  text: string
+  // 文の場合は文字位置、ページの場合はページ番号、ブロックの場合はブロック番号
+  start: number
+  end: number
+}
+
+/**
+ * 引用が有効なドキュメント
+ */
+interface CitableDocument {
+  index: number
+  title: string | null
+  citationType: 'char_location' | 'page_location' | 'content_block_location'
+  passages: DocumentPassage[]
+}
+
+/**
+ * ドキュメントの引用に必要なリクエストの情報
+ */
+export interface CitationContext {
+  // リクエスト内のドキュメントの数（document_indexの採番に使用）
+  documentCount: number
+  documents: CitableDocument[]
+}
+
+/**
+ * 引用元が付いたテキストを示すパート
+ */
+export interface CitedText {
+  type: 'cited_text'
+  text: string
+  citations: TextCitation[]
+}
+
+/**
+ * ドキュメントから抽出した内容
+ */
+type ExtractedDocument =
+  | { type: 'pdf'; pages: string[] }
+  | { type: 'text'; text: string }
+  | { type: 'content'; blocks: (string | LanguageModelChatMessagePart)[] }
+
+// 引用元の指定に使用するタグ（例: <cite citation="0-1,0-2">...</cite>）
+const CITE_OPEN_PATTERN = /<cite\s+citation="([^"]*)"\s*>/
+const CITE_CLOSE_TAG = '</cite>'
+
+/**
+ * ドキュメントの読み取りエラーを生成する
+ * @param {string} message エラーメッセージ
+ * @returns {vscode.LanguageModelError}
+ */
+function createDocumentError(message: string): vscode.LanguageModelError {
+  return {
+    ...new Error(message),
+    message,
+    name: 'InvalidMessageFormat',
+    code: 'invalid_request_error',
+  }
+}
+
+/**
+ * 引用のコンテキストを生成する
+ * @returns {CitationContext}
+ */
+export function createCitationContext(): CitationContext {
+  return { documentCount: 0, documents: [] }
+}
+
+/**
+ * 引用元の指定方法をモデルに指示するプロンプトを返す
+ * @returns {string}
+ */
+export function getCitationInstruction(): string {
+  return [
+    'Some documents are split into passages with a citation attribute (for example citation="0-1").',
+    'When a sentence of your answer is based on these passages, wrap it in <cite citation="IDS">...</cite>, where IDS is a comma-separated list of the citation attributes of the passages it is based on.',
+    'Only use citation attributes that appear in the documents, and do not nest cite tags.',
+  ].join('\n')
+}
+
+/**
+ * PDFのバイト列からページごとのテキストを抽出する
+ * @param {Buffer} data PDFのバイト列
+ * @returns {ExtractedDocument}
+ * @throws PDFを読み取れない場合
+ */
+function extractPDFDocument(data: Buffer): ExtractedDocument {
+  try {
+    return { type: 'pdf', pages: extractPDFText(data) }
+  } catch (error) {
+    throw createDocumentError(
+      `Could not read the PDF document: ${(error as Error).message}`,
+    )
+  }
+}
+
+/**
+ * テキストを文単位の引用範囲に分割する
+ * 分割した範囲を連結すると元のテキストになる
+ * @param {string} text テキスト
+ * @returns {DocumentPassage[]}
+ */
+function splitSentences(text: string): DocumentPassage[] {
+  const passages: DocumentPassage[] = []
+  const pattern = /[^.!?。！？\n]*(?:[.!?。！？]+["')\]」』）]*|\n+|$)\s*/g
+  for (
+    let match = pattern.exec(text);
+    match && match[0].length > 0;
+    match = pattern.exec(text)
+  ) {
+    const last = passages[passages.length - 1]
+    // 空白だけの範囲は直前の文に含める
+    if (last && match[0].trim() === '') {
+      last.text += match[0]
+      last.end += match[0].length
+      continue
+    }
+    passages.push({
+      text: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+    })
+  }
+  return passages
+}
+
+/**
+ * 抽出したドキュメントをモデルに渡すパートに変換する
+ * 引用が有効な場合は引用範囲ごとにcitation属性を付け、引用のコンテキストに登録する
+ * @param {ExtractedDocument} extracted 抽出したドキュメント
+ * @param {{ title?: string | null, context?: string | null, citations: boolean }} metadata ドキュメントの情報
+ * @param {CitationContext} citationContext 引用のコンテキスト
+ * @returns {LanguageModelChatMessagePart[]}
+ */
+function formatDocument(
+  extracted: ExtractedDocument,
+  metadata: {
+    title?: string | null
+    context?: string | null
+    citations: boolean
+  },
+  citationContext: CitationContext,
+): LanguageModelChatMessagePart[] {
+  const index = citationContext.documentCount++
+  const title = metadata.title ?? null
+  const passages: DocumentPassage[] = []
+  const images: LanguageModelChatMessagePart[] = []
+  const citation = () =>
+    metadata.citations ? ` citation="${index}-${passages.length - 1}"` : ''
+
+  const lines = [
+    `<document index="${index}"${title ? ` title="${title}"` : ''}>`,
+  ]
+  if (metadata.context) {
+    lines.push(`<context>${metadata.context}</context>`)
+  }
+
+  switch (extracted.type) {
+    case 'pdf':
+      for (const [pageIndex, page] of extracted.pages.entries()) {
+        passages.push({ text: page, start: pageIndex + 1, end: pageIndex + 2 })
+        lines.push(
+          `<page number="${pageIndex + 1}"${citation()}>`,
+          page,
+          '</page>',
+        )
+      }
+      break
+    case 'text':
+      if (!metadata.citations) {
+        lines.push(extracted.text)
+        break
+      }
+      for (const sentence of splitSentences(extracted.text)) {
+        passages.push(sentence)
+        lines.push(`<passage${citation()}>${sentence.text.trim()}</passage>`)
+      }
+      break
+    case 'content':
+      for (const [blockIndex, block] of extracted.blocks.entries()) {
+        if (typeof block !== 'string') {
+          images.push(block)
+          continue
+        }
+        passages.push({ text: block, start: blockIndex, end: blockIndex + 1 })
+        lines.push(`<block index="${blockIndex}"${citation()}>${block}</block>`)
+      }
+      break
+  }
+  lines.push('</document>')
+
+  if (metadata.citations) {
+    citationContext.documents.push({
+      index,
+      title,
+      citationType:
+        extracted.type === 'pdf'
+          ? 'page_location'
+          : extracted.type === 'text'
+            ? 'char_location'
+            : 'content_block_location',
+      passages,
+    })
+  }
+
+  return [new vscode.LanguageModelTextPart(lines.join('\n')), ...images]
+}
+
+/**
+ * Anthropicのdocumentブロックからテキストを抽出し、モデルに渡すパートに変換する
+ * - base64のPDFはページごとのテキストを抽出
+ * - プレーンテキストはそのまま使用
+ * - contentドキュメントはブロックごとに使用（画像は画像のパートとして渡す）
+ * @param {DocumentBlockParam} block documentブロック
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param {CitationContext} citationContext 引用のコンテキスト
+ * @returns {LanguageModelChatMessagePart[]}
+ * @throws ドキュメントを読み取れない場合
+ */
+export function convertAnthropicDocumentBlock(
+  block: DocumentBlockParam,
+  vsCodeModel: vscode.LanguageModelChat,
+  citationContext: CitationContext,
+): LanguageModelChatMessagePart[] {
+  let extracted: ExtractedDocument
+  switch (block.source.type) {
+    case 'base64':
+      extracted = extractPDFDocument(Buffer.from(block.source.data, 'base64'))
+      break
+    case 'text':
+      extracted = { type: 'text', text: block.source.data }
+      break
+    case 'content': {
+      const content = block.source.content
+      extracted = {
+        type: 'content',
+        blocks:
+          typeof content === 'string'
+            ? [content]
+            : content.map(c =>
+                c.type === 'text'
+                  ? c.text
+                  : c.source.type === 'base64'
+                    ? createImageDataPart(
+                        vsCodeModel,
+                        c.source.media_type,
+                        c.source.data,
+                      )
+                    : createImageDataPartFromURL(vsCodeModel, c.source.url),
+              ),
+      }
+      break
+    }
+    default:
+      throw createDocumentError(
+        'Only base64 PDF, plain text and content documents are supported',
+      )
+  }
+
+  return formatDocument(
+    extracted,
+    {
+      title: block.title,
+      context: block.context,
+      citations: block.citations?.enabled === true,
+    },
+    citationContext,
+  )
+}
+
+/**
+ * OpenAIのfileパートで参照されているアップロード済みファイルを読み込む
+ * @param {ChatCompletionContentPart.File[]} fileParts fileパート
+ * @returns {Promise<Map<string, { filename: string, content: Buffer }>>} ファイルIDとファイルの対応
+ * @throws ファイルが存在しない場合
+ */
+export async function loadOpenAIFiles(
+  fileParts: ChatCompletionContentPart.File[],
+): Promise<Map<string, { filename: string; content: Buffer }>> {
+  const files = new Map<string, { filename: string; content: Buffer }>()
+  for (const { file } of fileParts) {
+    if (!file.file_id || files.has(file.file_id)) {
+      continue
+    }
+    const storedFile = await fileManager.getFile(file.file_id)
+    const content = await fileManager.getFileContent(file.file_id)
+    if (!storedFile || !content) {
+      throw createDocumentError(`No such file: ${file.file_id}`)
+    }
+    files.set(file.file_id, { filename: storedFile.filename, content })
+  }
+  return files
+}
+
+/**
+ * OpenAIのfileパートからテキストを抽出し、モデルに渡すパートに変換する
+ * - PDFはページごとのテキストを抽出
+ * - 画像は画像のパートとして渡す
+ * - それ以外はUTF-8のテキストとして扱う
+ * @param {ChatCompletionContentPart.File['file']} file fileパートのファイル
+ * @param {Map<string, { filename: string, content: Buffer }>} files loadOpenAIFilesで読み込んだファイル
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param {CitationContext} citationContext 引用のコンテキスト（document_indexの採番に使用）
+ * @returns {LanguageModelChatMessagePart[]}
+ * @throws ファイルを読み取れない場合
+ */
+export function convertOpenAIFilePart(
+  file: ChatCompletionContentPart.File['file'],
+  files: Map<string, { filename: string; content: Buffer }>,
+  vsCodeModel: vscode.LanguageModelChat,
+  citationContext: CitationContext,
+): LanguageModelChatMessagePart[] {
+  let filename = file.filename
+  let mimeType: string | undefined
+  let content: Buffer
+  if (file.file_data) {
+    // file_dataはdata URLまたはBase64文字列
+    const dataURL = parseDataURL(file.file_data)
+    mimeType = dataURL?.mimeType
+    content = Buffer.from(dataURL?.data ?? file.file_data, 'base64')
+  } else if (file.file_id && files.has(file.file_id)) {
+    const storedFile = files.get(file.file_id) as {
+      filename: string
+      content: Buffer
+    }
+    filename ??= storedFile.filename
+    content = storedFile.content
+  } else {
+    throw createDocumentError('Either file_data or file_id must be specified')
+  }
+
+  if (mimeType?.startsWith('image/')) {
+    return [
+      createImageDataPart(vsCodeModel, mimeType, content.toString('base64')),
+    ]
+  }
+
+  const isPDF =
+    mimeType === 'application/pdf' ||
+    content.subarray(0, 5).toString('latin1') === '%PDF-'
+  logger.debug('Converting file part', { filename, mimeType, isPDF })
+
+  return formatDocument(
+    isPDF
+      ? extractPDFDocument(content)
+      : { type: 'text', text: content.toString('utf8') },
+    { title: filename, citations: false },
+    citationContext,
+  )
+}
+
+/**
+ * CitedText型ガード
+ * @param part 判定対象
+ * @returns {boolean}
+ */
+export function isCitedText(part: unknown): part is CitedText {
+  return (
+    typeof part === 'object' &&
+    part !== null &&
+    (part as CitedText).type === 'cited_text'
+  )
+}
+
+/**
+ * citation属性（カンマ区切り）を引用に変換する
+ * 同じドキュメントの連続した範囲は1つの引用にまとめる
+ * @param {string} ids citation属性
+ * @param {CitationContext} context 引用のコンテキスト
+ * @returns {TextCitation[]}
+ */
+function resolveCitations(
+  ids: string,
+  context: CitationContext,
+): TextCitation[] {
+  const ranges: {
+    document: CitableDocument
+    first: number
+    last: number
+  }[] = []
+  for (const id of ids.split(',')) {
+    const match = id.trim().match(/^(\d+)-(\d+)$/)
+    const document = context.documents.find(
+      document => document.index === Number(match?.[1]),
+    )
+    const passageIndex = Number(match?.[2])
+    if (!match || !document || !document.passages[passageIndex]) {
+      logger.debug('Ignored unknown citation', { id })
+      continue
+    }
+    const last = ranges[ranges.length - 1]
+    if (last?.document === document && last.last + 1 === passageIndex) {
+      last.last = passageIndex
+    } else {
+      ranges.push({ document, first: passageIndex, last: passageIndex })
+    }
+  }
+
+  return ranges.map(({ document, first, last }) => {
+    const passages = document.passages.slice(first, last + 1)
+    const base = {
+      cited_text: passages.map(passage => passage.text).join(''),
+      document_index: document.index,
+      document_title: document.title,
+    }
+    const start = passages[0].start
+    const end = passages[passages.length - 1].end
+    switch (document.citationType) {
+      case 'char_location':
+        return {
+          ...base,
+          type: 'char_location',
+          start_char_index: start,
+          end_char_index: end,
+        }
+      case 'page_location':
+        return {
+          ...base,
+          type: 'page_location',
+          start_page_number: start,
+          end_page_number: end,
+        }
+      case 'content_block_location':
+        return {
+          ...base,
+          type: 'content_block_location',
+          start_block_index: start,
+          end_block_index: end,
+        }
+    }
+  })
+}
+
+/**
+ * テキストの末尾が引用の開始タグの一部である可能性がある長さを返す
+ * @param {string} text テキスト
+ * @returns {number}
+ */
+function getPartialTagLength(text: string): number {
+  const index = text.lastIndexOf('<')
+  if (index === -1) {
+    return 0
+  }
+  const tail = text.slice(index)
+  const isPartialTag =
+    !tail.includes('>') &&
+    (tail.startsWith('<cite') || '<cite'.startsWith(tail))
+  return isPartialTag ? tail.length : 0
+}
+
+/**
+ * LM APIのレスポンスのストリームから引用のタグを取り除き、引用元の付いたテキストに変換する
+ * - <cite citation="...">...</cite>で囲まれたテキストはCitedTextとして出力
+ * - チャンクをまたいで一致する可能性があるタグの先頭は次のチャンクまで保留
+ * @param {AsyncIterable<unknown>} stream レスポンスのストリーム
+ * @param {CitationContext} context 引用のコンテキスト
+ * @returns {AsyncIterable<vscode.LanguageModelTextPart | CitedText | unknown>}
+ */
+export async function* applyCitations(
+  stream: AsyncIterable<unknown>,
+  context: CitationContext,
+): AsyncIterable<vscode.LanguageModelTextPart | CitedText | unknown> {
+  // タグの判定のために保留しているテキスト
+  let pending = ''
+  // 引用のタグの内側にいる場合はそのcitation属性
+  let citationIds: string | undefined
+
+  // 引用のタグの内側のテキストを出力用のパートに変換する
+  const toCitedPart = (text: string, ids: string) => {
+    const citations = resolveCitations(ids, context)
+    return citations.length > 0
+      ? { type: 'cited_text', text, citations }
+      : new vscode.LanguageModelTextPart(text)
+  }
+
+  for await (const part of stream) {
+    if (!isTextPart(part)) {
+      // テキスト以外のパートの前に保留中のテキストを出力
+      if (pending) {
+        yield citationIds === undefined
+          ? new vscode.LanguageModelTextPart(pending)
+          : toCitedPart(pending, citationIds)
+        pending = ''
+      }
+      yield part
+      continue
+    }
+
+    pending += part.value
+    for (;;) {
+      if (citationIds === undefined) {
+        const match = pending.match(CITE_OPEN_PATTERN)
+        if (match?.index !== undefined) {
+          if (match.index > 0) {
+            yield new vscode.LanguageModelTextPart(
+              pending.slice(0, match.index),
+            )
+          }
+          citationIds = match[1]
+          pending = pending.slice(match.index + match[0].length)
+          continue
+        }
+
+        // タグの先頭と一致する可能性がある末尾を除いて出力
+        const holdLength = getPartialTagLength(pending)
+        if (pending.length > holdLength) {
+          yield new vscode.LanguageModelTextPart(
+            pending.slice(0, pending.length - holdLength),
+          )
+          pending = pending.slice(pending.length - holdLength)
+        }
+        break
+      }
+
+      // 引用のタグの内側は終了タグまでまとめて出力
+      const index = pending.indexOf(CITE_CLOSE_TAG)
+      if (index === -1) {
+        break
+      }
+      if (index > 0) {
+        yield toCitedPart(pending.slice(0, index), citationIds)
+      }
+      citationIds = undefined
+      pending = pending.slice(index + CITE_CLOSE_TAG.length)
+    }
+  }
+
+  if (pending) {
+    yield citationIds === undefined
+      ? new vscode.LanguageModelTextPart(pending)
+      : toCitedPart(pending, citationIds)
+  }
+}
@@ -0,0 +1,498 @@
+import * as vscode from 'vscode'
+import { isTextPart, isToolCallPart } from '../server/handler'
+import { generateRandomId } from '../utils'
+import { logger } from '../utils/logger'
+import {
+  applySystemPromptStrategy,
+  createSystemPrompt,
+  type SystemPrompt,
+} from './systemPromptConverter'
+import { applyToolChoice, type ToolChoice } from './toolChoiceConverter'
+
+/**
+ * Gemini REST APIのPart（contents[].parts[]の要素）
+ */
+export interface GeminiPart {
+  text?: string
+  thought?: boolean
+  inlineData?: { mimeType: string; data: string }
+  fileData?: { mimeType?: string; fileUri: string }
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> }
+  functionResponse?: {
+    id?: string
+    name: string
+    response: Record<string, unknown>
+  }
+}
+
+/**
+ * Gemini REST APIのContent
+ */
+export interface GeminiContent {
+  role?: 'user' | 'model' | 'function'
+  parts: GeminiPart[]
+}
+
+/**
+ * Gemini REST APIのFunctionDeclaration
+ */
+export interface GeminiFunctionDeclaration {
+  name: string
+  description?: string
+  parameters?: Record<string, unknown>
+  parametersJsonSchema?: Record<string, unknown>
+}
+
+/**
+ * Gemini REST APIのgenerateContent / streamGenerateContentリクエストボディ
+ */
+export interface GeminiGenerateContentRequest {
+  contents: GeminiContent[]
+  systemInstruction?: GeminiContent | string
+  tools?: Array<{ functionDeclarations?: GeminiFunctionDeclaration[] }>
+  toolConfig?: {
+    functionCallingConfig?: {
+      mode?: 'AUTO' | 'ANY' | 'NONE' | 'MODE_UNSPECIFIED'
+      allowedFunctionNames?: string[]
+    }
+  }
+  generationConfig?: Record<string, unknown>
+  safetySettings?: Array<Record<string, unknown>>
+  cachedContent?: string
+}
+
+/**
+ * Gemini REST APIのFinishReason
+ */
+export type GeminiFinishReason = 'STOP' | 'MAX_TOKENS' | 'SAFETY' | 'OTHER'
+
+/**
+ * Gemini REST APIのgenerateContentレスポンス（ストリーミング時は各チャンク）
+ */
+export interface GeminiGenerateContentResponse {
+  candidates: Array<{
+    content: GeminiContent
+    finishReason?: GeminiFinishReason
+    index: number
+  }>
+  usageMetadata: {
+    promptTokenCount: number
+    candidatesTokenCount: number
+    totalTokenCount: number
+  }
+  modelVersion: string
+  responseId: string
+}
+
+/**
+ * Gemini REST APIのgenerateContentリクエストをVSCode拡張APIのチャットリクエスト形式に変換します。
+ * - systemInstructionはassistant roleの先頭メッセージに変換
+ * - contentsのfunctionCall/functionResponseパートは
+ *   LanguageModelToolCallPart/LanguageModelToolResultPartに変換
+ * - functionDeclarationsをVSCodeのツール定義に変換
+ * - generationConfig等のVSCode APIが未対応のパラメータはmodelOptionsに集約
+ * @param {GeminiGenerateContentRequest} geminiRequest Geminiのリクエストボディ
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {{ messages: vscode.LanguageModelChatMessage[], options: vscode.LanguageModelChatRequestOptions, inputTokens: number }}
+ *   VSCode拡張API用のチャットメッセージ配列とオプション、入力トークン数
+ */
+export async function convertGeminiRequestToVSCodeRequest(
+  geminiRequest: GeminiGenerateContentRequest,
+  vsCodeModel: vscode.LanguageModelChat,
+): Promise<{
+  messages: vscode.LanguageModelChatMessage[]
+  options: vscode.LanguageModelChatRequestOptions
+  inputTokens: number
+}> {
+  logger.debug('Converting Gemini request to VSCode request')
+
+  // --- messages変換 ---
+  const convertedMessages: (vscode.LanguageModelChatMessage | SystemPrompt)[] =
+    []
+
+  // systemInstructionがあればシステムプロンプトとして先頭に追加
+  if (geminiRequest.systemInstruction) {
+    const systemText =
+      typeof geminiRequest.systemInstruction === 'string'
+        ? geminiRequest.systemInstruction
+        : geminiRequest.systemInstruction.parts
+            .map(part => part.text ?? '')
+            .join('\n')
+    if (systemText) {
+      convertedMessages.push(createSystemPrompt(systemText))
+    }
+  }
+
+  // functionCallのIDを関数名ごとに保持（functionResponseとの対応付け用）
+  // GeminiのfunctionCallはIDを持たないことが多いため、名前順で対応付ける
+  const pendingCallIds = new Map<string, string[]>()
+
+  for (const content of geminiRequest.contents) {
+    // model以外（user, function）はUserロールとして扱う
+    const isModel = content.role === 'model'
+    const role = isModel
+      ? vscode.LanguageModelChatMessageRole.Assistant
+      : vscode.LanguageModelChatMessageRole.User
+    const name = isModel ? 'Assistant' : 'User'
+
+    const parts: Array<
+      | vscode.LanguageModelTextPart
+      | vscode.LanguageModelToolResultPart
+      | vscode.LanguageModelToolCallPart
+    > = []
+
+    for (const part of content.parts ?? []) {
+      // 思考パートはVSCode LM APIに渡せないため無視
+      if (part.thought) {
+        continue
+      }
+
+      if (part.functionCall) {
+        // functionCall → LanguageModelToolCallPart
+        const callId = part.functionCall.id ?? `call_${generateRandomId()}`
+        const ids = pendingCallIds.get(part.functionCall.name) ?? []
+        ids.push(callId)
+        pendingCallIds.set(part.functionCall.name, ids)
+        parts.push(
+          new vscode.LanguageModelToolCallPart(
+            callId,
+            part.functionCall.name,
+            part.functionCall.args ?? {},
+          ),
+        )
+      } else if (part.functionResponse) {
+        // functionResponse → LanguageModelToolResultPart
+        const ids = pendingCallIds.get(part.functionResponse.name) ?? []
+        let callId = part.functionResponse.id
+        if (callId) {
+          const index = ids.indexOf(callId)
+          if (index >= 0) {
+            ids.splice(index, 1)
+          }
+        } else {
+          callId = ids.shift() ?? `call_${generateRandomId()}`
+        }
+        parts.push(
+          new vscode.LanguageModelToolResultPart(callId, [
+            new vscode.LanguageModelTextPart(
+              JSON.stringify(part.functionResponse.response ?? {}),
+            ),
+          ]),
+        )
+      } else if (part.text !== undefined) {
+        parts.push(new vscode.LanguageModelTextPart(part.text))
+      } else if (part.inlineData) {
+        parts.push(
+          new vscode.LanguageModelTextPart(
+            `[Inline Data] ${JSON.stringify(part.inlineData)}`,
+          ),
+        )
+      } else if (part.fileData) {
+        parts.push(
+          new vscode.LanguageModelTextPart(
+            `[File Data] ${JSON.stringify(part.fileData)}`,
+          ),
+        )
+      } else {
+        parts.push(
+          new vscode.LanguageModelTextPart(
+            `[Unknown Type] ${JSON.stringify(part)}`,
+          ),
+        )
+      }
+    }
+
+    convertedMessages.push(
+      new vscode.LanguageModelChatMessage(role, parts, name),
+    )
+  }
+
+  // システムプロンプトを変換し、連続する同じロールのメッセージをまとめる
+  const messages = applySystemPromptStrategy(convertedMessages, vsCodeModel)
+
+  // --- input tokens計算 ---
+  let inputTokens = 0
+  for (const msg of messages) {
+    inputTokens += await vsCodeModel.countTokens(msg)
+  }
+
+  // --- options生成 ---
+  const options: vscode.LanguageModelChatRequestOptions = {}
+
+  // functionDeclarations変換
+  const functionDeclarations = (geminiRequest.tools ?? []).flatMap(
+    tool => tool.functionDeclarations ?? [],
+  )
+  if (functionDeclarations.length > 0) {
+    options.tools = functionDeclarations.map(declaration => {
+      const schema =
+        declaration.parametersJsonSchema ??
+        (declaration.parameters
+          ? convertGeminiSchemaToJsonSchema(declaration.parameters)
+          : undefined)
+      const base = {
+        name: declaration.name,
+        description: declaration.description ?? '',
+      }
+      return schema ? { ...base, inputSchema: schema } : base
+    })
+  }
+
+  // functionCallingConfig変換（指定された関数に絞り込むため、functionDeclarations変換の後に行う）
+  const functionCallingConfig = geminiRequest.toolConfig?.functionCallingConfig
+  if (functionCallingConfig?.mode) {
+    const allowedFunctionNames =
+      functionCallingConfig.allowedFunctionNames ?? []
+    let toolChoice: ToolChoice
+    switch (functionCallingConfig.mode) {
+      case 'ANY':
+        // allowedFunctionNamesが複数の場合は、その中のいずれかの関数の使用を強制
+        if (allowedFunctionNames.length > 1) {
+          options.tools = options.tools?.filter(tool =>
+            allowedFunctionNames.includes(tool.name),
+          )
+        }
+        toolChoice =
+          allowedFunctionNames.length === 1
+            ? { name: allowedFunctionNames[0] }
+            : 'required'
+        break
+      case 'NONE':
+        toolChoice = 'none'
+        break
+      default:
+        toolChoice = 'auto'
+        break
+    }
+    applyToolChoice(options, toolChoice)
+  }
+
+  // --- その他パラメータはmodelOptionsに集約 ---
+  const modelOptions: { [name: string]: unknown } = {
+    ...(geminiRequest.generationConfig ?? {}),
+  }
+  if (geminiRequest.safetySettings) {
+    modelOptions.safetySettings = geminiRequest.safetySettings
+  }
+  if (geminiRequest.cachedContent) {
+    modelOptions.cachedContent = geminiRequest.cachedContent
+  }
+  if (Object.keys(modelOptions).length > 0) {
+    options.modelOptions = modelOptions
+  }
+
+  // --- 変換結果をログ出力 ---
+  logger.debug('Converted Gemini request to VSCode request', {
+    messages,
+    options,
+    inputTokens,
+  })
+
+  return { messages, options, inputTokens }
+}
+
+/**
+ * GeminiのSchema（typeが'OBJECT'等の大文字）をJSON Schema（小文字）に再帰的に変換します。
+ * @param schema GeminiのSchemaオブジェクト
+ * @returns JSON Schemaオブジェクト
+ */
+function convertGeminiSchemaToJsonSchema(
+  schema: Record<string, unknown>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      result[key] = value.toLowerCase()
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, prop]) => [
+          name,
+          convertGeminiSchemaToJsonSchema(prop as Record<string, unknown>),
+        ]),
+      )
+    } else if (key === 'items' && value && typeof value === 'object') {
+      result[key] = convertGeminiSchemaToJsonSchema(
+        value as Record<string, unknown>,
+      )
+    } else if (key === 'anyOf' && Array.isArray(value)) {
+      result[key] = value.map(item =>
+        convertGeminiSchemaToJsonSchema(item as Record<string, unknown>),
+      )
+    } else {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+/**
+ * VSCodeのLanguageModelChatResponseをGeminiのgenerateContentレスポンス形式に変換します。
+ * ストリーミングの場合はレスポンスチャンクのAsyncIterableを返し、
+ * 非ストリーミングの場合は全文を1つのレスポンスとして返します。
+ * @param vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param isStreaming ストリーミングかどうか
+ * @param inputTokens 入力トークン数
+ * @returns GeminiGenerateContentResponse または AsyncIterable<GeminiGenerateContentResponse>
+ */
+export function convertVSCodeResponseToGeminiResponse(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+  isStreaming: boolean,
+  inputTokens: number,
+):
+  | Promise<GeminiGenerateContentResponse>
+  | AsyncIterable<GeminiGenerateContentResponse> {
+  if (isStreaming) {
+    // ストリーミング: VSCode stream → Geminiレスポンスチャンク列に変換
+    return convertVSCodeStreamToGeminiChunks(
+      vscodeResponse.stream,
+      vsCodeModel,
+      inputTokens,
+    )
+  }
+
+  // 非ストリーミング: VSCode text → Geminiレスポンス
+  return convertVSCodeTextToGeminiResponse(
+    vscodeResponse,
+    vsCodeModel,
+    inputTokens,
+  )
+}
+
+/**
+ * VSCodeのストリームをGeminiのレスポンスチャンク列に変換します。
+ * - テキストパートは{ text }パートを持つチャンクとして送信
+ * - ツールコールパートは{ functionCall }パートを持つチャンクとして送信
+ * - 最後にfinishReasonとusageMetadataを含むチャンクを送信
+ * @param stream VSCodeのストリーム
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @returns AsyncIterable<GeminiGenerateContentResponse>
+ */
+async function* convertVSCodeStreamToGeminiChunks(
+  stream: AsyncIterable<
+    vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart | unknown
+  >,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+): AsyncIterable<GeminiGenerateContentResponse> {
+  const responseId = generateRandomId()
+  let outputTokens = 0
+
+  // チャンクを生成
+  const createChunk = (
+    parts: GeminiPart[],
+    finishReason?: GeminiFinishReason,
+  ): GeminiGenerateContentResponse => ({
+    candidates: [
+      {
+        content: { role: 'model', parts },
+        ...(finishReason ? { finishReason } : {}),
+        index: 0,
+      },
+    ],
+    usageMetadata: {
+      promptTokenCount: inputTokens,
+      candidatesTokenCount: outputTokens,
+      totalTokenCount: inputTokens + outputTokens,
+    },
+    modelVersion: vsCodeModel.id,
+    responseId,
+  })
+
+  // --- ストリームを順次処理 ---
+  for await (const part of stream) {
+    if (isTextPart(part)) {
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+      yield createChunk([{ text: part.value }])
+    } else if (isToolCallPart(part)) {
+      // ツールコールもトークン数に加算
+      outputTokens += await vsCodeModel.countTokens(JSON.stringify(part))
+      yield createChunk([
+        {
+          functionCall: {
+            id: part.callId,
+            name: part.name,
+            args: (part.input ?? {}) as Record<string, unknown>,
+          },
+        },
+      ])
+    }
+  }
+
+  // --- 終了チャンク送信 ---
+  yield createChunk([{ text: '' }], 'STOP')
+}
+
+/**
+ * VSCodeのLanguageModelChatResponse（非ストリーミング）をGeminiのレスポンス形式に変換します。
+ * - 連続するテキストパートは1つの{ text }パートに連結
+ * - ツールコールパートは{ functionCall }パートとして追加
+ * @param vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @returns GeminiGenerateContentResponse
+ */
+async function convertVSCodeTextToGeminiResponse(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+): Promise<GeminiGenerateContentResponse> {
+  const parts: GeminiPart[] = []
+  let textBuffer = ''
+  let outputTokens = 0
+
+  // --- ストリームを順次処理 ---
+  for await (const part of vscodeResponse.stream) {
+    if (isTextPart(part)) {
+      // テキストはバッファに連結
+      textBuffer += part.value
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    } else if (isToolCallPart(part)) {
+      // テキストバッファがあればtextパートとして追加
+      if (textBuffer) {
+        parts.push({ text: textBuffer })
+        textBuffer = ''
+      }
+
+      // functionCallパート追加
+      parts.push({
+        functionCall: {
+          id: part.callId,
+          name: part.name,
+          args: (part.input ?? {}) as Record<string, unknown>,
+        },
+      })
+
+      // ツールコールもトークン数に加算
+      outputTokens += await vsCodeModel.countTokens(JSON.stringify(part))
+    }
+  }
+
+  // 残りのテキストバッファをtextパートとして追加
+  if (textBuffer || parts.length === 0) {
+    parts.push({ text: textBuffer })
+  }
+
+  // --- Geminiレスポンスオブジェクトを返す ---
+  return {
+    candidates: [
+      {
+        content: { role: 'model', parts },
+        finishReason: 'STOP',
+        index: 0,
+      },
+    ],
+    usageMetadata: {
+      promptTokenCount: inputTokens,
+      candidatesTokenCount: outputTokens,
+      totalTokenCount: inputTokens + outputTokens,
+    },
+    modelVersion: vsCodeModel.id,
+    responseId: generateRandomId(),
+  }
+}
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode'
+import { isTextPart, isThinkingPart, isToolCallPart } from '../server/handler'
+import { logger } from '../utils/logger'
+import { getThinkingText } from './thinkingConverter'
+
+/**
+ * 最大出力トークン数の制限に必要なリクエストの情報
+ */
+export interface MaxTokensContext {
+  maxTokens: number
+  // 最大出力トークン数に達した時点でLM APIへのリクエストをキャンセルする
+  cancellation: vscode.CancellationTokenSource
+}
+
+/**
+ * 最大出力トークン数に達したことを示すパート
+ */
+export interface MaxTokensReached {
+  type: 'max_tokens_reached'
+}
+
+/**
+ * 最大出力トークン数のコンテキストを生成する
+ * 最大出力トークン数が指定されていない場合はundefinedを返す
+ * @param {number | null | undefined} maxTokens 最大出力トークン数
+ * @param {vscode.CancellationTokenSource} cancellation LM APIへのリクエストのキャンセラレーショントークンソース
+ * @returns {MaxTokensContext | undefined}
+ */
+export function createMaxTokensContext(
+  maxTokens: number | null | undefined,
+  cancellation: vscode.CancellationTokenSource,
+): MaxTokensContext | undefined {
+  if (typeof maxTokens !== 'number' || maxTokens <= 0) {
+    return undefined
+  }
+  return { maxTokens, cancellation }
+}
+
+/**
+ * MaxTokensReached型ガード
+ * @param part 判定対象
+ * @returns {boolean}
+ */
+export function isMaxTokensReached(part: unknown): part is MaxTokensReached {
+  return (
+    typeof part === 'object' &&
+    part !== null &&
+    (part as MaxTokensReached).type === 'max_tokens_reached'
+  )
+}
+
+/**
+ * LM APIのレスポンスのストリームに最大出力トークン数を適用する
+ * - 出力トークン数を数えながらパートを出力し、上限を超えるテキスト（思考過程を含む）は上限に収まる長さで切り詰める
+ * - 上限を超える出力があった場合はMaxTokensReachedを出力し、LM APIへのリクエストをキャンセル
+ * @param {AsyncIterable<unknown>} stream レスポンスのストリーム
+ * @param {vscode.LanguageModelChat} vsCodeModel トークン数の計算に使用するVSCodeのLanguageModelChatインスタンス
+ * @param {MaxTokensContext} context 最大出力トークン数のコンテキスト
+ * @returns {AsyncIterable<vscode.LanguageModelTextPart | MaxTokensReached | unknown>}
+ */
+export async function* applyMaxTokens(
+  stream: AsyncIterable<unknown>,
+  vsCodeModel: vscode.LanguageModelChat,
+  context: MaxTokensContext,
+): AsyncIterable<vscode.LanguageModelTextPart | MaxTokensReached | unknown> {
+  let outputTokens = 0
+
+  for await (const part of stream) {
+    // 思考過程も出力トークン数に含める（Anthropicのmax_tokensは思考の予算を含む）
+    if (isTextPart(part) || isThinkingPart(part)) {
+      const value = isTextPart(part) ? part.value : getThinkingText(part)
+      const tokens = await vsCodeModel.countTokens(value)
+      if (outputTokens + tokens <= context.maxTokens) {
+        outputTokens += tokens
+        yield part
+        continue
+      }
+
+      // 上限に収まる長さまでテキストを切り詰める
+      const text = await truncateText(
+        value,
+        context.maxTokens - outputTokens,
+        vsCodeModel,
+      )
+      if (text) {
+        yield isTextPart(part)
+          ? new vscode.LanguageModelTextPart(text)
+          : new vscode.LanguageModelThinkingPart(text, part.id, part.metadata)
+      }
+    } else {
+      // ツールコールは分割できないため、そのまま出力してから上限を判定
+      if (isToolCallPart(part)) {
+        outputTokens += await vsCodeModel.countTokens(JSON.stringify(part))
+      }
+      yield part
+      if (outputTokens <= context.maxTokens) {
+        continue
+      }
+    }
+
+    logger.debug('Max tokens reached', { maxTokens: context.maxTokens })
+    yield { type: 'max_tokens_reached' }
+    context.cancellation.cancel()
+    return
+  }
+}
+
+/**
+ * テキストを指定したトークン数に収まる最大の長さに切り詰める
+ * @param {string} text テキスト
+ * @param {number} maxTokens 最大トークン数
+ * @param {vscode.LanguageModelChat} vsCodeModel トークン数の計算に使用するVSCodeのLanguageModelChatインスタンス
+ * @returns {Promise<string>}
+ */
+async function truncateText(
+  text: string,
+  maxTokens: number,
+  vsCodeModel: vscode.LanguageModelChat,
+): Promise<string> {
+  // トークン数が上限以下となる最長の先頭部分を二分探索
+  let low = 0
+  let high = text.length
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if ((await vsCodeModel.countTokens(text.slice(0, middle))) <= maxTokens) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+  return text.slice(0, low)
+}
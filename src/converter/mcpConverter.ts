@@ -0,0 +1,205 @@
+import * as vscode from 'vscode'
+import { isTextPart } from '../server/handler'
+import { logger } from '../utils/logger'
+import {
+  applySystemPromptStrategy,
+  createSystemPrompt,
+  type SystemPrompt,
+} from './systemPromptConverter'
+
+/**
+ * MCPのコンテンツ（テキスト・画像・音声）
+ */
+export type McpContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+
+/**
+ * MCPのsamplingで使用するメッセージ
+ */
+export interface McpSamplingMessage {
+  role: 'user' | 'assistant'
+  content: McpContent
+}
+
+/**
+ * MCPのsampling/createMessageリクエストのパラメータ
+ */
+export interface McpCreateMessageParams {
+  messages: McpSamplingMessage[]
+  systemPrompt?: string
+  modelPreferences?: {
+    hints?: Array<{ name?: string }>
+    costPriority?: number
+    speedPriority?: number
+    intelligencePriority?: number
+  }
+  includeContext?: 'none' | 'thisServer' | 'allServers'
+  temperature?: number
+  maxTokens: number
+  stopSequences?: string[]
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * MCPのsampling/createMessageリクエストの結果
+ */
+export interface McpCreateMessageResult {
+  role: 'assistant'
+  content: { type: 'text'; text: string }
+  model: string
+  stopReason: 'endTurn' | 'stopSequence' | 'maxTokens'
+}
+
+/**
+ * MCPサーバーのchatツールの引数
+ * promptまたはmessagesのいずれかを指定する
+ */
+export interface McpChatToolArguments {
+  prompt?: string
+  messages?: Array<{ role: 'user' | 'assistant'; content: string }>
+  systemPrompt?: string
+  model?: string
+  maxTokens?: number
+  temperature?: number
+}
+
+/**
+ * chatツールの引数をsampling/createMessageのパラメータに変換します。
+ * chatツールとsamplingを同じ変換経路で処理するために使用します。
+ * @param {McpChatToolArguments} args chatツールの引数
+ * @returns {McpCreateMessageParams}
+ */
+export function convertMcpChatToolArgumentsToCreateMessageParams(
+  args: McpChatToolArguments,
+): McpCreateMessageParams {
+  const messages: McpSamplingMessage[] = (args.messages ?? []).map(msg => ({
+    role: msg.role,
+    content: { type: 'text', text: msg.content },
+  }))
+  if (args.prompt) {
+    messages.push({
+      role: 'user',
+      content: { type: 'text', text: args.prompt },
+    })
+  }
+
+  return {
+    messages,
+    systemPrompt: args.systemPrompt,
+    maxTokens: args.maxTokens ?? 4096,
+    temperature: args.temperature,
+  }
+}
+
+/**
+ * MCPのsampling/createMessageリクエストをVSCode拡張APIのチャットリクエスト形式に変換します。
+ * - systemPromptはシステムプロンプトとして、モデルに設定された渡し方で変換
+ * - 画像・音声はVSCode LM APIで送信できないため、MIMEタイプを示すテキストに変換
+ * - maxTokens, temperature, stopSequences等はmodelOptionsに集約
+ * - includeContextは他のMCPサーバーのコンテキストを持たないため無視
+ * @param {McpCreateMessageParams} params sampling/createMessageのパラメータ
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {{ messages: vscode.LanguageModelChatMessage[], options: vscode.LanguageModelChatRequestOptions, inputTokens: number }}
+ *   VSCode拡張API用のチャットメッセージ配列とオプション、入力トークン数
+ */
+export async function convertMcpCreateMessageRequestToVSCodeRequest(
+  params: McpCreateMessageParams,
+  vsCodeModel: vscode.LanguageModelChat,
+): Promise<{
+  messages: vscode.LanguageModelChatMessage[]
+  options: vscode.LanguageModelChatRequestOptions
+  inputTokens: number
+}> {
+  logger.debug('Converting MCP sampling request to VSCode request')
+
+  const convertedMessages: (vscode.LanguageModelChatMessage | SystemPrompt)[] =
+    []
+
+  // systemPromptはシステムプロンプトとして先頭に追加
+  if (params.systemPrompt) {
+    convertedMessages.push(createSystemPrompt(params.systemPrompt))
+  }
+
+  for (const msg of params.messages) {
+    const text =
+      msg.content.type === 'text'
+        ? msg.content.text
+        : `[${msg.content.type === 'image' ? 'Image' : 'Audio'}]: ${msg.content.mimeType}`
+
+    convertedMessages.push(
+      msg.role === 'assistant'
+        ? new vscode.LanguageModelChatMessage(
+            vscode.LanguageModelChatMessageRole.Assistant,
+            text,
+            'Assistant',
+          )
+        : new vscode.LanguageModelChatMessage(
+            vscode.LanguageModelChatMessageRole.User,
+            text,
+            'User',
+          ),
+    )
+  }
+
+  // システムプロンプトを変換し、連続する同じロールのメッセージをまとめる
+  const messages = applySystemPromptStrategy(convertedMessages, vsCodeModel)
+
+  // --- input tokens計算 ---
+  let inputTokens = 0
+  for (const msg of messages) {
+    inputTokens += await vsCodeModel.countTokens(msg)
+  }
+
+  // --- options生成 ---
+  // VSCode APIが未対応のパラメータはmodelOptionsにまとめて渡す
+  const modelOptions: { [name: string]: unknown } = {
+    max_tokens: params.maxTokens,
+  }
+  if (params.temperature !== undefined) {
+    modelOptions.temperature = params.temperature
+  }
+  if (params.stopSequences && params.stopSequences.length > 0) {
+    modelOptions.stop = params.stopSequences
+  }
+  if (params.metadata) {
+    modelOptions.metadata = params.metadata
+  }
+  const options: vscode.LanguageModelChatRequestOptions = { modelOptions }
+
+  // --- 変換結果をログ出力 ---
+  logger.debug('Converted MCP sampling request to VSCode request', {
+    messages,
+    options,
+    inputTokens,
+  })
+
+  return { messages, options, inputTokens }
+}
+
+/**
+ * VSCodeのLanguageModelChatResponseをMCPのsampling/createMessageの結果に変換します。
+ * @param {vscode.LanguageModelChatResponse} vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {Promise<McpCreateMessageResult>}
+ */
+export async function convertVSCodeResponseToMcpCreateMessageResult(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+): Promise<McpCreateMessageResult> {
+  let textBuffer = ''
+
+  for await (const part of vscodeResponse.stream) {
+    if (isTextPart(part)) {
+      textBuffer += part.value
+    }
+  }
+
+  return {
+    role: 'assistant',
+    content: { type: 'text', text: textBuffer },
+    model: vsCodeModel.id,
+    stopReason: 'endTurn',
+  }
+}
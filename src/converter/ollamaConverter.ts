@@ -0,0 +1,624 @@
+import * as vscode from 'vscode'
+import { isTextPart, isToolCallPart } from '../server/handler'
+import { generateRandomId } from '../utils'
+import { logger } from '../utils/logger'
+import { buildFillInTheMiddleInstruction } from './openaiCompletionsConverter'
+import {
+  applySystemPromptStrategy,
+  createSystemPrompt,
+  type SystemPrompt,
+} from './systemPromptConverter'
+
+/**
+ * Ollama APIのツールコール
+ */
+export interface OllamaToolCall {
+  function: {
+    name: string
+    arguments: Record<string, unknown>
+  }
+}
+
+/**
+ * Ollama APIのメッセージ
+ */
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  thinking?: string
+  images?: string[]
+  tool_calls?: OllamaToolCall[]
+  tool_name?: string
+}
+
+/**
+ * Ollama APIのツール定義
+ */
+export interface OllamaTool {
+  type: 'function'
+  function: {
+    name: string
+    description?: string
+    parameters?: Record<string, unknown>
+  }
+}
+
+/**
+ * Ollama APIの/api/chatリクエストボディ
+ */
+export interface OllamaChatRequest {
+  model: string
+  messages: OllamaMessage[]
+  tools?: OllamaTool[]
+  format?: string | Record<string, unknown>
+  options?: Record<string, unknown>
+  stream?: boolean
+  keep_alive?: string | number
+  think?: boolean
+}
+
+/**
+ * Ollama APIの/api/generateリクエストボディ
+ */
+export interface OllamaGenerateRequest {
+  model: string
+  prompt?: string
+  suffix?: string
+  system?: string
+  template?: string
+  context?: number[]
+  raw?: boolean
+  images?: string[]
+  format?: string | Record<string, unknown>
+  options?: Record<string, unknown>
+  stream?: boolean
+  keep_alive?: string | number
+  think?: boolean
+}
+
+/**
+ * Ollama APIのレスポンス共通フィールド（完了時のみ統計情報を含む）
+ */
+interface OllamaResponseBase {
+  model: string
+  created_at: string
+  done: boolean
+  done_reason?: 'stop' | 'length'
+  total_duration?: number
+  load_duration?: number
+  prompt_eval_count?: number
+  prompt_eval_duration?: number
+  eval_count?: number
+  eval_duration?: number
+}
+
+/**
+ * Ollama APIの/api/chatレスポンス（ストリーミング時は各行）
+ */
+export interface OllamaChatResponse extends OllamaResponseBase {
+  message: OllamaMessage
+}
+
+/**
+ * Ollama APIの/api/generateレスポンス（ストリーミング時は各行）
+ */
+export interface OllamaGenerateResponse extends OllamaResponseBase {
+  response: string
+  context?: number[]
+}
+
+/**
+ * Ollamaのformat, options等のVSCode APIが未対応のパラメータをmodelOptionsに集約します。
+ * @param request Ollamaのリクエストボディ
+ * @returns modelOptions（空の場合はundefined）
+ */
+function buildModelOptions(
+  request: OllamaChatRequest | OllamaGenerateRequest,
+): { [name: string]: unknown } | undefined {
+  const modelOptions: { [name: string]: unknown } = {
+    ...(request.options ?? {}),
+  }
+  const modelOptionKeys: (keyof (OllamaChatRequest | OllamaGenerateRequest))[] =
+    ['format', 'keep_alive', 'stream', 'think']
+  for (const key of modelOptionKeys) {
+    if (request[key] !== undefined) {
+      modelOptions[key] = request[key]
+    }
+  }
+  return Object.keys(modelOptions).length > 0 ? modelOptions : undefined
+}
+
+/**
+ * Ollamaの/api/chatリクエストをVSCode拡張APIのチャットリクエスト形式に変換します。
+ * - system roleはシステムプロンプトとして、モデルに設定された渡し方で変換
+ * - assistantのtool_callsはLanguageModelToolCallPartに変換
+ * - tool roleはuserのLanguageModelToolResultPartに変換
+ *   （OllamaのツールコールはIDを持たないため、tool_nameまたは出現順で対応付ける）
+ * - options, format等はmodelOptionsに集約
+ * @param {OllamaChatRequest} ollamaRequest Ollamaのチャットリクエスト
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {{ messages: vscode.LanguageModelChatMessage[], options: vscode.LanguageModelChatRequestOptions, inputTokens: number }}
+ *   VSCode拡張API用のチャットメッセージ配列とオプション、入力トークン数
+ */
+export async function convertOllamaChatRequestToVSCodeRequest(
+  ollamaRequest: OllamaChatRequest,
+  vsCodeModel: vscode.LanguageModelChat,
+): Promise<{
+  messages: vscode.LanguageModelChatMessage[]
+  options: vscode.LanguageModelChatRequestOptions
+  inputTokens: number
+}> {
+  logger.debug('Converting Ollama chat request to VSCode request')
+
+  // ツールコールIDを出現順に保持（tool roleメッセージとの対応付け用）
+  const pendingCalls: Array<{ callId: string; name: string }> = []
+
+  const convertedMessages: (vscode.LanguageModelChatMessage | SystemPrompt)[] =
+    ollamaRequest.messages.map(msg => {
+      switch (msg.role) {
+        case 'system':
+          return createSystemPrompt(msg.content)
+        case 'assistant': {
+          const parts: Array<
+            vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart
+          > = []
+          if (msg.content) {
+            parts.push(new vscode.LanguageModelTextPart(msg.content))
+          }
+          for (const toolCall of msg.tool_calls ?? []) {
+            const callId = `call_${generateRandomId()}`
+            pendingCalls.push({ callId, name: toolCall.function.name })
+            parts.push(
+              new vscode.LanguageModelToolCallPart(
+                callId,
+                toolCall.function.name,
+                toolCall.function.arguments ?? {},
+              ),
+            )
+          }
+          return new vscode.LanguageModelChatMessage(
+            vscode.LanguageModelChatMessageRole.Assistant,
+            parts,
+            'Assistant',
+          )
+        }
+        case 'tool': {
+          // tool_nameが一致する未回答のツールコール、なければ最も古いツールコールに対応付ける
+          const index = msg.tool_name
+            ? pendingCalls.findIndex(call => call.name === msg.tool_name)
+            : 0
+          const [call] = pendingCalls.splice(Math.max(index, 0), 1)
+          return new vscode.LanguageModelChatMessage(
+            vscode.LanguageModelChatMessageRole.User,
+            [
+              new vscode.LanguageModelToolResultPart(
+                call?.callId ?? `call_${generateRandomId()}`,
+                [new vscode.LanguageModelTextPart(msg.content)],
+              ),
+            ],
+            'User',
+          )
+        }
+        default: {
+          const parts = [new vscode.LanguageModelTextPart(msg.content)]
+          if (msg.images && msg.images.length > 0) {
+            parts.push(
+              new vscode.LanguageModelTextPart(
+                `[Images] ${JSON.stringify(msg.images)}`,
+              ),
+            )
+          }
+          return new vscode.LanguageModelChatMessage(
+            vscode.LanguageModelChatMessageRole.User,
+            parts,
+            'User',
+          )
+        }
+      }
+    })
+
+  // システムプロンプトを変換し、連続する同じロールのメッセージをまとめる
+  const messages = applySystemPromptStrategy(convertedMessages, vsCodeModel)
+
+  // --- input tokens計算 ---
+  let inputTokens = 0
+  for (const msg of messages) {
+    inputTokens += await vsCodeModel.countTokens(msg)
+  }
+
+  // --- options生成 ---
+  const options: vscode.LanguageModelChatRequestOptions = {}
+
+  // tools変換
+  if (Array.isArray(ollamaRequest.tools)) {
+    options.tools = ollamaRequest.tools.map(tool => {
+      const base = {
+        name: tool.function.name,
+        description: tool.function.description ?? '',
+      }
+      return tool.function.parameters
+        ? { ...base, inputSchema: tool.function.parameters }
+        : base
+    })
+  }
+
+  // その他のパラメータはmodelOptionsにまとめて渡す
+  const modelOptions = buildModelOptions(ollamaRequest)
+  if (modelOptions) {
+    options.modelOptions = modelOptions
+  }
+
+  // --- 変換結果をログ出力 ---
+  logger.debug('Converted Ollama chat request to VSCode request', {
+    messages,
+    options,
+    inputTokens,
+  })
+
+  return { messages, options, inputTokens }
+}
+
+/**
+ * Ollamaの/api/generateリクエストをVSCode拡張APIのチャットリクエスト形式に変換します。
+ * - systemはシステムプロンプトとして、モデルに設定された渡し方で変換
+ * - suffixがある場合はFIM形式の指示文に変換し、それ以外はpromptをそのまま送信
+ * @param {OllamaGenerateRequest} ollamaRequest Ollamaの生成リクエスト
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {{ messages: vscode.LanguageModelChatMessage[], options: vscode.LanguageModelChatRequestOptions, inputTokens: number }}
+ *   VSCode拡張API用のチャットメッセージ配列とオプション、入力トークン数
+ */
+export async function convertOllamaGenerateRequestToVSCodeRequest(
+  ollamaRequest: OllamaGenerateRequest,
+  vsCodeModel: vscode.LanguageModelChat,
+): Promise<{
+  messages: vscode.LanguageModelChatMessage[]
+  options: vscode.LanguageModelChatRequestOptions
+  inputTokens: number
+}> {
+  logger.debug('Converting Ollama generate request to VSCode request')
+
+  const convertedMessages: (vscode.LanguageModelChatMessage | SystemPrompt)[] =
+    []
+
+  // systemがあればシステムプロンプトとして先頭に追加
+  if (ollamaRequest.system) {
+    convertedMessages.push(createSystemPrompt(ollamaRequest.system))
+  }
+
+  // promptを指示文に変換
+  const prompt = ollamaRequest.prompt ?? ''
+  const instruction = ollamaRequest.suffix
+    ? buildFillInTheMiddleInstruction(prompt, ollamaRequest.suffix)
+    : prompt
+  const parts = [new vscode.LanguageModelTextPart(instruction)]
+  if (ollamaRequest.images && ollamaRequest.images.length > 0) {
+    parts.push(
+      new vscode.LanguageModelTextPart(
+        `[Images] ${JSON.stringify(ollamaRequest.images)}`,
+      ),
+    )
+  }
+  convertedMessages.push(
+    new vscode.LanguageModelChatMessage(
+      vscode.LanguageModelChatMessageRole.User,
+      parts,
+      'User',
+    ),
+  )
+
+  // システムプロンプトを変換
+  const messages = applySystemPromptStrategy(convertedMessages, vsCodeModel)
+
+  // --- input tokens計算 ---
+  let inputTokens = 0
+  for (const msg of messages) {
+    inputTokens += await vsCodeModel.countTokens(msg)
+  }
+
+  // --- options生成 ---
+  const options: vscode.LanguageModelChatRequestOptions = {}
+  const modelOptions = buildModelOptions(ollamaRequest)
+  if (modelOptions) {
+    options.modelOptions = modelOptions
+  }
+
+  // --- 変換結果をログ出力 ---
+  logger.debug('Converted Ollama generate request to VSCode request', {
+    messages,
+    options,
+    inputTokens,
+  })
+
+  return { messages, options, inputTokens }
+}
+
+/**
+ * 完了時のレスポンスに付与する統計情報を生成します。
+ * 時間はOllamaと同じくナノ秒単位で返します。
+ * @param startTime リクエスト開始時刻（ミリ秒）
+ * @param inputTokens 入力トークン数
+ * @param outputTokens 出力トークン数
+ * @returns 統計情報
+ */
+function createDoneStats(
+  startTime: number,
+  inputTokens: number,
+  outputTokens: number,
+): Omit<OllamaResponseBase, 'model' | 'created_at' | 'done'> {
+  const totalDuration = (Date.now() - startTime) * 1_000_000
+  return {
+    done_reason: 'stop',
+    total_duration: totalDuration,
+    load_duration: 0,
+    prompt_eval_count: inputTokens,
+    prompt_eval_duration: 0,
+    eval_count: outputTokens,
+    eval_duration: totalDuration,
+  }
+}
+
+/**
+ * VSCodeのLanguageModelChatResponseをOllamaの/api/chatレスポンス形式に変換します。
+ * ストリーミングの場合はNDJSONの各行となるレスポンスのAsyncIterableを返し、
+ * 非ストリーミングの場合は全文を1つのレスポンスとして返します。
+ * @param vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param isStreaming ストリーミングかどうか
+ * @param inputTokens 入力トークン数
+ * @param modelName レスポンスに含めるモデル名（リクエストで指定された名前）
+ * @returns OllamaChatResponse または AsyncIterable<OllamaChatResponse>
+ */
+export function convertVSCodeResponseToOllamaChatResponse(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+  isStreaming: boolean,
+  inputTokens: number,
+  modelName: string,
+): Promise<OllamaChatResponse> | AsyncIterable<OllamaChatResponse> {
+  if (isStreaming) {
+    return convertVSCodeStreamToOllamaChatChunks(
+      vscodeResponse.stream,
+      vsCodeModel,
+      inputTokens,
+      modelName,
+    )
+  }
+  return convertVSCodeTextToOllamaChatResponse(
+    vscodeResponse,
+    vsCodeModel,
+    inputTokens,
+    modelName,
+  )
+}
+
+/**
+ * VSCodeのストリームをOllamaの/api/chatレスポンス行に変換します。
+ * - テキストパートはmessage.contentの差分として送信
+ * - ツールコールパートはmessage.tool_callsとして送信
+ * - 最後にdone: trueと統計情報を含む行を送信
+ * @param stream VSCodeのストリーム
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @param modelName レスポンスに含めるモデル名
+ * @returns AsyncIterable<OllamaChatResponse>
+ */
+async function* convertVSCodeStreamToOllamaChatChunks(
+  stream: AsyncIterable<
+    vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart | unknown
+  >,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+  modelName: string,
+): AsyncIterable<OllamaChatResponse> {
+  const startTime = Date.now()
+  let outputTokens = 0
+
+  for await (const part of stream) {
+    if (isTextPart(part)) {
+      yield {
+        model: modelName,
+        created_at: new Date().toISOString(),
+        message: { role: 'assistant', content: part.value },
+        done: false,
+      }
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    } else if (isToolCallPart(part)) {
+      yield {
+        model: modelName,
+        created_at: new Date().toISOString(),
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            {
+              function: {
+                name: part.name,
+                arguments: (part.input ?? {}) as Record<string, unknown>,
+              },
+            },
+          ],
+        },
+        done: false,
+      }
+
+      // ツールコールもトークン数に加算
+      outputTokens += await vsCodeModel.countTokens(JSON.stringify(part))
+    }
+  }
+
+  // 終了行を送信
+  yield {
+    model: modelName,
+    created_at: new Date().toISOString(),
+    message: { role: 'assistant', content: '' },
+    done: true,
+    ...createDoneStats(startTime, inputTokens, outputTokens),
+  }
+}
+
+/**
+ * 非ストリーミング: VSCodeのLanguageModelChatResponseをOllamaの/api/chatレスポンスに変換します。
+ * @param vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @param modelName レスポンスに含めるモデル名
+ * @returns Promise<OllamaChatResponse>
+ */
+async function convertVSCodeTextToOllamaChatResponse(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+  modelName: string,
+): Promise<OllamaChatResponse> {
+  const startTime = Date.now()
+  let textBuffer = ''
+  const toolCalls: OllamaToolCall[] = []
+  let outputTokens = 0
+
+  for await (const part of vscodeResponse.stream) {
+    if (isTextPart(part)) {
+      textBuffer += part.value
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    } else if (isToolCallPart(part)) {
+      toolCalls.push({
+        function: {
+          name: part.name,
+          arguments: (part.input ?? {}) as Record<string, unknown>,
+        },
+      })
+
+      // ツールコールもトークン数に加算
+      outputTokens += await vsCodeModel.countTokens(JSON.stringify(part))
+    }
+  }
+
+  return {
+    model: modelName,
+    created_at: new Date().toISOString(),
+    message: {
+      role: 'assistant',
+      content: textBuffer,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    },
+    done: true,
+    ...createDoneStats(startTime, inputTokens, outputTokens),
+  }
+}
+
+/**
+ * VSCodeのLanguageModelChatResponseをOllamaの/api/generateレスポンス形式に変換します。
+ * ストリーミングの場合はNDJSONの各行となるレスポンスのAsyncIterableを返し、
+ * 非ストリーミングの場合は全文を1つのレスポンスとして返します。
+ * @param vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param isStreaming ストリーミングかどうか
+ * @param inputTokens 入力トークン数
+ * @param modelName レスポンスに含めるモデル名（リクエストで指定された名前）
+ * @returns OllamaGenerateResponse または AsyncIterable<OllamaGenerateResponse>
+ */
+export function convertVSCodeResponseToOllamaGenerateResponse(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+  isStreaming: boolean,
+  inputTokens: number,
+  modelName: string,
+): Promise<OllamaGenerateResponse> | AsyncIterable<OllamaGenerateResponse> {
+  if (isStreaming) {
+    return convertVSCodeStreamToOllamaGenerateChunks(
+      vscodeResponse.stream,
+      vsCodeModel,
+      inputTokens,
+      modelName,
+    )
+  }
+  return convertVSCodeTextToOllamaGenerateResponse(
+    vscodeResponse,
+    vsCodeModel,
+    inputTokens,
+    modelName,
+  )
+}
+
+/**
+ * VSCodeのストリームをOllamaの/api/generateレスポンス行に変換します。
+ * テキストパートのみをresponseの差分として送信し、最後にdone: trueの行を送信します。
+ * @param stream VSCodeのストリーム
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @param modelName レスポンスに含めるモデル名
+ * @returns AsyncIterable<OllamaGenerateResponse>
+ */
+async function* convertVSCodeStreamToOllamaGenerateChunks(
+  stream: AsyncIterable<vscode.LanguageModelTextPart | unknown>,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+  modelName: string,
+): AsyncIterable<OllamaGenerateResponse> {
+  const startTime = Date.now()
+  let outputTokens = 0
+
+  for await (const part of stream) {
+    if (isTextPart(part)) {
+      yield {
+        model: modelName,
+        created_at: new Date().toISOString(),
+        response: part.value,
+        done: false,
+      }
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    }
+  }
+
+  // 終了行を送信
+  yield {
+    model: modelName,
+    created_at: new Date().toISOString(),
+    response: '',
+    done: true,
+    context: [],
+    ...createDoneStats(startTime, inputTokens, outputTokens),
+  }
+}
+
+/**
+ * 非ストリーミング: VSCodeのLanguageModelChatResponseをOllamaの/api/generateレスポンスに変換します。
+ * @param vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @param modelName レスポンスに含めるモデル名
+ * @returns Promise<OllamaGenerateResponse>
+ */
+async function convertVSCodeTextToOllamaGenerateResponse(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+  modelName: string,
+): Promise<OllamaGenerateResponse> {
+  const startTime = Date.now()
+  let textBuffer = ''
+  let outputTokens = 0
+
+  for await (const part of vscodeResponse.stream) {
+    if (isTextPart(part)) {
+      textBuffer += part.value
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    }
+  }
+
+  return {
+    model: modelName,
+    created_at: new Date().toISOString(),
+    response: textBuffer,
+    done: true,
+    context: [],
+    ...createDoneStats(startTime, inputTokens, outputTokens),
+  }
+}
@@ -0,0 +1,225 @@
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources'
+import type { AssistantTool } from 'openai/resources/beta/assistants'
+import type {
+  Message,
+  MessageContent,
+  MessageCreateParams,
+} from 'openai/resources/beta/threads/messages'
+import type { Run } from 'openai/resources/beta/threads/runs/runs'
+import type {
+  FunctionToolCall,
+  RunStep,
+} from 'openai/resources/beta/threads/runs/steps'
+import { compareByCreation } from '../assistants/store'
+
+/**
+ * Assistants APIのスレッドの状態（メッセージとツールコールのステップ）と実行中のRunから、
+ * Chat Completions APIのリクエストを組み立てます。
+ * 組み立てたリクエストは既存のOpenAIコンバーターでVSCode LM APIの形式に変換されます。
+ * - Runのinstructionsはsystemメッセージとして先頭に追加
+ * - スレッドのメッセージとツールコールのステップを作成順に並べ、
+ *   ツールコールはassistantのtool_calls、出力はtoolメッセージに変換
+ * - truncation_strategyがlast_messagesの場合は直近のメッセージのみを使用
+ * - function以外のツール（code_interpreter, file_search）は未対応のため無視
+ * @param {Run} run 実行中のRun
+ * @param {Message[]} messages スレッドのメッセージ
+ * @param {RunStep[]} steps スレッドのRunステップ
+ * @returns {ChatCompletionCreateParams} Chat Completions APIのリクエスト
+ */
+export function convertAssistantsRunToOpenAIRequest(
+  run: Run,
+  messages: Message[],
+  steps: RunStep[],
+): ChatCompletionCreateParams {
+  // メッセージとツールコールのステップを作成順に並べる
+  const timeline: Array<Message | RunStep> = [
+    ...messages,
+    ...steps.filter(step => step.step_details.type === 'tool_calls'),
+  ].sort(compareByCreation)
+
+  // timelineをChat Completionsのメッセージに変換
+  let chatMessages: ChatCompletionMessageParam[] = []
+  for (const item of timeline) {
+    if (item.object === 'thread.message') {
+      chatMessages.push(convertThreadMessage(item))
+      continue
+    }
+
+    // 出力が揃っていないツールコールは含めない
+    const toolCalls = (
+      item.step_details.type === 'tool_calls'
+        ? item.step_details.tool_calls
+        : []
+    ).filter(
+      (toolCall): toolCall is FunctionToolCall =>
+        toolCall.type === 'function' && toolCall.function.output !== null,
+    )
+    if (toolCalls.length === 0) {
+      continue
+    }
+
+    chatMessages.push({
+      role: 'assistant',
+      content: null,
+      tool_calls: toolCalls.map(toolCall => ({
+        id: toolCall.id,
+        type: 'function',
+        function: {
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments,
+        },
+      })),
+    })
+    for (const toolCall of toolCalls) {
+      chatMessages.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: toolCall.function.output ?? '',
+      })
+    }
+  }
+
+  // truncation_strategyの適用
+  if (
+    run.truncation_strategy?.type === 'last_messages' &&
+    typeof run.truncation_strategy.last_messages === 'number'
+  ) {
+    chatMessages = chatMessages.slice(-run.truncation_strategy.last_messages)
+  }
+
+  // instructionsをsystemメッセージとして先頭に追加
+  if (run.instructions) {
+    chatMessages.unshift({ role: 'system', content: run.instructions })
+  }
+
+  const request: ChatCompletionCreateParams = {
+    model: run.model,
+    messages: chatMessages,
+  }
+
+  // function toolのみをChat Completionsのtoolsに変換
+  const tools = convertAssistantTools(run.tools)
+  if (tools.length > 0) {
+    request.tools = tools
+    request.parallel_tool_calls = run.parallel_tool_calls
+    if (run.tool_choice && typeof run.tool_choice === 'object') {
+      if (run.tool_choice.type === 'function' && run.tool_choice.function) {
+        request.tool_choice = {
+          type: 'function',
+          function: { name: run.tool_choice.function.name },
+        }
+      }
+    } else if (run.tool_choice) {
+      request.tool_choice = run.tool_choice
+    }
+  }
+
+  // その他のパラメータ
+  if (typeof run.temperature === 'number') {
+    request.temperature = run.temperature
+  }
+  if (typeof run.top_p === 'number') {
+    request.top_p = run.top_p
+  }
+  if (run.max_completion_tokens !== null) {
+    request.max_completion_tokens = run.max_completion_tokens
+  }
+  if (run.response_format && run.response_format !== 'auto') {
+    request.response_format =
+      run.response_format as ChatCompletionCreateParams['response_format']
+  }
+
+  return request
+}
+
+/**
+ * Assistants APIのツール定義からfunction toolのみをChat Completions APIのツール定義に変換します。
+ * @param {AssistantTool[]} tools Assistants APIのツール定義
+ * @returns {ChatCompletionTool[]}
+ */
+function convertAssistantTools(tools: AssistantTool[]): ChatCompletionTool[] {
+  return tools.flatMap(tool =>
+    tool.type === 'function'
+      ? [{ type: 'function', function: tool.function } as ChatCompletionTool]
+      : [],
+  )
+}
+
+/**
+ * スレッドのメッセージをChat Completions APIのメッセージに変換します。
+ * @param {Message} message スレッドのメッセージ
+ * @returns {ChatCompletionMessageParam}
+ */
+function convertThreadMessage(message: Message): ChatCompletionMessageParam {
+  if (message.role === 'assistant') {
+    return {
+      role: 'assistant',
+      content: message.content
+        .map(content => (content.type === 'text' ? content.text.value : ''))
+        .join(''),
+    }
+  }
+
+  return {
+    role: 'user',
+    content: message.content.map(convertMessageContent),
+  }
+}
+
+/**
+ * メッセージのコンテンツをChat Completions APIのコンテンツパートに変換します。
+ * @param {MessageContent} content メッセージのコンテンツ
+ * @returns {ChatCompletionContentPart}
+ */
+function convertMessageContent(
+  content: MessageContent,
+): ChatCompletionContentPart {
+  switch (content.type) {
+    case 'text':
+      return { type: 'text', text: content.text.value }
+    case 'image_url':
+      return {
+        type: 'image_url',
+        image_url: {
+          url: content.image_url.url,
+          detail: content.image_url.detail,
+        },
+      }
+    case 'image_file':
+      return {
+        type: 'text',
+        text: `[Image File]: ${content.image_file.file_id}`,
+      }
+    case 'refusal':
+      return { type: 'text', text: content.refusal }
+  }
+}
+
+/**
+ * メッセージ作成時のcontentパラメータをメッセージのコンテンツに変換します。
+ * @param {MessageCreateParams['content']} content メッセージ作成時のcontent
+ * @returns {MessageContent[]}
+ */
+export function convertMessageCreateContent(
+  content: MessageCreateParams['content'],
+): MessageContent[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: { value: content, annotations: [] } }]
+  }
+
+  return content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: { value: part.text, annotations: [] } }
+      case 'image_url':
+        return { type: 'image_url', image_url: part.image_url }
+      case 'image_file':
+        return { type: 'image_file', image_file: part.image_file }
+    }
+  })
+}
@@ -0,0 +1,352 @@
+import type {
+  Completion,
+  CompletionCreateParams,
+} from 'openai/resources/completions'
+import * as vscode from 'vscode'
+import { isTextPart } from '../server/handler'
+import { generateRandomId } from '../utils'
+import { logger } from '../utils/logger'
+import {
+  applyMaxTokens,
+  isMaxTokensReached,
+  type MaxTokensContext,
+} from './maxTokensConverter'
+import {
+  applyStopSequences,
+  type StopSequenceContext,
+} from './stopSequenceConverter'
+
+/**
+ * OpenAI Completions API（レガシー）のCompletionCreateParamsリクエストを
+ * VSCode拡張APIのチャットリクエスト形式に変換します。
+ * VSCode LM APIはテキスト補完を直接サポートしないため、promptとsuffixから
+ * FIM（Fill-in-the-Middle）形式の指示文を組み立て、単一のUserメッセージとして送信します。
+ * @param {CompletionCreateParams} completionRequest OpenAI Completions APIのリクエストパラメータ
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {{ messages: vscode.LanguageModelChatMessage[], options: vscode.LanguageModelChatRequestOptions, inputTokens: number }}
+ *   VSCode拡張API用のチャットメッセージ配列とオプション、入力トークン数
+ */
+export async function convertOpenAICompletionRequestToVSCodeRequest(
+  completionRequest: CompletionCreateParams,
+  vsCodeModel: vscode.LanguageModelChat,
+): Promise<{
+  messages: vscode.LanguageModelChatMessage[]
+  options: vscode.LanguageModelChatRequestOptions
+  inputTokens: number
+}> {
+  logger.debug('Converting OpenAI completion request to VSCode request')
+
+  // prompt/suffixからFIM形式の指示文を生成
+  const prompt = getCompletionPrompt(completionRequest)
+  const suffix = completionRequest.suffix ?? ''
+  const instruction = suffix
+    ? buildFillInTheMiddleInstruction(prompt, suffix)
+    : buildContinuationInstruction(prompt)
+
+  const messages = [
+    new vscode.LanguageModelChatMessage(
+      vscode.LanguageModelChatMessageRole.User,
+      instruction,
+      'User',
+    ),
+  ]
+
+  // --- input tokens計算 ---
+  let inputTokens = 0
+  for (const msg of messages) {
+    inputTokens += await vsCodeModel.countTokens(msg)
+  }
+
+  // --- options生成 ---
+  const options: vscode.LanguageModelChatRequestOptions = {}
+
+  // その他のパラメータはmodelOptionsにまとめて渡す
+  const modelOptions: { [name: string]: unknown } = {}
+  const modelOptionKeys: (keyof CompletionCreateParams)[] = [
+    'best_of',
+    'frequency_penalty',
+    'logit_bias',
+    'logprobs',
+    'max_tokens',
+    'n',
+    'presence_penalty',
+    'seed',
+    'stop',
+    'stream',
+    'stream_options',
+    'temperature',
+    'top_p',
+    'user',
+  ]
+
+  // --- その他のオプションをmodelOptionsに追加 ---
+  for (const key of modelOptionKeys) {
+    const value = completionRequest[key]
+    if (value !== undefined && value !== null) {
+      modelOptions[key] = value
+    }
+  }
+  if (Object.keys(modelOptions).length > 0) {
+    options.modelOptions = modelOptions
+  }
+
+  // --- 変換結果をログ出力 ---
+  logger.debug('Converted OpenAI completion request to VSCode request', {
+    messages,
+    options,
+    inputTokens,
+  })
+
+  return { messages, options, inputTokens }
+}
+
+/**
+ * Completions APIリクエストからprompt文字列を取り出します。
+ * 文字列または要素1つの文字列配列のみをサポートします。
+ * @param completionRequest OpenAI Completions APIのリクエストパラメータ
+ * @returns prompt文字列
+ */
+export function getCompletionPrompt(
+  completionRequest: CompletionCreateParams,
+): string {
+  const prompt = completionRequest.prompt
+  if (prompt === null || prompt === undefined) {
+    return ''
+  }
+  if (typeof prompt === 'string') {
+    return prompt
+  }
+  if (
+    Array.isArray(prompt) &&
+    prompt.length === 1 &&
+    typeof prompt[0] === 'string'
+  ) {
+    return prompt[0]
+  }
+
+  // トークン配列や複数promptは変換できない
+  const message =
+    'Only a single string prompt is supported (token arrays and multiple prompts are not supported)'
+  const error: vscode.LanguageModelError = {
+    ...new Error(message),
+    message,
+    name: 'InvalidMessageFormat',
+    code: 'invalid_prompt',
+  }
+  throw error
+}
+
+/**
+ * prompt（カーソルより前）とsuffix（カーソルより後）からFIM形式の指示文を生成します。
+ * @param prompt カーソルより前のテキスト
+ * @param suffix カーソルより後のテキスト
+ * @returns モデルへの指示文
+ */
+export function buildFillInTheMiddleInstruction(
+  prompt: string,
+  suffix: string,
+): string {
+  return [
+    'You are a code completion engine. Fill in the text that belongs at <FILL_HERE> between the prefix and the suffix below.',
+    'Respond with only the text to insert. Do not repeat the prefix or the suffix, do not add explanations, and do not wrap the answer in Markdown code fences.',
+    '',
+    '<PREFIX>',
+    `${prompt}<FILL_HERE>`,
+    '</PREFIX>',
+    '<SUFFIX>',
+    suffix,
+    '</SUFFIX>',
+  ].join('\n')
+}
+
+/**
+ * suffixがない場合の続き生成用の指示文を生成します。
+ * @param prompt 続きを生成する対象のテキスト
+ * @returns モデルへの指示文
+ */
+function buildContinuationInstruction(prompt: string): string {
+  return [
+    'You are a text completion engine. Continue the text below from exactly where it ends.',
+    'Respond with only the continuation. Do not repeat the given text, do not add explanations, and do not wrap the answer in Markdown code fences.',
+    '',
+    '<TEXT>',
+    prompt,
+    '</TEXT>',
+  ].join('\n')
+}
+
+/**
+ * VSCodeのLanguageModelChatResponseをOpenAI Completions APIのCompletion形式に変換します。
+ * ストリーミングの場合はCompletionチャンクのAsyncIterableを返し、
+ * 非ストリーミングの場合は全文をCompletion形式で返します。
+ * @param vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param isStreaming ストリーミングかどうか
+ * @param inputTokens 入力トークン数
+ * @param echoPrompt echo指定時に先頭へ付与するprompt（echoしない場合はundefined）
+ * @param stopSequences 停止シーケンスのコンテキスト（stopが指定された場合のみ）
+ * @param maxTokens 最大出力トークン数のコンテキスト（max_tokensが指定された場合のみ）
+ * @returns Completion または AsyncIterable<Completion>
+ */
+export function convertVSCodeResponseToOpenAICompletionResponse(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+  isStreaming: boolean,
+  inputTokens: number,
+  echoPrompt?: string,
+  stopSequences?: StopSequenceContext,
+  maxTokens?: MaxTokensContext,
+): Promise<Completion> | AsyncIterable<Completion> {
+  // 停止シーケンスが指定された場合は一致した時点で出力を打ち切る
+  const stoppedParts = stopSequences
+    ? applyStopSequences(vscodeResponse.stream, stopSequences)
+    : vscodeResponse.stream
+  // 最大出力トークン数が指定された場合は上限に達した時点で出力を打ち切る
+  const parts = maxTokens
+    ? applyMaxTokens(stoppedParts, vsCodeModel, maxTokens)
+    : stoppedParts
+
+  // ストリーミングの場合
+  if (isStreaming) {
+    return convertVSCodeStreamToOpenAICompletionChunks(
+      parts,
+      vsCodeModel,
+      inputTokens,
+      echoPrompt,
+    )
+  }
+  // 非ストリーミングの場合
+  return convertVSCodeTextToOpenAICompletion(
+    parts,
+    vsCodeModel,
+    inputTokens,
+    echoPrompt,
+  )
+}
+
+/**
+ * VSCodeのストリームをOpenAI Completions APIのCompletionチャンクのAsyncIterableに変換します。
+ * @param stream VSCodeのストリーム
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @param echoPrompt echo指定時に先頭へ付与するprompt
+ * @returns AsyncIterable<Completion>
+ */
+async function* convertVSCodeStreamToOpenAICompletionChunks(
+  stream: AsyncIterable<vscode.LanguageModelTextPart | unknown>,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+  echoPrompt?: string,
+): AsyncIterable<Completion> {
+  // チャンクIDとタイムスタンプ生成
+  const id = `cmpl-${generateRandomId()}`
+  const created = Math.floor(Date.now() / 1000)
+
+  let outputTokens = 0 // 出力トークン数
+  let isTruncated = false // 最大出力トークン数で打ち切ったかどうか
+
+  // チャンクを生成
+  const createChunk = (
+    text: string,
+    finishReason: Completion['choices'][number]['finish_reason'] | null,
+  ): Completion => ({
+    id,
+    object: 'text_completion',
+    created,
+    model: vsCodeModel.id,
+    choices: [
+      {
+        index: 0,
+        text,
+        logprobs: null,
+        // ストリーミング途中のチャンクではfinish_reasonはnull
+        finish_reason:
+          finishReason as Completion['choices'][number]['finish_reason'],
+      },
+    ],
+  })
+
+  // echo指定時はpromptを最初のチャンクとして送信
+  if (echoPrompt) {
+    yield createChunk(echoPrompt, null)
+  }
+
+  // テキストパートのみをチャンクとして送信（ツールコールは無視）
+  for await (const part of stream) {
+    if (isMaxTokensReached(part)) {
+      isTruncated = true
+    } else if (isTextPart(part)) {
+      yield createChunk(part.value, null)
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    }
+  }
+
+  // 終了チャンクを生成（最大出力トークン数で打ち切った場合はlength）
+  yield {
+    ...createChunk('', isTruncated ? 'length' : 'stop'),
+    usage: {
+      completion_tokens: outputTokens,
+      prompt_tokens: inputTokens,
+      total_tokens: inputTokens + outputTokens,
+    },
+  }
+}
+
+/**
+ * 非ストリーミング: VSCodeのストリームをOpenAI Completions APIのCompletion形式に変換します。
+ * @param stream VSCodeのストリーム
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @param echoPrompt echo指定時に先頭へ付与するprompt
+ * @returns Promise<Completion>
+ */
+async function convertVSCodeTextToOpenAICompletion(
+  stream: AsyncIterable<vscode.LanguageModelTextPart | unknown>,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+  echoPrompt?: string,
+): Promise<Completion> {
+  // IDとタイムスタンプ生成
+  const id = `cmpl-${generateRandomId()}`
+  const created = Math.floor(Date.now() / 1000)
+
+  let textBuffer = ''
+  let outputTokens = 0 // 出力トークン数
+  let isTruncated = false // 最大出力トークン数で打ち切ったかどうか
+
+  // ストリームからテキストパートを順次取得
+  for await (const part of stream) {
+    if (isMaxTokensReached(part)) {
+      isTruncated = true
+    } else if (isTextPart(part)) {
+      textBuffer += part.value
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    }
+  }
+
+  // Completionオブジェクトを返却
+  return {
+    id,
+    object: 'text_completion',
+    created,
+    model: vsCodeModel.id,
+    choices: [
+      {
+        index: 0,
+        text: (echoPrompt ?? '') + textBuffer,
+        logprobs: null,
+        // 最大出力トークン数で打ち切った場合はlength
+        finish_reason: isTruncated ? 'length' : 'stop',
+      },
+    ],
+    usage: {
+      completion_tokens: outputTokens,
+      prompt_tokens: inputTokens,
+      total_tokens: inputTokens + outputTokens,
+    },
+  }
+}
@@ -2,12 +2,62 @@ import type {
   Chat,
   ChatCompletion,
   ChatCompletionChunk,
+  ChatCompletionContentPart,
   ChatCompletionCreateParams,
 } from 'openai/resources'
 import * as vscode from 'vscode'
-import { isTextPart, isToolCallPart } from '../server/handler'
+import { isTextPart, isThinkingPart, isToolCallPart } from '../server/handler'
+import {
+  enforceStructuredOutput,
+  getStructuredOutputInstruction,
+  isStructuredOutputRefusal,
+  type StructuredOutputContext,
+} from '../structuredOutput/enforcer'
+import {
+  type AgentLoopContext,
+  formatAgentToolStep,
+  isAgentToolStep,
+  runAgentLoop,
+} from '../tools/agentLoop'
+import { withInjectedVSCodeTools } from '../tools/vscodeTools'
 import { generateRandomId } from '../utils'
 import { logger } from '../utils/logger'
+import {
+  createImageDataPartFromURL,
+  type LanguageModelChatMessagePart,
+} from './dataPartConverter'
+import {
+  convertOpenAIFilePart,
+  createCitationContext,
+  loadOpenAIFiles,
+} from './documentConverter'
+import {
+  applyMaxTokens,
+  isMaxTokensReached,
+  type MaxTokensContext,
+} from './maxTokensConverter'
+import {
+  applyStopSequences,
+  isStopSequenceMatch,
+  type StopSequenceContext,
+} from './stopSequenceConverter'
+import {
+  applySystemPromptStrategy,
+  createSystemPrompt,
+  type SystemPrompt,
+} from './systemPromptConverter'
+import { getThinkingText } from './thinkingConverter'
+import {
+  applyToolChoice,
+  keepFirstToolCall,
+  type ToolChoice,
+} from './toolChoiceConverter'
+
+/**
+ * 思考過程（reasoning_content）を含むメッセージまたは差分
+ * OpenAIの仕様にはないが、OpenAI互換APIで広く使われているフィールド
+ */
+type WithReasoningContent<T> = T & { reasoning_content?: string }
 
 /**
  * OpenAI APIのChatCompletionCreateParamsリクエストをVSCode拡張APIのチャットリクエスト形式に変換します。
@@ -29,18 +79,39 @@ export async function convertOpenAIRequestToVSCodeRequest(
 }> {
   logger.debug('Converting OpenAI request to VSCode request')
 
+  // fileパートで参照されているアップロード済みファイルを読み込む
+  const files = await loadOpenAIFiles(
+    openaiRequest.messages.flatMap(msg =>
+      Array.isArray(msg.content)
+        ? msg.content.filter(
+            (c): c is ChatCompletionContentPart.File => c.type === 'file',
+          )
+        : [],
+    ),
+  )
+  // fileパートのドキュメントの採番に使用
+  const citationContext = createCitationContext()
+
+  // レガシーなfunction_callに割り当てたコールID（関数名→コールID）
+  const functionCallIds = new Map<string, string>()
+
   // OpenAIのmessagesをVSCodeのLanguageModelChatMessage[]に変換
-  const messages: vscode.LanguageModelChatMessage[] =
+  // system / developerメッセージはシステムプロンプトとして残し、後で設定された渡し方で変換する
+  const convertedMessages: (vscode.LanguageModelChatMessage | SystemPrompt)[] =
     openaiRequest.messages.map(msg => {
+      if (msg.role === 'system' || msg.role === 'developer') {
+        const text =
+          typeof msg.content === 'string'
+            ? msg.content
+            : msg.content.map(c => c.text).join('\n')
+        return createSystemPrompt(
+          text,
+          msg.role === 'system' ? 'System' : 'Developer',
+        )
+      }
+
       let role: vscode.LanguageModelChatMessageRole
-      let content:
-        | string
-        | Array<
-            | vscode.LanguageModelTextPart
-            | vscode.LanguageModelToolResultPart
-            | vscode.LanguageModelToolCallPart
-          > = ''
-      let prefix = ''
+      let content: string | LanguageModelChatMessagePart[] = ''
       let name = 'Assistant'
 
       // ロール変換
@@ -53,47 +124,38 @@ export async function convertOpenAIRequestToVSCodeRequest(
           role = vscode.LanguageModelChatMessageRole.Assistant
           name = 'Assistant'
           break
-        case 'developer':
-          role = vscode.LanguageModelChatMessageRole.Assistant
-          prefix = '[DEVELOPER] '
-          name = 'Developer'
-          break
-        case 'system':
-          role = vscode.LanguageModelChatMessageRole.Assistant
-          prefix = '[SYSTEM] '
-          name = 'System'
-          break
         case 'tool':
-          role = vscode.LanguageModelChatMessageRole.Assistant
-          prefix = '[TOOL] '
-          name = 'Tool'
+          // ツールの実行結果はUserメッセージのLanguageModelToolResultPartとして渡す
+          role = vscode.LanguageModelChatMessageRole.User
+          name = 'User'
           break
         case 'function':
-          role = vscode.LanguageModelChatMessageRole.Assistant
-          prefix = '[FUNCTION] '
-          name = 'Function'
+          // レガシーな関数の実行結果もLanguageModelToolResultPartとして渡す
+          role = vscode.LanguageModelChatMessageRole.User
+          name = 'User'
           break
       }
 
       // contentの変換（string or array）
       if (typeof msg.content === 'string') {
-        content = prefix + msg.content
+        content = msg.content
       } else if (Array.isArray(msg.content)) {
-        content = msg.content.map(c => {
+        content = msg.content.flatMap(c => {
           switch (c.type) {
             case 'text':
               return new vscode.LanguageModelTextPart(c.text)
             case 'image_url':
-              return new vscode.LanguageModelTextPart(
-                `[Image URL]: ${JSON.stringify(c.image_url)}`,
-              )
+              return createImageDataPartFromURL(vsCodeModel, c.image_url.url)
             case 'input_audio':
               return new vscode.LanguageModelTextPart(
                 `[Input Audio]: ${JSON.stringify(c.input_audio)}`,
               )
             case 'file':
-              return new vscode.LanguageModelTextPart(
-                `[File]: ${JSON.stringify(c.file)}`,
+              return convertOpenAIFilePart(
+                c.file,
+                files,
+                vsCodeModel,
+                citationContext,
               )
             case 'refusal':
               return new vscode.LanguageModelTextPart(`[Refusal]: ${c.refusal}`)
@@ -101,9 +163,89 @@ export async function convertOpenAIRequestToVSCodeRequest(
         })
       }
 
-      return new vscode.LanguageModelChatMessage(role, content, name)
+      // toolメッセージはtool_call_idに対応するLanguageModelToolResultPartに変換
+      if (msg.role === 'tool') {
+        const text =
+          typeof msg.content === 'string'
+            ? msg.content
+            : msg.content.map(c => c.text).join('')
+        content = [
+          new vscode.LanguageModelToolResultPart(msg.tool_call_id, [
+            new vscode.LanguageModelTextPart(text),
+          ]),
+        ]
+      }
+
+      // functionメッセージは直前のfunction_callのコールIDに対応するLanguageModelToolResultPartに変換
+      if (msg.role === 'function') {
+        const callId =
+          functionCallIds.get(msg.name) ?? `call_${generateRandomId()}`
+        content = [
+          new vscode.LanguageModelToolResultPart(callId, [
+            new vscode.LanguageModelTextPart(msg.content ?? ''),
+          ]),
+        ]
+      }
+
+      // assistantのレガシーなfunction_callはコールIDを割り当ててLanguageModelToolCallPartに変換
+      if (msg.role === 'assistant' && msg.function_call) {
+        const callId = `call_${generateRandomId()}`
+        functionCallIds.set(msg.function_call.name, callId)
+        const parts =
+          typeof content === 'string'
+            ? content
+              ? [new vscode.LanguageModelTextPart(content)]
+              : []
+            : content
+        content = [
+          ...parts,
+          new vscode.LanguageModelToolCallPart(
+            callId,
+            msg.function_call.name,
+            parseToolCallArguments(msg.function_call.arguments),
+          ),
+        ]
+      }
+
+      // assistantのtool_callsはLanguageModelToolCallPartに変換
+      if (msg.role === 'assistant' && msg.tool_calls?.length) {
+        const parts =
+          typeof content === 'string'
+            ? content
+              ? [new vscode.LanguageModelTextPart(content)]
+              : []
+            : content
+        content = [
+          ...parts,
+          ...msg.tool_calls.map(
+            toolCall =>
+              new vscode.LanguageModelToolCallPart(
+                toolCall.id,
+                toolCall.function.name,
+                parseToolCallArguments(toolCall.function.arguments),
+              ),
+          ),
+        ]
+      }
+
+      return new vscode.LanguageModelChatMessage(
+        role,
+        content as vscode.LanguageModelChatMessage['content'],
+        name,
+      )
     })
 
+  // response_formatが構造化出力の場合は出力形式の指示を先頭に追加
+  const instruction = getStructuredOutputInstruction(
+    openaiRequest.response_format,
+  )
+  if (instruction) {
+    convertedMessages.unshift(createSystemPrompt(instruction))
+  }
+
+  // システムプロンプトを変換し、連続する同じロールのメッセージ（並列のツールコールの結果など）をまとめる
+  const messages = applySystemPromptStrategy(convertedMessages, vsCodeModel)
+
   // --- input tokens計算 ---
   let inputTokens = 0
   for (const msg of messages) {
@@ -113,32 +255,6 @@ export async function convertOpenAIRequestToVSCodeRequest(
   // --- options生成 ---
   const options: vscode.LanguageModelChatRequestOptions = {}
 
-  // tool_choice変換
-  if (
-    'tool_choice' in openaiRequest &&
-    openaiRequest.tool_choice !== undefined
-  ) {
-    const tc = openaiRequest.tool_choice
-    if (typeof tc === 'string') {
-      // 'auto' | 'required' | 'none' の場合
-      switch (tc) {
-        case 'auto':
-          options.toolMode = vscode.LanguageModelChatToolMode.Auto
-          break
-        case 'required':
-          options.toolMode = vscode.LanguageModelChatToolMode.Required
-          break
-        case 'none':
-          // VSCode APIにOff/Noneは存在しないためAutoにフォールバック
-          options.toolMode = vscode.LanguageModelChatToolMode.Auto
-          break
-      }
-    } else {
-      // 'function' の場合
-      options.toolMode = vscode.LanguageModelChatToolMode.Auto
-    }
-  }
-
   // tools変換
   if ('tools' in openaiRequest && Array.isArray(openaiRequest.tools)) {
     options.tools = openaiRequest.tools.map(tool => {
@@ -150,6 +266,45 @@ export async function convertOpenAIRequestToVSCodeRequest(
         ? { ...base, inputSchema: tool.function.parameters }
         : base
     })
+  } else if (
+    'functions' in openaiRequest &&
+    Array.isArray(openaiRequest.functions)
+  ) {
+    // レガシーなfunctionsはtoolsとして渡す
+    options.tools = openaiRequest.functions.map(fn => {
+      const base = {
+        name: fn.name,
+        description: fn.description ?? '',
+      }
+      return fn.parameters !== undefined
+        ? { ...base, inputSchema: fn.parameters }
+        : base
+    })
+  }
+
+  // 設定で選択されたVSCodeのツールを追加
+  const tools = withInjectedVSCodeTools(options.tools)
+  if (tools) {
+    options.tools = tools
+  }
+
+  // tool_choice変換（追加したツールにも適用するため、tools変換の後に行う）
+  if (
+    'tool_choice' in openaiRequest &&
+    openaiRequest.tool_choice !== undefined
+  ) {
+    const tc = openaiRequest.tool_choice
+    // 'auto' | 'required' | 'none' または 'function' の場合
+    const toolChoice: ToolChoice =
+      typeof tc === 'string' ? tc : { name: tc.function.name }
+    applyToolChoice(options, toolChoice)
+  } else if (
+    'function_call' in openaiRequest &&
+    openaiRequest.function_call !== undefined
+  ) {
+    // レガシーなfunction_call（'auto' | 'none' または関数名の指定）
+    const fc = openaiRequest.function_call
+    applyToolChoice(options, typeof fc === 'string' ? fc : { name: fc.name })
   }
 
   // その他のパラメータはmodelOptionsにまとめて渡す
@@ -157,15 +312,12 @@ export async function convertOpenAIRequestToVSCodeRequest(
   const modelOptionKeys = [
     'audio',
     'frequency_penalty',
-    'function_call',
-    'functions',
     'logit_bias',
     'logprobs',
     'max_completion_tokens',
     'max_tokens',
     'metadata',
     'modalities',
-    'n',
     'parallel_tool_calls',
     'prediction',
     'presence_penalty',
@@ -204,6 +356,22 @@ export async function convertOpenAIRequestToVSCodeRequest(
   return { messages, options, inputTokens }
 }
 
+/**
+ * ツールコールの引数（JSON文字列）をオブジェクトに変換します。
+ * JSONとして解析できない場合は空のオブジェクトを返します。
+ * @param {string} args ツールコールの引数
+ * @returns {object}
+ */
+function parseToolCallArguments(args: string): object {
+  try {
+    const input = JSON.parse(args || '{}')
+    return typeof input === 'object' && input !== null ? input : {}
+  } catch {
+    logger.warn('Failed to parse tool call arguments', { args })
+    return {}
+  }
+}
+
 /**
  * VSCodeのLanguageModelChatResponseをOpenAIのChatCompletionまたはChatCompletionChunk形式に変換します。
  * ストリーミングの場合はChatCompletionChunkのAsyncIterableを返し、
@@ -212,6 +380,12 @@ export async function convertOpenAIRequestToVSCodeRequest(
  * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
  * @param isStreaming ストリーミングかどうか
  * @param inputTokens 入力トークン数
+ * @param agentLoop エージェントループのコンテキスト（指定時はVSCodeのツールコールをサーバー側で実行）
+ * @param structuredOutput 構造化出力のコンテキスト（指定時はresponse_formatに従っているか検証）
+ * @param stopSequences 停止シーケンスのコンテキスト（指定時は一致した時点で出力を打ち切る）
+ * @param maxTokens 最大出力トークン数のコンテキスト（指定時は上限に達した時点で出力を打ち切る）
+ * @param disableParallelToolCalls 並列のツールコールを無効にするかどうか（最初のツールコールだけを返す）
+ * @param useFunctionCall ツールコールをレガシーなfunction_callとして返すかどうか
  * @returns ChatCompletion または AsyncIterable<ChatCompletionChunk>
  */
 export function convertVSCodeResponseToOpenAIResponse(
@@ -219,6 +393,12 @@ export function convertVSCodeResponseToOpenAIResponse(
   vsCodeModel: vscode.LanguageModelChat,
   isStreaming: boolean,
   inputTokens: number,
+  agentLoop?: AgentLoopContext,
+  structuredOutput?: StructuredOutputContext,
+  stopSequences?: StopSequenceContext,
+  maxTokens?: MaxTokensContext,
+  disableParallelToolCalls?: boolean,
+  useFunctionCall?: boolean,
 ): Promise<ChatCompletion> | AsyncIterable<ChatCompletionChunk> {
   // ストリーミングの場合
   if (isStreaming) {
@@ -227,6 +407,12 @@ export function convertVSCodeResponseToOpenAIResponse(
       vscodeResponse.stream,
       vsCodeModel,
       inputTokens,
+      agentLoop,
+      structuredOutput,
+      stopSequences,
+      maxTokens,
+      disableParallelToolCalls,
+      useFunctionCall,
     )
   }
   // 非ストリーミングの場合
@@ -235,6 +421,12 @@ export function convertVSCodeResponseToOpenAIResponse(
     vscodeResponse,
     vsCodeModel,
     inputTokens,
+    agentLoop,
+    structuredOutput,
+    stopSequences,
+    maxTokens,
+    disableParallelToolCalls,
+    useFunctionCall,
   )
 }
 
@@ -243,6 +435,12 @@ export function convertVSCodeResponseToOpenAIResponse(
  * @param stream VSCodeのストリーム
  * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
  * @param inputTokens 入力トークン数
+ * @param agentLoop エージェントループのコンテキスト（指定時は実行したツールの途中経過をテキストとして送信）
+ * @param structuredOutput 構造化出力のコンテキスト（指定時は検証後のテキストをまとめて送信）
+ * @param stopSequences 停止シーケンスのコンテキスト（指定時は一致した時点で送信を打ち切る）
+ * @param maxTokens 最大出力トークン数のコンテキスト（指定時は上限に達した時点で送信を打ち切る）
+ * @param disableParallelToolCalls 並列のツールコールを無効にするかどうか（最初のツールコールだけを送信）
+ * @param useFunctionCall ツールコールをレガシーなfunction_callとして送信するかどうか
  * @returns AsyncIterable<ChatCompletionChunk>
  */
 async function* convertVSCodeStreamToOpenAIChunks(
@@ -251,6 +449,12 @@ async function* convertVSCodeStreamToOpenAIChunks(
   >,
   vsCodeModel: vscode.LanguageModelChat,
   inputTokens: number,
+  agentLoop?: AgentLoopContext,
+  structuredOutput?: StructuredOutputContext,
+  stopSequences?: StopSequenceContext,
+  maxTokens?: MaxTokensContext,
+  disableParallelToolCalls?: boolean,
+  useFunctionCall?: boolean,
 ): AsyncIterable<ChatCompletionChunk> {
   // チャンクIDとタイムスタンプ生成
   const randomId = `chatcmpl-${generateRandomId()}`
@@ -259,11 +463,43 @@ async function* convertVSCodeStreamToOpenAIChunks(
   let isRoleSent = false
   let toolCallIndex = 0
   let isToolCalled = false // tool_callが出現したかどうか
+  let isTruncated = false // 最大出力トークン数で打ち切ったかどうか
 
   let outputTokens = 0 // 出力トークン数
 
+  // 並列のツールコールが無効な場合は最初のツールコールだけを残す
+  const toolCallParts = disableParallelToolCalls
+    ? keepFirstToolCall(stream)
+    : stream
+  // エージェントループ有効時はVSCodeのツールコールをサーバー側で実行
+  const loopParts = agentLoop
+    ? runAgentLoop(toolCallParts, vsCodeModel, agentLoop)
+    : toolCallParts
+  // 構造化出力の場合はresponse_formatに従っているか検証
+  const structuredParts = structuredOutput
+    ? enforceStructuredOutput(loopParts, vsCodeModel, structuredOutput)
+    : loopParts
+  // 停止シーケンスが指定された場合は一致した時点で出力を打ち切る
+  const stoppedParts = stopSequences
+    ? applyStopSequences(structuredParts, stopSequences)
+    : structuredParts
+  // 最大出力トークン数が指定された場合は上限に達した時点で出力を打ち切る
+  const parts = maxTokens
+    ? applyMaxTokens(stoppedParts, vsCodeModel, maxTokens)
+    : stoppedParts
+
   // ストリーミングチャンクを生成
-  for await (const part of stream) {
+  for await (const part of parts) {
+    // 停止シーケンスに一致した場合は終了チャンク（finish_reason: stop）のみ送信
+    if (isStopSequenceMatch(part)) {
+      continue
+    }
+    // 最大出力トークン数に達した場合は終了チャンク（finish_reason: length）のみ送信
+    if (isMaxTokensReached(part)) {
+      isTruncated = true
+      continue
+    }
+
     // チャンクの初期化
     const chunk: ChatCompletionChunk = {
       choices: [
@@ -296,30 +532,64 @@ async function* convertVSCodeStreamToOpenAIChunks(
       },
     }
 
-    // テキストパートの場合
-    if (isTextPart(part)) {
+    // テキストパート、またはサーバー側で実行したツールの途中経過の場合
+    if (isTextPart(part) || isAgentToolStep(part)) {
+      const text = isTextPart(part) ? part.value : formatAgentToolStep(part)
+      if (!isRoleSent) {
+        chunk.choices[0].delta.role = 'assistant'
+        isRoleSent = true
+      }
+      chunk.choices[0].delta.content = text
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(text)
+    }
+    // 思考過程のパートの場合はreasoning_contentとして送信
+    else if (isThinkingPart(part)) {
+      const text = getThinkingText(part)
+      if (!isRoleSent) {
+        chunk.choices[0].delta.role = 'assistant'
+        isRoleSent = true
+      }
+      const delta: WithReasoningContent<ChatCompletionChunk.Choice.Delta> =
+        chunk.choices[0].delta
+      delta.reasoning_content = text
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(text)
+    }
+    // 構造化出力を拒否した場合
+    else if (isStructuredOutputRefusal(part)) {
       if (!isRoleSent) {
         chunk.choices[0].delta.role = 'assistant'
         isRoleSent = true
       }
-      chunk.choices[0].delta.content = part.value
+      chunk.choices[0].delta.refusal = part.refusal
 
       // 出力トークン数を加算
-      outputTokens += await vsCodeModel.countTokens(part.value)
+      outputTokens += await vsCodeModel.countTokens(part.refusal)
     }
     // ツールコールパートの場合
     else if (isToolCallPart(part)) {
-      chunk.choices[0].delta.tool_calls = [
-        {
-          index: toolCallIndex++,
-          id: part.callId,
-          type: 'function',
-          function: {
-            name: part.name,
-            arguments: JSON.stringify(part.input),
+      if (useFunctionCall) {
+        // レガシーなfunction_callとして送信
+        chunk.choices[0].delta.function_call = {
+          name: part.name,
+          arguments: JSON.stringify(part.input),
+        }
+      } else {
+        chunk.choices[0].delta.tool_calls = [
+          {
+            index: toolCallIndex++,
+            id: part.callId,
+            type: 'function',
+            function: {
+              name: part.name,
+              arguments: JSON.stringify(part.input),
+            },
           },
-        },
-      ]
+        ]
+      }
 
       // ツールコールもトークン数に加算
       outputTokens += await vsCodeModel.countTokens(JSON.stringify(part))
@@ -336,7 +606,13 @@ async function* convertVSCodeStreamToOpenAIChunks(
       {
         index: 0,
         delta: {},
-        finish_reason: isToolCalled ? 'tool_calls' : 'stop',
+        finish_reason: isTruncated
+          ? 'length'
+          : isToolCalled
+            ? useFunctionCall
+              ? 'function_call'
+              : 'tool_calls'
+            : 'stop',
       },
     ],
     created,
@@ -368,12 +644,24 @@ async function* convertVSCodeStreamToOpenAIChunks(
  * @param vscodeResponse VSCodeのLanguageModelChatResponse
  * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
  * @param inputTokens 入力トークン数
+ * @param agentLoop エージェントループのコンテキスト（指定時は実行したツールの途中経過をテキストに含める）
+ * @param structuredOutput 構造化出力のコンテキスト（指定時はresponse_formatに従っているか検証）
+ * @param stopSequences 停止シーケンスのコンテキスト（指定時は一致した時点で出力を打ち切る）
+ * @param maxTokens 最大出力トークン数のコンテキスト（指定時は上限に達した時点で出力を打ち切る）
+ * @param disableParallelToolCalls 並列のツールコールを無効にするかどうか（最初のツールコールだけを返す）
+ * @param useFunctionCall ツールコールをレガシーなfunction_callとして返すかどうか
  * @returns Promise<ChatCompletion>
  */
 async function convertVSCodeTextToOpenAICompletion(
   vscodeResponse: vscode.LanguageModelChatResponse,
   vsCodeModel: vscode.LanguageModelChat,
   inputTokens: number,
+  agentLoop?: AgentLoopContext,
+  structuredOutput?: StructuredOutputContext,
+  stopSequences?: StopSequenceContext,
+  maxTokens?: MaxTokensContext,
+  disableParallelToolCalls?: boolean,
+  useFunctionCall?: boolean,
 ): Promise<ChatCompletion> {
   // チャットIDとタイムスタンプ生成
   const id = `chatcmpl-${generateRandomId()}`
@@ -381,19 +669,60 @@ async function convertVSCodeTextToOpenAICompletion(
 
   // contentとtoolCallsの初期化
   let textBuffer = ''
+  let reasoningBuffer = ''
+  let refusal: string | null = null
   const toolCalls: Chat.Completions.ChatCompletionMessageToolCall[] = []
   let isToolCalled = false
+  let isTruncated = false
 
   let outputTokens = 0 // 出力トークン数
 
+  // 並列のツールコールが無効な場合は最初のツールコールだけを残す
+  const toolCallParts = disableParallelToolCalls
+    ? keepFirstToolCall(vscodeResponse.stream)
+    : vscodeResponse.stream
+  // エージェントループ有効時はVSCodeのツールコールをサーバー側で実行
+  const loopParts = agentLoop
+    ? runAgentLoop(toolCallParts, vsCodeModel, agentLoop)
+    : toolCallParts
+  // 構造化出力の場合はresponse_formatに従っているか検証
+  const structuredParts = structuredOutput
+    ? enforceStructuredOutput(loopParts, vsCodeModel, structuredOutput)
+    : loopParts
+  // 停止シーケンスが指定された場合は一致した時点で出力を打ち切る
+  const stoppedParts = stopSequences
+    ? applyStopSequences(structuredParts, stopSequences)
+    : structuredParts
+  // 最大出力トークン数が指定された場合は上限に達した時点で出力を打ち切る
+  const parts = maxTokens
+    ? applyMaxTokens(stoppedParts, vsCodeModel, maxTokens)
+    : stoppedParts
+
   // ストリームからパートを順次取得
-  for await (const part of vscodeResponse.stream) {
-    if (isTextPart(part)) {
-      // テキストはバッファに連結
-      textBuffer += part.value
+  for await (const part of parts) {
+    if (isTextPart(part) || isAgentToolStep(part)) {
+      // テキスト（ツールの途中経過を含む）はバッファに連結
+      const text = isTextPart(part) ? part.value : formatAgentToolStep(part)
+      textBuffer += text
 
       // 出力トークン数を加算
-      outputTokens += await vsCodeModel.countTokens(part.value)
+      outputTokens += await vsCodeModel.countTokens(text)
+    } else if (isThinkingPart(part)) {
+      // 思考過程はreasoning_contentとして返す
+      const text = getThinkingText(part)
+      reasoningBuffer += text
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(text)
+    } else if (isMaxTokensReached(part)) {
+      // 最大出力トークン数で打ち切った場合はfinish_reasonをlengthにする
+      isTruncated = true
+    } else if (isStructuredOutputRefusal(part)) {
+      // 構造化出力の拒否はrefusalに設定
+      refusal = part.refusal
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.refusal)
     } else if (isToolCallPart(part)) {
       // ツールはtoolCallsに追加
       toolCalls.push({
@@ -412,17 +741,33 @@ async function convertVSCodeTextToOpenAICompletion(
     }
   }
 
+  // messageオブジェクトの生成（思考過程がある場合はreasoning_contentを追加）
+  const message: WithReasoningContent<Chat.Completions.ChatCompletionMessage> =
+    {
+      role: 'assistant',
+      content: refusal !== null && !textBuffer ? null : textBuffer,
+      refusal,
+      // レガシーなfunction_callの場合は最初のツールコールをfunction_callとして返す
+      tool_calls: isToolCalled && !useFunctionCall ? toolCalls : undefined,
+      function_call:
+        isToolCalled && useFunctionCall ? toolCalls[0].function : undefined,
+    }
+  if (reasoningBuffer) {
+    message.reasoning_content = reasoningBuffer
+  }
+
   // choiceオブジェクトの生成
   const choice: Chat.Completions.ChatCompletion.Choice = {
     index: 0,
-    message: {
-      role: 'assistant',
-      content: textBuffer,
-      refusal: null,
-      tool_calls: isToolCalled ? toolCalls : undefined,
-    },
+    message,
     logprobs: null,
-    finish_reason: isToolCalled ? 'tool_calls' : 'stop',
+    finish_reason: isTruncated
+      ? 'length'
+      : isToolCalled
+        ? useFunctionCall
+          ? 'function_call'
+          : 'tool_calls'
+        : 'stop',
   }
 
   // ChatCompletionオブジェクトを返却
@@ -451,3 +796,108 @@ async function convertVSCodeTextToOpenAICompletion(
     },
   }
 }
+
+/**
+ * n > 1 の場合に、選択肢ごとのChatCompletionを1つのChatCompletionにまとめます。
+ * - choicesのindexは選択肢の順番に振り直す
+ * - usageはプロンプトを1回分、出力トークン数を全選択肢の合計として集計
+ * @param {ChatCompletion[]} completions 選択肢ごとのChatCompletion
+ * @returns {ChatCompletion}
+ */
+export function mergeOpenAICompletions(
+  completions: ChatCompletion[],
+): ChatCompletion {
+  const [first] = completions
+  const promptTokens = first.usage?.prompt_tokens ?? 0
+  const completionTokens = completions.reduce(
+    (sum, completion) => sum + (completion.usage?.completion_tokens ?? 0),
+    0,
+  )
+
+  return {
+    ...first,
+    choices: completions.map((completion, index) => ({
+      ...completion.choices[0],
+      index,
+    })),
+    usage: {
+      completion_tokens: completionTokens,
+      prompt_tokens: promptTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  }
+}
+
+/**
+ * n > 1 の場合に、選択肢ごとのChatCompletionChunkのストリームを1つのストリームにまとめます。
+ * - 各ストリームのチャンクは到着順に交互に送信し、choicesのindexは選択肢の順番に振り直す
+ * - チャンクのidとcreatedは最初の選択肢のものに揃える
+ * - usageは各選択肢のチャンクから取り除き、stream_options.include_usageが指定された場合のみ最後にchoicesが空のチャンクで合計を送信
+ * - 途中で終了した場合は残りの選択肢のストリームも終了させる
+ * @param {AsyncIterable<ChatCompletionChunk>[]} streams 選択肢ごとのストリーム
+ * @param {boolean} includeUsage 使用量のチャンクを送信するかどうか
+ * @returns {AsyncIterable<ChatCompletionChunk>}
+ */
+export async function* mergeOpenAIChunkStreams(
+  streams: AsyncIterable<ChatCompletionChunk>[],
+  includeUsage: boolean,
+): AsyncIterable<ChatCompletionChunk> {
+  const iterators = streams.map(stream => stream[Symbol.asyncIterator]())
+  const next = (index: number) =>
+    iterators[index].next().then(result => ({ index, result }))
+
+  // 選択肢ごとの次のチャンクの取得待ち
+  const pending = new Map(iterators.map((_, index) => [index, next(index)]))
+
+  let header: Pick<ChatCompletionChunk, 'id' | 'created'> | undefined
+  let promptTokens = 0
+  let completionTokens = 0
+  let lastChunk: ChatCompletionChunk | undefined
+
+  try {
+    while (pending.size > 0) {
+      const { index, result } = await Promise.race(pending.values())
+      if (result.done) {
+        pending.delete(index)
+        continue
+      }
+      pending.set(index, next(index))
+
+      const { usage, ...chunk } = result.value
+      if (usage) {
+        promptTokens = usage.prompt_tokens
+        completionTokens += usage.completion_tokens
+      }
+      header ??= { id: chunk.id, created: chunk.created }
+      lastChunk = result.value
+
+      yield {
+        ...chunk,
+        ...header,
+        choices: chunk.choices.map(choice => ({ ...choice, index })),
+      }
+    }
+  } finally {
+    // エラーやクライアントの切断で途中で終了した場合は、残りの選択肢のLM APIへのリクエストも終了させる
+    for (const [index, result] of pending) {
+      result.catch(() => undefined)
+      Promise.resolve(iterators[index].return?.()).catch(() => undefined)
+    }
+  }
+
+  if (!includeUsage || !lastChunk || !header) {
+    return
+  }
+
+  // 全選択肢の使用量を集計したチャンクを送信
+  yield {
+    ...lastChunk,
+    ...header,
+    choices: [],
+    usage: {
+      completion_tokens: completionTokens,
+      prompt_tokens: promptTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  }
+}
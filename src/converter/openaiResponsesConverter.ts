@@ -0,0 +1,783 @@
+import type {
+  FunctionTool,
+  Response,
+  ResponseCreateParams,
+  ResponseFunctionToolCall,
+  ResponseInputContent,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseOutputMessage,
+  ResponseOutputRefusal,
+  ResponseOutputText,
+  ResponseStreamEvent,
+} from 'openai/resources/responses/responses'
+import * as vscode from 'vscode'
+import { isTextPart, isToolCallPart } from '../server/handler'
+import { generateRandomId } from '../utils'
+import { logger } from '../utils/logger'
+import {
+  createImageDataPartFromURL,
+  type LanguageModelChatMessagePart,
+} from './dataPartConverter'
+import {
+  applyMaxTokens,
+  isMaxTokensReached,
+  type MaxTokensContext,
+} from './maxTokensConverter'
+import {
+  applySystemPromptStrategy,
+  createSystemPrompt,
+  isSystemPrompt,
+  type SystemPrompt,
+} from './systemPromptConverter'
+import { applyToolChoice, type ToolChoice } from './toolChoiceConverter'
+
+/**
+ * 変換途中のメッセージ（同じロールの連続するパートをまとめるために利用）
+ */
+type PendingMessage = {
+  role: vscode.LanguageModelChatMessageRole
+  name: string
+  parts: LanguageModelChatMessagePart[]
+}
+
+/**
+ * OpenAI Responses APIのResponseCreateParamsリクエストをVSCode拡張APIのチャットリクエスト形式に変換します。
+ * instructions, input（文字列またはアイテム配列）, tools, tool_choice等をVSCodeの型にマッピングし、
+ * VSCode APIがサポートしないパラメータはmodelOptionsに集約します。
+ * function_callアイテムはLanguageModelToolCallPartに、function_call_outputアイテムは
+ * LanguageModelToolResultPartに変換して、複数ターンのツール呼び出しを再現します。
+ * @param {ResponseCreateParams} responsesRequest OpenAI Responses APIのリクエストパラメータ
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {{ messages: vscode.LanguageModelChatMessage[], options: vscode.LanguageModelChatRequestOptions, inputTokens: number }}
+ *   VSCode拡張API用のチャットメッセージ配列とオプション、入力トークン数
+ */
+export async function convertOpenAIResponsesRequestToVSCodeRequest(
+  responsesRequest: ResponseCreateParams,
+  vsCodeModel: vscode.LanguageModelChat,
+): Promise<{
+  messages: vscode.LanguageModelChatMessage[]
+  options: vscode.LanguageModelChatRequestOptions
+  inputTokens: number
+}> {
+  logger.debug('Converting OpenAI Responses request to VSCode request')
+
+  const pendingMessages: (PendingMessage | SystemPrompt)[] = []
+
+  // 直前のメッセージと同じロールならパートを追加、異なれば新しいメッセージを作成
+  const pushParts = (
+    role: vscode.LanguageModelChatMessageRole,
+    name: string,
+    parts: PendingMessage['parts'],
+  ) => {
+    const last = pendingMessages[pendingMessages.length - 1]
+    if (
+      last &&
+      !isSystemPrompt(last) &&
+      last.role === role &&
+      last.name === name
+    ) {
+      last.parts.push(...parts)
+      return
+    }
+    pendingMessages.push({ role, name, parts: [...parts] })
+  }
+
+  // システムプロンプト（instructions / system / developerメッセージ）を追加
+  const pushSystemPrompt = (text: string, name: string) => {
+    pendingMessages.push(createSystemPrompt(text, name))
+  }
+
+  // instructionsがあればシステムプロンプトとして先頭に追加
+  if (responsesRequest.instructions) {
+    pushSystemPrompt(responsesRequest.instructions, 'System')
+  }
+
+  // inputの変換（string or ResponseInputItem[]）
+  const input = responsesRequest.input
+  if (typeof input === 'string') {
+    pushParts(vscode.LanguageModelChatMessageRole.User, 'User', [
+      new vscode.LanguageModelTextPart(input),
+    ])
+  } else if (Array.isArray(input)) {
+    for (const item of input) {
+      convertInputItem(item, vsCodeModel, pushParts, pushSystemPrompt)
+    }
+  }
+
+  // VSCodeのLanguageModelChatMessage[]を生成し、システムプロンプトを変換
+  const messages = applySystemPromptStrategy(
+    pendingMessages.map(msg =>
+      isSystemPrompt(msg)
+        ? msg
+        : new vscode.LanguageModelChatMessage(
+            msg.role,
+            msg.parts as vscode.LanguageModelChatMessage['content'],
+            msg.name,
+          ),
+    ),
+    vsCodeModel,
+  )
+
+  // --- input tokens計算 ---
+  let inputTokens = 0
+  for (const msg of messages) {
+    inputTokens += await vsCodeModel.countTokens(msg)
+  }
+
+  // --- options生成 ---
+  const options: vscode.LanguageModelChatRequestOptions = {}
+
+  // tools変換（function toolのみ対応）
+  if (Array.isArray(responsesRequest.tools)) {
+    options.tools = responsesRequest.tools
+      .filter((tool): tool is FunctionTool => tool.type === 'function')
+      .map(tool => {
+        const base = {
+          name: tool.name,
+          description: tool.description ?? '',
+        }
+        return tool.parameters
+          ? { ...base, inputSchema: tool.parameters }
+          : base
+      })
+
+    // 未対応のツール種別はログに残す
+    const unsupportedTools = responsesRequest.tools.filter(
+      tool => tool.type !== 'function',
+    )
+    if (unsupportedTools.length > 0) {
+      logger.debug('Unsupported Responses API tools are ignored', {
+        types: unsupportedTools.map(tool => tool.type),
+      })
+    }
+  }
+
+  // tool_choice変換（指定されたツールに絞り込むため、tools変換の後に行う）
+  if (responsesRequest.tool_choice !== undefined) {
+    const tc = responsesRequest.tool_choice
+    // 'auto' | 'required' | 'none' または 'function' の場合
+    // ホスト型ツール（file_search等）の指定はautoにフォールバック
+    const toolChoice: ToolChoice =
+      typeof tc === 'string'
+        ? tc
+        : tc.type === 'function'
+          ? { name: tc.name }
+          : 'auto'
+    applyToolChoice(options, toolChoice)
+  }
+
+  // その他のパラメータはmodelOptionsにまとめて渡す
+  const modelOptions: { [name: string]: unknown } = {}
+  const modelOptionKeys: (keyof ResponseCreateParams)[] = [
+    'background',
+    'include',
+    'metadata',
+    'parallel_tool_calls',
+    'previous_response_id',
+    'reasoning',
+    'service_tier',
+    'store',
+    'stream',
+    'temperature',
+    'text',
+    'top_p',
+    'truncation',
+    'user',
+  ]
+
+  // --- その他のオプションをmodelOptionsに追加 ---
+  for (const key of modelOptionKeys) {
+    const value = responsesRequest[key]
+    if (value !== undefined && value !== null) {
+      modelOptions[key] = value
+    }
+  }
+  if (Object.keys(modelOptions).length > 0) {
+    options.modelOptions = modelOptions
+  }
+
+  // --- 変換結果をログ出力 ---
+  logger.debug('Converted OpenAI Responses request to VSCode request', {
+    messages,
+    options,
+    inputTokens,
+  })
+
+  return { messages, options, inputTokens }
+}
+
+/**
+ * Responses APIのinputアイテム1件をVSCodeのメッセージパートに変換し、pushPartsで追加します。
+ * @param item Responses APIのinputアイテム
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス（画像入力の変換に使用）
+ * @param pushParts メッセージパート追加用の関数
+ * @param pushSystemPrompt システムプロンプト追加用の関数
+ */
+function convertInputItem(
+  item: ResponseInputItem,
+  vsCodeModel: vscode.LanguageModelChat,
+  pushParts: (
+    role: vscode.LanguageModelChatMessageRole,
+    name: string,
+    parts: PendingMessage['parts'],
+  ) => void,
+  pushSystemPrompt: (text: string, name: string) => void,
+): void {
+  // typeが省略されている場合はメッセージとして扱う
+  const type = item.type ?? 'message'
+
+  switch (type) {
+    case 'message': {
+      const msg = item as Extract<ResponseInputItem, { role: string }>
+
+      // system / developerメッセージはシステムプロンプトとして扱う
+      if (msg.role === 'system' || msg.role === 'developer') {
+        const text =
+          typeof msg.content === 'string'
+            ? msg.content
+            : (msg.content as ResponseInputContent[])
+                .flatMap(c => (c.type === 'input_text' ? [c.text] : []))
+                .join('\n')
+        pushSystemPrompt(text, msg.role === 'system' ? 'System' : 'Developer')
+        break
+      }
+
+      let role: vscode.LanguageModelChatMessageRole
+      let name = 'Assistant'
+
+      // ロール変換
+      switch (msg.role) {
+        case 'user':
+          role = vscode.LanguageModelChatMessageRole.User
+          name = 'User'
+          break
+        case 'assistant':
+          role = vscode.LanguageModelChatMessageRole.Assistant
+          name = 'Assistant'
+          break
+      }
+
+      // contentの変換（string or array）
+      if (typeof msg.content === 'string') {
+        pushParts(role, name, [new vscode.LanguageModelTextPart(msg.content)])
+      } else if (Array.isArray(msg.content)) {
+        pushParts(
+          role,
+          name,
+          (
+            msg.content as Array<
+              ResponseInputContent | ResponseOutputText | ResponseOutputRefusal
+            >
+          ).map(c => {
+            switch (c.type) {
+              case 'input_text':
+              case 'output_text':
+                return new vscode.LanguageModelTextPart(c.text)
+              case 'input_image':
+                // LM APIは外部URLやfile_idを扱えないため、data URLのみ対応
+                return createImageDataPartFromURL(
+                  vsCodeModel,
+                  c.image_url ?? '',
+                )
+              case 'input_file':
+                return new vscode.LanguageModelTextPart(
+                  `[File]: ${JSON.stringify(c)}`,
+                )
+              case 'refusal':
+                return new vscode.LanguageModelTextPart(
+                  `[Refusal]: ${c.refusal}`,
+                )
+            }
+          }),
+        )
+      }
+      break
+    }
+    case 'function_call': {
+      // ツール呼び出しはassistantのLanguageModelToolCallPartに変換
+      const call = item as ResponseFunctionToolCall
+      pushParts(vscode.LanguageModelChatMessageRole.Assistant, 'Assistant', [
+        new vscode.LanguageModelToolCallPart(
+          call.call_id,
+          call.name,
+          parseToolArguments(call.arguments),
+        ),
+      ])
+      break
+    }
+    case 'function_call_output': {
+      // ツール実行結果はuserのLanguageModelToolResultPartに変換
+      const output = item as ResponseInputItem.FunctionCallOutput
+      pushParts(vscode.LanguageModelChatMessageRole.User, 'User', [
+        new vscode.LanguageModelToolResultPart(output.call_id, [
+          new vscode.LanguageModelTextPart(output.output),
+        ]),
+      ])
+      break
+    }
+    case 'reasoning':
+      // 推論アイテムはVSCode LM APIに渡せないため無視
+      break
+    default:
+      pushParts(vscode.LanguageModelChatMessageRole.Assistant, 'Assistant', [
+        new vscode.LanguageModelTextPart(
+          `[Unknown Type] ${JSON.stringify(item)}`,
+        ),
+      ])
+      break
+  }
+}
+
+/**
+ * function_callのarguments文字列をオブジェクトに変換します。
+ * JSONとして解釈できない場合は生の文字列を保持したオブジェクトを返します。
+ * @param args arguments文字列
+ * @returns ツール入力オブジェクト
+ */
+function parseToolArguments(args: string): object {
+  try {
+    const parsed = JSON.parse(args)
+    return typeof parsed === 'object' && parsed !== null
+      ? parsed
+      : { value: parsed }
+  } catch {
+    return { arguments: args }
+  }
+}
+
+/**
+ * VSCodeのLanguageModelChatResponseをOpenAI Responses APIのResponseまたはResponseStreamEvent形式に変換します。
+ * ストリーミングの場合はResponseStreamEventのAsyncIterableを返し、
+ * 非ストリーミングの場合は全文をResponse形式で返します。
+ * @param vscodeResponse VSCodeのLanguageModelChatResponse
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param isStreaming ストリーミングかどうか
+ * @param inputTokens 入力トークン数
+ * @param responsesRequest 元のResponses APIリクエスト（レスポンスへのパラメータ反映用）
+ * @param maxTokens 最大出力トークン数のコンテキスト（max_output_tokensが指定された場合のみ）
+ * @returns Response または AsyncIterable<ResponseStreamEvent>
+ */
+export function convertVSCodeResponseToOpenAIResponsesResponse(
+  vscodeResponse: vscode.LanguageModelChatResponse,
+  vsCodeModel: vscode.LanguageModelChat,
+  isStreaming: boolean,
+  inputTokens: number,
+  responsesRequest: ResponseCreateParams,
+  maxTokens?: MaxTokensContext,
+): Promise<Response> | AsyncIterable<ResponseStreamEvent> {
+  // 最大出力トークン数が指定された場合は上限を超える出力を切り詰める
+  const parts = maxTokens
+    ? applyMaxTokens(vscodeResponse.stream, vsCodeModel, maxTokens)
+    : vscodeResponse.stream
+
+  // ストリーミングの場合
+  if (isStreaming) {
+    return convertVSCodeStreamToOpenAIResponsesEvents(
+      parts,
+      vsCodeModel,
+      inputTokens,
+      responsesRequest,
+    )
+  }
+  // 非ストリーミングの場合
+  return convertVSCodeTextToOpenAIResponse(
+    parts,
+    vsCodeModel,
+    inputTokens,
+    responsesRequest,
+  )
+}
+
+/**
+ * Responseオブジェクトの雛形を生成します。
+ * リクエストで指定されたパラメータをレスポンスに反映します。
+ * @param id レスポンスID
+ * @param createdAt 作成日時（UNIX秒）
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param responsesRequest 元のResponses APIリクエスト
+ * @returns Responseオブジェクト
+ */
+function createResponseObject(
+  id: string,
+  createdAt: number,
+  vsCodeModel: vscode.LanguageModelChat,
+  responsesRequest: ResponseCreateParams,
+): Response {
+  return {
+    id,
+    object: 'response',
+    created_at: createdAt,
+    status: 'in_progress',
+    error: null,
+    incomplete_details: null,
+    instructions: responsesRequest.instructions ?? null,
+    max_output_tokens: responsesRequest.max_output_tokens ?? null,
+    metadata: responsesRequest.metadata ?? null,
+    model: vsCodeModel.id,
+    output: [],
+    output_text: '',
+    parallel_tool_calls: responsesRequest.parallel_tool_calls ?? true,
+    previous_response_id: responsesRequest.previous_response_id ?? null,
+    reasoning: responsesRequest.reasoning ?? null,
+    temperature: responsesRequest.temperature ?? null,
+    text: responsesRequest.text,
+    tool_choice: responsesRequest.tool_choice ?? 'auto',
+    tools: responsesRequest.tools ?? [],
+    top_p: responsesRequest.top_p ?? null,
+    truncation: responsesRequest.truncation ?? null,
+    user: responsesRequest.user,
+  }
+}
+
+/**
+ * 入出力トークン数からResponseUsageを生成します。
+ * @param inputTokens 入力トークン数
+ * @param outputTokens 出力トークン数
+ * @returns ResponseUsage
+ */
+function createUsage(
+  inputTokens: number,
+  outputTokens: number,
+): Response['usage'] {
+  return {
+    input_tokens: inputTokens,
+    input_tokens_details: { cached_tokens: 0 },
+    output_tokens: outputTokens,
+    output_tokens_details: { reasoning_tokens: 0 },
+    total_tokens: inputTokens + outputTokens,
+  }
+}
+
+/**
+ * 出力の終了理由からResponseのstatusとincomplete_detailsを生成します。
+ * @param incomplete 最大出力トークン数に達したかどうか
+ * @returns statusとincomplete_details
+ */
+function createResponseStatus(
+  incomplete: boolean,
+): Pick<Response, 'status' | 'incomplete_details'> {
+  return incomplete
+    ? {
+        status: 'incomplete',
+        incomplete_details: { reason: 'max_output_tokens' },
+      }
+    : { status: 'completed', incomplete_details: null }
+}
+
+/**
+ * VSCodeのストリームをOpenAI Responses APIのResponseStreamEvent列に変換します。
+ * - テキストパートはmessageアイテム内のoutput_textとして
+ *   output_item.added → content_part.added → output_text.delta → output_text.done → content_part.done → output_item.done で表現
+ * - ツールコールパートはfunction_callアイテムとして
+ *   output_item.added → function_call_arguments.delta → function_call_arguments.done → output_item.done で表現
+ * - 最初にresponse.created, response.in_progress、最後にresponse.completedを送信
+ *   （最大出力トークン数に達した場合はresponse.completedの代わりにresponse.incompleteを送信）
+ * @param stream VSCodeのストリーム
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @param responsesRequest 元のResponses APIリクエスト
+ * @returns AsyncIterable<ResponseStreamEvent>
+ */
+async function* convertVSCodeStreamToOpenAIResponsesEvents(
+  stream: AsyncIterable<
+    vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart | unknown
+  >,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+  responsesRequest: ResponseCreateParams,
+): AsyncIterable<ResponseStreamEvent> {
+  // レスポンスIDとタイムスタンプ生成
+  const response = createResponseObject(
+    `resp_${generateRandomId()}`,
+    Math.floor(Date.now() / 1000),
+    vsCodeModel,
+    responsesRequest,
+  )
+
+  let sequenceNumber = 0
+  let outputTokens = 0 // 出力トークン数
+  let outputText = '' // 全テキスト（output_text用）
+
+  // 出力中のmessageアイテム
+  let currentMessage: ResponseOutputMessage | null = null
+  let currentText = ''
+
+  // 最大出力トークン数に達したかどうか
+  let incomplete = false
+
+  // --- response.created / response.in_progressイベント送信 ---
+  yield {
+    type: 'response.created',
+    sequence_number: sequenceNumber++,
+    response: { ...response, output: [] },
+  }
+  yield {
+    type: 'response.in_progress',
+    sequence_number: sequenceNumber++,
+    response: { ...response, output: [] },
+  }
+
+  // 出力中のmessageアイテムを閉じるイベントを生成
+  const closeMessage = function* (
+    status: ResponseOutputMessage['status'],
+  ): Generator<ResponseStreamEvent> {
+    if (!currentMessage) {
+      return
+    }
+    const outputIndex = response.output.length
+    const textPart: ResponseOutputText = {
+      type: 'output_text',
+      text: currentText,
+      annotations: [],
+    }
+    yield {
+      type: 'response.output_text.done',
+      sequence_number: sequenceNumber++,
+      item_id: currentMessage.id,
+      output_index: outputIndex,
+      content_index: 0,
+      text: currentText,
+    }
+    yield {
+      type: 'response.content_part.done',
+      sequence_number: sequenceNumber++,
+      item_id: currentMessage.id,
+      output_index: outputIndex,
+      content_index: 0,
+      part: textPart,
+    }
+    const doneMessage: ResponseOutputMessage = {
+      ...currentMessage,
+      status,
+      content: [textPart],
+    }
+    yield {
+      type: 'response.output_item.done',
+      sequence_number: sequenceNumber++,
+      output_index: outputIndex,
+      item: doneMessage,
+    }
+    response.output.push(doneMessage)
+    currentMessage = null
+    currentText = ''
+  }
+
+  // --- ストリームを順次処理 ---
+  for await (const part of stream) {
+    // 最大出力トークン数に達した場合
+    if (isMaxTokensReached(part)) {
+      incomplete = true
+    }
+    // テキストパートの場合
+    else if (isTextPart(part)) {
+      const outputIndex = response.output.length
+
+      // messageアイテム開始
+      if (!currentMessage) {
+        currentMessage = {
+          id: `msg_${generateRandomId()}`,
+          type: 'message',
+          role: 'assistant',
+          status: 'in_progress',
+          content: [],
+        }
+        yield {
+          type: 'response.output_item.added',
+          sequence_number: sequenceNumber++,
+          output_index: outputIndex,
+          item: currentMessage,
+        }
+        yield {
+          type: 'response.content_part.added',
+          sequence_number: sequenceNumber++,
+          item_id: currentMessage.id,
+          output_index: outputIndex,
+          content_index: 0,
+          part: { type: 'output_text', text: '', annotations: [] },
+        }
+      }
+
+      // テキスト差分を送信
+      yield {
+        type: 'response.output_text.delta',
+        sequence_number: sequenceNumber++,
+        item_id: currentMessage.id,
+        output_index: outputIndex,
+        content_index: 0,
+        delta: part.value,
+      }
+      currentText += part.value
+      outputText += part.value
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    }
+    // ツールコールパートの場合
+    else if (isToolCallPart(part)) {
+      // 出力中のmessageアイテムを閉じる
+      yield* closeMessage('completed')
+
+      const outputIndex = response.output.length
+      const args = JSON.stringify(part.input ?? {})
+      const functionCall: ResponseFunctionToolCall = {
+        id: `fc_${generateRandomId()}`,
+        type: 'function_call',
+        call_id: part.callId,
+        name: part.name,
+        arguments: '',
+        status: 'in_progress',
+      }
+
+      // function_callアイテム開始
+      yield {
+        type: 'response.output_item.added',
+        sequence_number: sequenceNumber++,
+        output_index: outputIndex,
+        item: functionCall,
+      }
+      yield {
+        type: 'response.function_call_arguments.delta',
+        sequence_number: sequenceNumber++,
+        item_id: functionCall.id as string,
+        output_index: outputIndex,
+        delta: args,
+      }
+      yield {
+        type: 'response.function_call_arguments.done',
+        sequence_number: sequenceNumber++,
+        item_id: functionCall.id as string,
+        output_index: outputIndex,
+        arguments: args,
+      }
+
+      // function_callアイテム終了
+      const doneFunctionCall: ResponseFunctionToolCall = {
+        ...functionCall,
+        arguments: args,
+        status: 'completed',
+      }
+      yield {
+        type: 'response.output_item.done',
+        sequence_number: sequenceNumber++,
+        output_index: outputIndex,
+        item: doneFunctionCall,
+      }
+      response.output.push(doneFunctionCall)
+
+      // ツールコールもトークン数に加算
+      outputTokens += await vsCodeModel.countTokens(JSON.stringify(part))
+    }
+  }
+
+  // --- 最後のmessageアイテムが未終了なら閉じる ---
+  yield* closeMessage(incomplete ? 'incomplete' : 'completed')
+
+  // --- response.completed / response.incompleteイベント送信 ---
+  const doneResponse: Response = {
+    ...response,
+    ...createResponseStatus(incomplete),
+    output_text: outputText,
+    usage: createUsage(inputTokens, outputTokens),
+  }
+  if (incomplete) {
+    yield {
+      type: 'response.incomplete',
+      sequence_number: sequenceNumber++,
+      response: doneResponse,
+    }
+    return
+  }
+  yield {
+    type: 'response.completed',
+    sequence_number: sequenceNumber++,
+    response: doneResponse,
+  }
+}
+
+/**
+ * 非ストリーミング: VSCodeのストリームをOpenAI Responses APIのResponse形式に変換します。
+ * @param stream VSCodeのストリーム
+ * @param vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param inputTokens 入力トークン数
+ * @param responsesRequest 元のResponses APIリクエスト
+ * @returns Promise<Response>
+ */
+async function convertVSCodeTextToOpenAIResponse(
+  stream: AsyncIterable<
+    vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart | unknown
+  >,
+  vsCodeModel: vscode.LanguageModelChat,
+  inputTokens: number,
+  responsesRequest: ResponseCreateParams,
+): Promise<Response> {
+  const response = createResponseObject(
+    `resp_${generateRandomId()}`,
+    Math.floor(Date.now() / 1000),
+    vsCodeModel,
+    responsesRequest,
+  )
+
+  const output: ResponseOutputItem[] = []
+  let textBuffer = ''
+  let outputText = ''
+  let outputTokens = 0 // 出力トークン数
+  let incomplete = false // 最大出力トークン数に達したかどうか
+
+  // テキストバッファをmessageアイテムとして追加
+  const flushText = (status: ResponseOutputMessage['status']) => {
+    if (!textBuffer) {
+      return
+    }
+    output.push({
+      id: `msg_${generateRandomId()}`,
+      type: 'message',
+      role: 'assistant',
+      status,
+      content: [{ type: 'output_text', text: textBuffer, annotations: [] }],
+    })
+    textBuffer = ''
+  }
+
+  // ストリームからパートを順次取得
+  for await (const part of stream) {
+    if (isMaxTokensReached(part)) {
+      incomplete = true
+    } else if (isTextPart(part)) {
+      // テキストはバッファに連結
+      textBuffer += part.value
+      outputText += part.value
+
+      // 出力トークン数を加算
+      outputTokens += await vsCodeModel.countTokens(part.value)
+    } else if (isToolCallPart(part)) {
+      // テキストバッファがあればmessageアイテムとして追加
+      flushText('completed')
+
+      // function_callアイテム追加
+      output.push({
+        id: `fc_${generateRandomId()}`,
+        type: 'function_call',
+        call_id: part.callId,
+        name: part.name,
+        arguments: JSON.stringify(part.input ?? {}),
+        status: 'completed',
+      })
+
+      // ツールコールもトークン数に加算
+      outputTokens += await vsCodeModel.countTokens(JSON.stringify(part))
+    }
+  }
+
+  // 残りのテキストバッファを追加
+  flushText(incomplete ? 'incomplete' : 'completed')
+
+  // Responseオブジェクトを返却
+  return {
+    ...response,
+    ...createResponseStatus(incomplete),
+    output,
+    output_text: outputText,
+    usage: createUsage(inputTokens, outputTokens),
+  }
+}
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode'
+import { isTextPart } from '../server/handler'
+import { logger } from '../utils/logger'
+
+/**
+ * 停止シーケンスの検出に必要なリクエストの情報
+ */
+export interface StopSequenceContext {
+  stopSequences: string[]
+  // 停止シーケンスに一致した時点でLM APIへのリクエストをキャンセルする
+  cancellation: vscode.CancellationTokenSource
+}
+
+/**
+ * 停止シーケンスに一致したことを示すパート
+ */
+export interface StopSequenceMatch {
+  type: 'stop_sequence_match'
+  stopSequence: string
+}
+
+/**
+ * 停止シーケンスのコンテキストを生成する
+ * 停止シーケンスが指定されていない場合はundefinedを返す
+ * @param {string | string[] | null | undefined} stop OpenAIのstopまたはAnthropicのstop_sequences
+ * @param {vscode.CancellationTokenSource} cancellation LM APIへのリクエストのキャンセラレーショントークンソース
+ * @returns {StopSequenceContext | undefined}
+ */
+export function createStopSequenceContext(
+  stop: string | string[] | null | undefined,
+  cancellation: vscode.CancellationTokenSource,
+): StopSequenceContext | undefined {
+  const stopSequences = (
+    typeof stop === 'string' ? [stop] : (stop ?? [])
+  ).filter(sequence => sequence.length > 0)
+  if (stopSequences.length === 0) {
+    return undefined
+  }
+  return { stopSequences, cancellation }
+}
+
+/**
+ * StopSequenceMatch型ガード
+ * @param part 判定対象
+ * @returns {boolean}
+ */
+export function isStopSequenceMatch(part: unknown): part is StopSequenceMatch {
+  return (
+    typeof part === 'object' &&
+    part !== null &&
+    (part as StopSequenceMatch).type === 'stop_sequence_match'
+  )
+}
+
+/**
+ * LM APIのレスポンスのストリームに停止シーケンスを適用する
+ * - テキストを走査し、最初に一致した停止シーケンスの直前で出力を打ち切る
+ * - チャンクをまたいで一致する可能性があるテキストの末尾は次のチャンクまで保留
+ *   （保留中に届いたテキスト以外のパートもテキストとの順序を保って保留し、テキスト以外のパートをまたぐ一致も検出する）
+ * - 一致した場合はStopSequenceMatchを出力し、LM APIへのリクエストをキャンセル
+ * @param {AsyncIterable<unknown>} stream レスポンスのストリーム
+ * @param {StopSequenceContext} context 停止シーケンスのコンテキスト
+ * @returns {AsyncIterable<vscode.LanguageModelTextPart | StopSequenceMatch | unknown>}
+ */
+export async function* applyStopSequences(
+  stream: AsyncIterable<unknown>,
+  context: StopSequenceContext,
+): AsyncIterable<vscode.LanguageModelTextPart | StopSequenceMatch | unknown> {
+  // 停止シーケンスの判定のために保留しているテキスト
+  let pending = ''
+  // 保留中に届いたテキスト以外のパートと、その時点の保留中のテキストの長さ
+  let heldParts: { index: number; part: unknown }[] = []
+
+  // 保留中のテキストの先頭から指定した長さまでと、その位置までに届いたテキスト以外のパートを出力
+  const release = function* (length: number): Generator<unknown> {
+    let offset = 0
+    for (const held of heldParts) {
+      if (held.index > length) {
+        break
+      }
+      if (held.index > offset) {
+        yield new vscode.LanguageModelTextPart(
+          pending.slice(offset, held.index),
+        )
+        offset = held.index
+      }
+      yield held.part
+    }
+    if (length > offset) {
+      yield new vscode.LanguageModelTextPart(pending.slice(offset, length))
+    }
+    heldParts = heldParts
+      .filter(held => held.index > length)
+      .map(held => ({ index: held.index - length, part: held.part }))
+    pending = pending.slice(length)
+  }
+
+  for await (const part of stream) {
+    if (!isTextPart(part)) {
+      // 保留中のテキストがなければそのまま出力し、あればテキストとの順序を保って保留
+      if (pending) {
+        heldParts.push({ index: pending.length, part })
+      } else {
+        yield part
+      }
+      continue
+    }
+
+    pending += part.value
+
+    const match = findStopSequence(pending, context.stopSequences)
+    if (match) {
+      // 停止シーケンスより前のテキストとパートだけを出力
+      yield* release(match.index)
+      logger.debug('Stop sequence matched', {
+        stopSequence: match.stopSequence,
+      })
+      yield { type: 'stop_sequence_match', stopSequence: match.stopSequence }
+      context.cancellation.cancel()
+      return
+    }
+
+    // 停止シーケンスの先頭と一致する末尾を除いて出力
+    const holdLength = getPartialMatchLength(pending, context.stopSequences)
+    yield* release(pending.length - holdLength)
+  }
+
+  yield* release(pending.length)
+}
+
+/**
+ * テキスト中で最初に出現する停止シーケンスを検索する
+ * @param {string} text テキスト
+ * @param {string[]} stopSequences 停止シーケンス
+ * @returns {{ index: number, stopSequence: string } | undefined}
+ */
+function findStopSequence(
+  text: string,
+  stopSequences: string[],
+): { index: number; stopSequence: string } | undefined {
+  let match: { index: number; stopSequence: string } | undefined
+  for (const stopSequence of stopSequences) {
+    const index = text.indexOf(stopSequence)
+    if (index !== -1 && (!match || index < match.index)) {
+      match = { index, stopSequence }
+    }
+  }
+  return match
+}
+
+/**
+ * テキストの末尾が停止シーケンスの先頭と一致する最大の長さを返す
+ * @param {string} text テキスト
+ * @param {string[]} stopSequences 停止シーケンス
+ * @returns {number}
+ */
+function getPartialMatchLength(text: string, stopSequences: string[]): number {
+  let length = 0
+  for (const stopSequence of stopSequences) {
+    for (
+      let size = Math.min(stopSequence.length - 1, text.length);
+      size > length;
+      size--
+    ) {
+      if (text.endsWith(stopSequence.slice(0, size))) {
+        length = size
+        break
+      }
+    }
+  }
+  return length
+}
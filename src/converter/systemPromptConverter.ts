@@ -0,0 +1,226 @@
+import * as vscode from 'vscode'
+import { isTextPart } from '../server/handler'
+import { logger } from '../utils/logger'
+
+/**
+ * システムプロンプトの渡し方
+ * - native: Systemロールのメッセージとして渡す（VSCodeが対応していない場合はmerge）
+ * - merge: 先頭のシステムプロンプトは最初のメッセージ（Userの場合）に結合し、途中のものはUserメッセージとして渡す
+ * - preamble: <system>タグで囲んだUserメッセージとして渡す
+ */
+export type SystemPromptStrategy = 'native' | 'merge' | 'preamble'
+
+const SYSTEM_PROMPT_STRATEGIES: SystemPromptStrategy[] = [
+  'native',
+  'merge',
+  'preamble',
+]
+
+/**
+ * 変換前のシステムプロンプト
+ * system / developerメッセージや、プロキシが追加する指示を表す
+ */
+export interface SystemPrompt {
+  type: 'system_prompt'
+  text: string
+  // System / Developer
+  name: string
+}
+
+/**
+ * システムプロンプトを生成する
+ * @param {string} text システムプロンプトのテキスト
+ * @param {string} name 送信者の名前（System / Developer）
+ * @returns {SystemPrompt}
+ */
+export function createSystemPrompt(
+  text: string,
+  name = 'System',
+): SystemPrompt {
+  return { type: 'system_prompt', text, name }
+}
+
+/**
+ * SystemPrompt型ガード
+ * @param message 判定対象
+ * @returns {boolean}
+ */
+export function isSystemPrompt(message: unknown): message is SystemPrompt {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as SystemPrompt).type === 'system_prompt'
+  )
+}
+
+/**
+ * VSCodeがSystemロールに対応しているかどうかを判定する
+ * @returns {boolean}
+ */
+function supportsSystemRole(): boolean {
+  return 'System' in vscode.LanguageModelChatMessageRole
+}
+
+/**
+ * モデルに適用するシステムプロンプトの渡し方を取得する
+ * 設定（vscode-lm-proxy.systemPromptStrategyByFamily）でモデルファミリーの前方一致で指定されたもの（最長一致）を優先し、
+ * なければvscode-lm-proxy.systemPromptStrategyを使用する
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {SystemPromptStrategy}
+ */
+export function getSystemPromptStrategy(
+  vsCodeModel: vscode.LanguageModelChat,
+): SystemPromptStrategy {
+  const config = vscode.workspace.getConfiguration('vscode-lm-proxy')
+  const strategyByFamily = config.get<Record<string, string>>(
+    'systemPromptStrategyByFamily',
+    {},
+  )
+  const family = Object.keys(strategyByFamily)
+    .filter(prefix => vsCodeModel.family.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  const strategy =
+    family !== undefined
+      ? strategyByFamily[family]
+      : config.get<string>('systemPromptStrategy', 'merge')
+
+  if (!SYSTEM_PROMPT_STRATEGIES.includes(strategy as SystemPromptStrategy)) {
+    logger.warn('Unknown system prompt strategy, using merge', { strategy })
+    return 'merge'
+  }
+  if (strategy === 'native' && !supportsSystemRole()) {
+    logger.debug('System role is not supported, using merge')
+    return 'merge'
+  }
+  return strategy as SystemPromptStrategy
+}
+
+/**
+ * システムプロンプトを含むメッセージ列をモデルに渡すメッセージ列に変換する
+ * - システムプロンプトをモデルに設定された渡し方で変換
+ * - 連続する同じロールのメッセージを結合し、UserとAssistantが交互になるようにする
+ * @param {(vscode.LanguageModelChatMessage | SystemPrompt)[]} messages 変換前のメッセージ
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @returns {vscode.LanguageModelChatMessage[]}
+ */
+export function applySystemPromptStrategy(
+  messages: (vscode.LanguageModelChatMessage | SystemPrompt)[],
+  vsCodeModel: vscode.LanguageModelChat,
+): vscode.LanguageModelChatMessage[] {
+  const strategy = getSystemPromptStrategy(vsCodeModel)
+  logger.debug('Applying system prompt strategy', {
+    family: vsCodeModel.family,
+    strategy,
+  })
+
+  // mergeの場合、先頭のシステムプロンプトは最初のメッセージがUserなら結合し、それ以外なら先頭のUserメッセージにする
+  let leadingPrompts: SystemPrompt[] = []
+  let rest = messages
+  if (strategy === 'merge') {
+    const index = messages.findIndex(message => !isSystemPrompt(message))
+    const end = index === -1 ? messages.length : index
+    leadingPrompts = messages.slice(0, end) as SystemPrompt[]
+    rest = messages.slice(end)
+  }
+
+  const converted = rest.map(message =>
+    isSystemPrompt(message) ? convertSystemPrompt(message, strategy) : message,
+  )
+
+  if (leadingPrompts.length > 0) {
+    const text = leadingPrompts.map(prompt => prompt.text).join('\n\n')
+    converted.unshift(
+      new vscode.LanguageModelChatMessage(
+        vscode.LanguageModelChatMessageRole.User,
+        text,
+        'User',
+      ),
+    )
+  }
+
+  // 先頭のUserメッセージは直後のUserメッセージと結合される
+  return mergeConsecutiveMessages(converted)
+}
+
+/**
+ * システムプロンプトを渡し方に応じたメッセージに変換する
+ * @param {SystemPrompt} prompt システムプロンプト
+ * @param {SystemPromptStrategy} strategy システムプロンプトの渡し方
+ * @returns {vscode.LanguageModelChatMessage}
+ */
+function convertSystemPrompt(
+  prompt: SystemPrompt,
+  strategy: SystemPromptStrategy,
+): vscode.LanguageModelChatMessage {
+  switch (strategy) {
+    case 'native':
+      return new vscode.LanguageModelChatMessage(
+        vscode.LanguageModelChatMessageRole.System,
+        prompt.text,
+        prompt.name,
+      )
+    case 'merge':
+      return new vscode.LanguageModelChatMessage(
+        vscode.LanguageModelChatMessageRole.User,
+        prompt.text,
+        'User',
+      )
+    case 'preamble': {
+      const tag = prompt.name.toLowerCase()
+      return new vscode.LanguageModelChatMessage(
+        vscode.LanguageModelChatMessageRole.User,
+        `<${tag}>\n${prompt.text}\n</${tag}>`,
+        'User',
+      )
+    }
+  }
+}
+
+/**
+ * 連続する同じロールのメッセージを結合する
+ * @param {vscode.LanguageModelChatMessage[]} messages メッセージ
+ * @returns {vscode.LanguageModelChatMessage[]}
+ */
+function mergeConsecutiveMessages(
+  messages: vscode.LanguageModelChatMessage[],
+): vscode.LanguageModelChatMessage[] {
+  const merged: vscode.LanguageModelChatMessage[] = []
+  for (const message of messages) {
+    const last = merged[merged.length - 1]
+    if (last && last.role === message.role) {
+      merged[merged.length - 1] = mergeMessages(last, message)
+      continue
+    }
+    merged.push(message)
+  }
+  return merged
+}
+
+/**
+ * 同じロールの2つのメッセージを1つにまとめる
+ * 境界のテキストパートは空行を挟んで1つのテキストパートにする
+ * @param {vscode.LanguageModelChatMessage} first 前のメッセージ
+ * @param {vscode.LanguageModelChatMessage} second 後のメッセージ
+ * @returns {vscode.LanguageModelChatMessage}
+ */
+function mergeMessages(
+  first: vscode.LanguageModelChatMessage,
+  second: vscode.LanguageModelChatMessage,
+): vscode.LanguageModelChatMessage {
+  const head = [...first.content]
+  const tail = [...second.content]
+  const lastPart = head[head.length - 1]
+  const firstPart = tail[0]
+  if (isTextPart(lastPart) && isTextPart(firstPart)) {
+    head[head.length - 1] = new vscode.LanguageModelTextPart(
+      `${lastPart.value}\n\n${firstPart.value}`,
+    )
+    tail.shift()
+  }
+
+  return new vscode.LanguageModelChatMessage(
+    first.role,
+    [...head, ...tail],
+    first.name ?? second.name,
+  )
+}
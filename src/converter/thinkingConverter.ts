@@ -0,0 +1,46 @@
+import * as vscode from 'vscode'
+
+/**
+ * LanguageModelThinkingPartの思考過程のテキストを取得する
+ * @param {vscode.LanguageModelThinkingPart} part 思考過程のパート
+ * @returns {string}
+ */
+export function getThinkingText(
+  part: vscode.LanguageModelThinkingPart,
+): string {
+  return Array.isArray(part.value) ? part.value.join('') : part.value
+}
+
+/**
+ * LanguageModelThinkingPartの署名を取得する
+ * 署名はプロバイダー固有の情報（metadata.signature）として渡される
+ * @param {vscode.LanguageModelThinkingPart} part 思考過程のパート
+ * @returns {string | undefined}
+ */
+export function getThinkingSignature(
+  part: vscode.LanguageModelThinkingPart,
+): string | undefined {
+  const signature = part.metadata?.signature
+  return typeof signature === 'string' ? signature : undefined
+}
+
+/**
+ * 履歴の思考過程をLanguageModelThinkingPartに変換する
+ * VSCodeがLanguageModelThinkingPartに対応していない場合はundefinedを返す
+ * @param {string} thinking 思考過程のテキスト
+ * @param {string} signature 署名
+ * @returns {vscode.LanguageModelThinkingPart | undefined}
+ */
+export function createThinkingPart(
+  thinking: string,
+  signature: string,
+): vscode.LanguageModelThinkingPart | undefined {
+  if (!('LanguageModelThinkingPart' in vscode)) {
+    return undefined
+  }
+  return new vscode.LanguageModelThinkingPart(
+    thinking,
+    undefined,
+    signature ? { signature } : undefined,
+  )
+}
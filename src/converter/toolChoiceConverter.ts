@@ -0,0 +1,77 @@
+import * as vscode from 'vscode'
+import { isToolCallPart } from '../server/handler'
+import { logger } from '../utils/logger'
+
+/**
+ * 各APIのtool_choiceを共通化したもの
+ * - auto: ツールを使うかどうかはモデルが判断
+ * - required: いずれかのツールの使用を強制
+ * - none: ツールを使用しない
+ * - { name }: 指定したツールの使用を強制
+ */
+export type ToolChoice = 'auto' | 'required' | 'none' | { name: string }
+
+/**
+ * tool_choiceをVSCode LM APIのオプションに適用する
+ * VSCode APIにはツールを使用しないモードや特定のツールを指定するモードがないため、
+ * - noneの場合はツールを渡さない
+ * - ツールが指定された場合はそのツールだけをRequiredモードで渡す
+ * ツールの追加（injectVSCodeTools）後に呼び出すこと
+ * @param {vscode.LanguageModelChatRequestOptions} options VSCode LM APIのオプション
+ * @param {ToolChoice} toolChoice tool_choice
+ * @throws 指定されたツールがリクエストのツールに含まれない場合
+ */
+export function applyToolChoice(
+  options: vscode.LanguageModelChatRequestOptions,
+  toolChoice: ToolChoice,
+): void {
+  switch (toolChoice) {
+    case 'auto':
+      options.toolMode = vscode.LanguageModelChatToolMode.Auto
+      return
+    case 'required':
+      options.toolMode = vscode.LanguageModelChatToolMode.Required
+      return
+    case 'none':
+      options.tools = undefined
+      options.toolMode = undefined
+      return
+  }
+
+  const tool = options.tools?.find(tool => tool.name === toolChoice.name)
+  if (!tool) {
+    const message = `Tool ${toolChoice.name} specified in tool_choice is not defined in tools`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+  options.tools = [tool]
+  options.toolMode = vscode.LanguageModelChatToolMode.Required
+}
+
+/**
+ * LM APIのレスポンスのストリームから最初のツールコールだけを残す
+ * 並列のツールコールが無効（parallel_tool_calls: false / disable_parallel_tool_use）な場合に使用
+ * @param {AsyncIterable<unknown>} stream レスポンスのストリーム
+ * @returns {AsyncIterable<unknown>}
+ */
+export async function* keepFirstToolCall(
+  stream: AsyncIterable<unknown>,
+): AsyncIterable<unknown> {
+  let isToolCalled = false
+
+  for await (const part of stream) {
+    if (isToolCallPart(part)) {
+      if (isToolCalled) {
+        logger.debug('Dropped parallel tool call', { name: part.name })
+        continue
+      }
+      isToolCalled = true
+    }
+    yield part
+  }
+}
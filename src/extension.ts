@@ -1,6 +1,9 @@
 // VSCode拡張機能のエントリーポイント
 import * as vscode from 'vscode'
+import { assistantsStore } from './assistants/store'
+import { batchManager } from './batch/manager'
 import { registerCommands } from './commands'
+import { fileManager } from './files/manager'
 import { initializeLmApiHandler } from './server/handler'
 import { serverManager } from './server/manager'
 import { statusBarManager } from './ui/statusbar'
@@ -42,6 +45,18 @@ export async function activate(context: vscode.ExtensionContext) {
   // VSCodeのグローバルストレージをAPIハンドラで利用可能にする
   initializeLmApiHandler(context.globalState)
 
+  // バッチマネージャーにExtensionContextを設定
+  // バッチジョブはグローバルストレージに保存され、サーバー起動時に再開される
+  batchManager.setExtensionContext(context)
+
+  // ファイルマネージャーにExtensionContextを設定
+  // Files APIでアップロードされたファイルはグローバルストレージに保存される
+  fileManager.setExtensionContext(context)
+
+  // AssistantsストアにExtensionContextを設定
+  // Assistants APIのアシスタント・スレッド・Runはグローバルストレージに保存される
+  assistantsStore.setExtensionContext(context)
+
   // 設定に応じて出力パネルを表示
   const config = vscode.workspace.getConfiguration('vscode-lm-proxy')
   const showOnStartup = config.get<boolean>('showOutputOnStartup', true)
@@ -103,12 +118,14 @@ export async function activate(context: vscode.ExtensionContext) {
     modelManager.getClaudeCodeBackgroundModelId() || 'Not selected'
   const claudeCodeThinkingModel =
     modelManager.getClaudeCodeThinkingModelId() || 'Not selected'
+  const geminiModel = modelManager.getGeminiModelId() || 'Not selected'
   const serverStatus = serverManager.isRunning() ? 'Running' : 'Stopped'
   logger.info('LM Proxy extension activated', {
     openaiModel,
     anthropicModel,
     claudeCodeBackgroundModel,
     claudeCodeThinkingModel,
+    geminiModel,
     serverStatus,
   })
 }
@@ -127,6 +144,7 @@ export function deactivate(): Promise<void> | undefined {
   const claudeCodeBackgroundModelId =
     modelManager.getClaudeCodeBackgroundModelId()
   const claudeCodeThinkingModelId = modelManager.getClaudeCodeThinkingModelId()
+  const geminiModelId = modelManager.getGeminiModelId()
 
   // グローバル状態へモデル情報と実行状態を保存
   globalExtensionContext.globalState.update('openaiModelId', openaiModelId)
@@ -142,6 +160,7 @@ export function deactivate(): Promise<void> | undefined {
     'claudeCodeThinkingModelId',
     claudeCodeThinkingModelId,
   )
+  globalExtensionContext.globalState.update('geminiModelId', geminiModelId)
   globalExtensionContext.globalState.update(
     'serverRunning',
     serverManager.isRunning(),
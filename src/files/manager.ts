@@ -0,0 +1,173 @@
+// アップロードされたファイルの保存・取得を行うマネージャー
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type * as vscode from 'vscode'
+import { generateRandomId } from '../utils'
+import { logger } from '../utils/logger'
+
+/**
+ * 保存済みファイルのメタデータ
+ */
+export interface StoredFile {
+  id: string
+  filename: string
+  purpose: string
+  bytes: number
+  createdAt: number
+}
+
+/**
+ * ファイル管理クラス
+ * Files APIでアップロードされたファイルやバッチの出力ファイルを
+ * 拡張機能のグローバルストレージに保存します。
+ * - {id}.json: ファイルのメタデータ
+ * - {id}.data: ファイルの内容
+ */
+class FileManager {
+  // ファイルの保存先ディレクトリ
+  private storageDir: string | null = null
+
+  /**
+   * ExtensionContextをセット（グローバルストレージ利用のため）
+   * @param {vscode.ExtensionContext} context 拡張機能のコンテキスト
+   */
+  public setExtensionContext(context: vscode.ExtensionContext) {
+    this.storageDir = path.join(context.globalStorageUri.fsPath, 'files')
+  }
+
+  /**
+   * ファイルを保存する
+   * @param {string} filename ファイル名
+   * @param {string} purpose ファイルの用途
+   * @param {Buffer} content ファイルの内容
+   * @returns {Promise<StoredFile>} 保存したファイルのメタデータ
+   */
+  public async createFile(
+    filename: string,
+    purpose: string,
+    content: Buffer,
+  ): Promise<StoredFile> {
+    const storageDir = await this.getStorageDir()
+    const file: StoredFile = {
+      id: `file-${generateRandomId()}${generateRandomId()}`,
+      filename,
+      purpose,
+      bytes: content.length,
+      createdAt: Date.now(),
+    }
+
+    await fs.writeFile(path.join(storageDir, `${file.id}.data`), content)
+    await fs.writeFile(
+      path.join(storageDir, `${file.id}.json`),
+      JSON.stringify(file),
+    )
+    logger.info(`File ${file.id} created`, { filename, purpose })
+
+    return file
+  }
+
+  /**
+   * ファイルのメタデータを取得する
+   * @param {string} id ファイルID
+   * @returns {Promise<StoredFile | undefined>} 存在しない場合はundefined
+   */
+  public async getFile(id: string): Promise<StoredFile | undefined> {
+    // パス区切りを含むIDは受け付けない
+    if (!this.isValidId(id)) {
+      return undefined
+    }
+
+    try {
+      const storageDir = await this.getStorageDir()
+      const data = await fs.readFile(
+        path.join(storageDir, `${id}.json`),
+        'utf8',
+      )
+      return JSON.parse(data) as StoredFile
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * 保存済みファイルの一覧を新しい順に取得する
+   * @returns {Promise<StoredFile[]>}
+   */
+  public async listFiles(): Promise<StoredFile[]> {
+    const storageDir = await this.getStorageDir()
+    const entries = await fs.readdir(storageDir)
+    const files: StoredFile[] = []
+
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) {
+        continue
+      }
+      const file = await this.getFile(entry.slice(0, -'.json'.length))
+      if (file) {
+        files.push(file)
+      }
+    }
+
+    return files.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  /**
+   * ファイルの内容を取得する
+   * @param {string} id ファイルID
+   * @returns {Promise<Buffer | undefined>} 存在しない場合はundefined
+   */
+  public async getFileContent(id: string): Promise<Buffer | undefined> {
+    if (!this.isValidId(id)) {
+      return undefined
+    }
+
+    try {
+      const storageDir = await this.getStorageDir()
+      return await fs.readFile(path.join(storageDir, `${id}.data`))
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * ファイルを削除する
+   * @param {string} id ファイルID
+   * @returns {Promise<boolean>} 削除した場合はtrue
+   */
+  public async deleteFile(id: string): Promise<boolean> {
+    if (!(await this.getFile(id))) {
+      return false
+    }
+
+    const storageDir = await this.getStorageDir()
+    await fs.rm(path.join(storageDir, `${id}.json`), { force: true })
+    await fs.rm(path.join(storageDir, `${id}.data`), { force: true })
+    logger.info(`File ${id} deleted`)
+
+    return true
+  }
+
+  /**
+   * ファイルIDの形式をチェックする
+   * @param {string} id ファイルID
+   * @returns {boolean}
+   */
+  private isValidId(id: string): boolean {
+    return /^file-[a-z0-9]+$/.test(id)
+  }
+
+  /**
+   * ファイルの保存先ディレクトリを取得する（存在しない場合は作成）
+   * @returns {Promise<string>}
+   */
+  private async getStorageDir(): Promise<string> {
+    if (!this.storageDir) {
+      throw new Error('File storage is not initialized')
+    }
+    await fs.mkdir(this.storageDir, { recursive: true })
+    return this.storageDir
+  }
+}
+
+// シングルトンインスタンスをエクスポート
+export const fileManager = new FileManager()
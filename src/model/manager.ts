@@ -36,6 +36,10 @@ class ModelManager {
     if (savedClaudeCodeThinkingModelId) {
       this.claudeCodeThinkingModelId = savedClaudeCodeThinkingModelId
     }
+    const savedGeminiModelId = context.globalState.get<string>('geminiModelId')
+    if (savedGeminiModelId) {
+      this.geminiModelId = savedGeminiModelId
+    }
   }
   // 選択中のOpenAIモデルID
   private openaiModelId: string | null = null
@@ -49,6 +53,9 @@ class ModelManager {
   // Claude Code Thinking Model
   private claudeCodeThinkingModelId: string | null = null
 
+  // 選択中のGeminiモデルID
+  private geminiModelId: string | null = null
+
   // サポートするモデルファミリー
   private supportedFamilies = [
     'gpt-4o',
@@ -81,9 +88,14 @@ class ModelManager {
   public readonly onDidChangeClaudeCodeThinkingModelId =
     this._onDidChangeClaudeCodeThinkingModelId.event
 
+  // Geminiモデル変更時のイベントエミッター
+  private readonly _onDidChangeGeminiModelId = new vscode.EventEmitter<void>()
+  public readonly onDidChangeGeminiModelId =
+    this._onDidChangeGeminiModelId.event
+
   /**
    * 利用可能なモデルからモデルを選択する
-   * @param provider APIプロバイダー（'openAI' または 'anthropic'）
+   * @param provider APIプロバイダー（'openAI', 'anthropic', 'gemini' など）
    * @returns 選択したモデルのID
    */
   public async selectModel(
@@ -91,7 +103,8 @@ class ModelManager {
       | 'openAI'
       | 'anthropic'
       | 'claudeCodeBackground'
-      | 'claudeCodeThinking',
+      | 'claudeCodeThinking'
+      | 'gemini',
   ): Promise<string | undefined> {
     try {
       // サポートされているモデルが見つかるまで順番に試す
@@ -178,6 +191,10 @@ class ModelManager {
                 `Selected Claude Code Thinking model: ${this.claudeCodeThinkingModelId}`,
               )
               providerLabel = 'Claude Code Thinking'
+            } else if (provider === 'gemini') {
+              this.setGeminiModelId(selectedItem.model.id)
+              logger.info(`Selected Gemini model: ${this.geminiModelId}`)
+              providerLabel = 'Gemini'
             }
 
             // モデル変更を通知（英語表記）
@@ -232,6 +249,10 @@ class ModelManager {
     return this.claudeCodeThinkingModelId
   }
 
+  public getGeminiModelId(): string | null {
+    return this.geminiModelId
+  }
+
   /**
    * モデルIDを直接設定する
    * @param modelId 設定するモデルID
@@ -293,6 +314,20 @@ class ModelManager {
     this._onDidChangeClaudeCodeThinkingModelId.fire()
   }
 
+  /**
+   * 選択中のGeminiモデルIDをセット・保存
+   */
+  public setGeminiModelId(modelId: string): void {
+    this.geminiModelId = modelId
+    if (this.extensionContext) {
+      this.extensionContext.globalState.update(
+        'geminiModelId',
+        this.geminiModelId,
+      )
+    }
+    this._onDidChangeGeminiModelId.fire()
+  }
+
   /**
    * デフォルトモデルを取得
    * @returns デフォルトモデルのID
@@ -0,0 +1,456 @@
+import type express from 'express'
+import * as vscode from 'vscode'
+import { logger } from '../utils/logger'
+
+/**
+ * LM APIへのリクエストの優先度
+ * - interactive: クライアントが応答を待っているリクエスト
+ * - background: Claude Codeのバックグラウンドモデル（haiku）やバッチのリクエスト
+ */
+export type RequestPriority = 'interactive' | 'background'
+
+// 優先度の高い順
+const PRIORITIES: RequestPriority[] = ['interactive', 'background']
+
+/**
+ * 実行待ちのリクエストのキューがいっぱいの場合のエラー
+ * 再試行までの秒数と同時実行数の上限を含む
+ */
+export interface QueueFullError extends vscode.LanguageModelError {
+  name: 'QueueFull'
+  retryAfter: number
+  limit: number
+}
+
+/**
+ * 実行待ちのリクエスト
+ */
+interface QueuedRequest {
+  // 確保する実行枠の数
+  count: number
+  // 実際に確保した実行枠の数（上限が下げられた場合はcountより少ない）を受け取って開始する
+  start: (slots: number) => void
+  cancel: () => void
+}
+
+/**
+ * モデルごとのリクエストの実行状況
+ */
+interface ModelQueue {
+  running: number
+  waiting: Record<RequestPriority, QueuedRequest[]>
+  // 完了したリクエストの平均所要時間（ミリ秒）。再試行までの秒数の見積もりに使用
+  averageDuration: number
+}
+
+/**
+ * QueueFullError型ガード
+ * @param error 判定対象
+ * @returns {boolean}
+ */
+export function isQueueFullError(error: unknown): error is QueueFullError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as QueueFullError).name === 'QueueFull'
+  )
+}
+
+/**
+ * キューがいっぱいのエラーのレスポンスにRetry-Afterとプロバイダー形式のレート制限のヘッダーを設定する
+ * @param {express.Response} res レスポンス
+ * @param {unknown} error エラー
+ * @param {'openai' | 'anthropic'} [provider] レート制限のヘッダーの形式（省略時はRetry-Afterのみ）
+ */
+export function setRetryAfterHeaders(
+  res: express.Response,
+  error: unknown,
+  provider?: 'openai' | 'anthropic',
+): void {
+  if (!isQueueFullError(error) || res.headersSent) {
+    return
+  }
+
+  res.setHeader('Retry-After', String(error.retryAfter))
+  const reset = new Date(Date.now() + error.retryAfter * 1000)
+  switch (provider) {
+    case 'openai':
+      res.setHeader('x-ratelimit-limit-requests', String(error.limit))
+      res.setHeader('x-ratelimit-remaining-requests', '0')
+      res.setHeader('x-ratelimit-reset-requests', `${error.retryAfter}s`)
+      break
+    case 'anthropic':
+      res.setHeader('anthropic-ratelimit-requests-limit', String(error.limit))
+      res.setHeader('anthropic-ratelimit-requests-remaining', '0')
+      res.setHeader('anthropic-ratelimit-requests-reset', reset.toISOString())
+      break
+  }
+}
+
+/**
+ * LM APIへのリクエストのスケジューラー
+ * モデルごとに同時実行数を制限し、上限を超えるリクエストは優先度ごとのキューで待たせる。
+ * interactiveのキューの待ち数が上限に達した場合はQueueFullErrorをスローする。
+ * backgroundのリクエストは呼び出し元（バッチなど）で流量を制限しているため、待ち数によらず実行枠が空くまで待つ。
+ * 実行枠はレスポンスのストリームを読み終えた時点（またはキャンセル時）に解放する。
+ */
+class RequestScheduler {
+  // モデルIDごとの実行状況
+  private queues = new Map<string, ModelQueue>()
+
+  // wrapModelで生成したモデルと元のモデル・優先度の対応
+  private wrappedModels = new WeakMap<
+    vscode.LanguageModelChat,
+    { vsCodeModel: vscode.LanguageModelChat; priority: RequestPriority }
+  >()
+
+  /**
+   * sendRequestをスケジューラー経由で実行するモデルを生成する
+   * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+   * @param {RequestPriority} priority リクエストの優先度
+   * @returns {vscode.LanguageModelChat}
+   */
+  public wrapModel(
+    vsCodeModel: vscode.LanguageModelChat,
+    priority: RequestPriority,
+  ): vscode.LanguageModelChat {
+    const wrappedModel: vscode.LanguageModelChat = Object.create(vsCodeModel, {
+      sendRequest: {
+        value: async (
+          messages: vscode.LanguageModelChatMessage[],
+          options?: vscode.LanguageModelChatRequestOptions,
+          token?: vscode.CancellationToken,
+        ) => {
+          const [release] = await this.acquire(
+            vsCodeModel.id,
+            priority,
+            1,
+            token,
+          )
+          return sendRequestWithSlot(
+            vsCodeModel,
+            release,
+            messages,
+            options,
+            token,
+          )
+        },
+      },
+    })
+    this.wrappedModels.set(wrappedModel, { vsCodeModel, priority })
+    return wrappedModel
+  }
+
+  /**
+   * 複数のリクエスト分の実行枠をまとめて確保し、確保した実行枠でsendRequestを1回だけ実行するモデルを生成する
+   * nが2以上の選択肢のように並列に実行する必要があるリクエストが、一部の実行枠だけを確保したまま待ち合うのを防ぐ
+   * @param {vscode.LanguageModelChat} vsCodeModel wrapModelで生成したモデル
+   * @param {number} count 確保する実行枠の数
+   * @param {vscode.CancellationToken} [token] キャンセラレーショントークン（待機中にキャンセルされた場合はキューから外す）
+   * @returns {Promise<vscode.LanguageModelChat[]>} 実行枠ごとのモデル
+   * @throws 実行枠の数がモデルの同時実行数の上限を超える場合、またはキューがいっぱいの場合は例外をスロー
+   */
+  public async reserve(
+    vsCodeModel: vscode.LanguageModelChat,
+    count: number,
+    token?: vscode.CancellationToken,
+  ): Promise<vscode.LanguageModelChat[]> {
+    const wrapped = this.wrappedModels.get(vsCodeModel)
+    if (!wrapped) {
+      return Array.from({ length: count }, () => vsCodeModel)
+    }
+
+    const { maxConcurrent } = getSchedulerLimits(wrapped.vsCodeModel.id)
+    if (count > maxConcurrent) {
+      const message = `The number of parallel requests (${count}) exceeds the maximum number of concurrent requests to model ${wrapped.vsCodeModel.id} (${maxConcurrent})`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_value',
+      }
+      throw error
+    }
+
+    const releases = await this.acquire(
+      wrapped.vsCodeModel.id,
+      wrapped.priority,
+      count,
+      token,
+    )
+    return releases.map(release => {
+      // 確保した実行枠は最初のsendRequestでのみ使用する
+      let isUsed = false
+      return Object.create(wrapped.vsCodeModel, {
+        sendRequest: {
+          value: (
+            messages: vscode.LanguageModelChatMessage[],
+            options?: vscode.LanguageModelChatRequestOptions,
+            requestToken?: vscode.CancellationToken,
+          ) => {
+            if (isUsed) {
+              return vsCodeModel.sendRequest(messages, options, requestToken)
+            }
+            isUsed = true
+            return sendRequestWithSlot(
+              wrapped.vsCodeModel,
+              release,
+              messages,
+              options,
+              requestToken,
+            )
+          },
+        },
+      })
+    })
+  }
+
+  /**
+   * モデルの実行枠を確保する
+   * 空きがない場合は優先度のキューで待ち、interactiveのキューがいっぱいの場合はQueueFullErrorをスローする
+   * @param {string} modelId モデルID
+   * @param {RequestPriority} priority リクエストの優先度
+   * @param {number} count 確保する実行枠の数（すべて空くまで待つ）
+   * @param {vscode.CancellationToken} [token] キャンセラレーショントークン（待機中にキャンセルされた場合はキューから外す）
+   * @returns {Promise<(() => void)[]>} 実行枠ごとの解放する関数
+   */
+  private acquire(
+    modelId: string,
+    priority: RequestPriority,
+    count: number,
+    token?: vscode.CancellationToken,
+  ): Promise<(() => void)[]> {
+    const queue = this.getQueue(modelId)
+    const { maxConcurrent, maxQueued } = getSchedulerLimits(modelId)
+
+    // 実行枠を解放する関数を生成する（複数回呼ばれても1回だけ解放する）
+    // 確保した実行枠がcountより少ない場合、超過分の関数は実行枠を持たない
+    const createReleases = (slots: number) => {
+      const startedAt = Date.now()
+      return Array.from({ length: count }, (_, index) => {
+        let isReleased = false
+        return () => {
+          if (isReleased || index >= slots) {
+            return
+          }
+          isReleased = true
+          queue.running--
+          queue.averageDuration =
+            queue.averageDuration === 0
+              ? Date.now() - startedAt
+              : queue.averageDuration * 0.8 + (Date.now() - startedAt) * 0.2
+          this.pump(modelId)
+        }
+      })
+    }
+
+    const waiting = PRIORITIES.reduce(
+      (total, lane) => total + queue.waiting[lane].length,
+      0,
+    )
+    if (queue.running + count <= maxConcurrent && waiting === 0) {
+      queue.running += count
+      return Promise.resolve(createReleases(count))
+    }
+
+    // backgroundのリクエストは待ち数によらずキューで待つ
+    const interactiveWaiting = queue.waiting.interactive.length
+    if (priority === 'interactive' && interactiveWaiting >= maxQueued) {
+      const retryAfter = Math.max(
+        1,
+        Math.ceil(
+          (queue.averageDuration * (interactiveWaiting / maxConcurrent + 1)) /
+            1000,
+        ),
+      )
+      logger.warn('Request queue is full', {
+        modelId,
+        running: queue.running,
+        waiting: interactiveWaiting,
+        retryAfter,
+      })
+      const message = `Too many requests to model ${modelId}. Please retry after ${retryAfter} seconds`
+      const error: QueueFullError = {
+        ...new Error(message),
+        message,
+        name: 'QueueFull',
+        code: 'rate_limit_exceeded',
+        retryAfter,
+        limit: maxConcurrent,
+      }
+      return Promise.reject(error)
+    }
+
+    logger.debug('Request queued', { modelId, priority, count, waiting })
+    return new Promise((resolve, reject) => {
+      const lane = queue.waiting[priority]
+      const request: QueuedRequest = {
+        count,
+        start: slots => {
+          listener?.dispose()
+          resolve(createReleases(slots))
+        },
+        cancel: () => {
+          listener?.dispose()
+          lane.splice(lane.indexOf(request), 1)
+          const message = 'The request was cancelled while waiting in the queue'
+          const error: vscode.LanguageModelError = {
+            ...new Error(message),
+            message,
+            name: 'Cancelled',
+            code: 'cancelled',
+          }
+          reject(error)
+          // 先頭の待ちが外れた場合は後続のリクエストを実行できる可能性がある
+          this.pump(modelId)
+        },
+      }
+      lane.push(request)
+      const listener = token?.onCancellationRequested(() => {
+        if (lane.includes(request)) {
+          request.cancel()
+        }
+      })
+    })
+  }
+
+  /**
+   * 空いた実行枠に優先度の高い順でキューのリクエストを割り当てる
+   * 先頭のリクエストに必要な実行枠が空くまでは後続のリクエストも待たせる（複数の実行枠を確保するリクエストの飢餓を防ぐ）
+   * @param {string} modelId モデルID
+   */
+  private pump(modelId: string) {
+    const queue = this.getQueue(modelId)
+    const { maxConcurrent } = getSchedulerLimits(modelId)
+
+    while (true) {
+      const lane = PRIORITIES.find(lane => queue.waiting[lane].length > 0)
+      const request = lane && queue.waiting[lane][0]
+      if (!lane || !request) {
+        break
+      }
+      // 上限が下げられた場合も1つずつは実行できるようにする
+      const count = Math.min(request.count, maxConcurrent)
+      if (queue.running + count > maxConcurrent) {
+        break
+      }
+      queue.waiting[lane].shift()
+      queue.running += count
+      request.start(count)
+    }
+  }
+
+  /**
+   * モデルの実行状況を取得する（なければ作成）
+   * @param {string} modelId モデルID
+   * @returns {ModelQueue}
+   */
+  private getQueue(modelId: string): ModelQueue {
+    let queue = this.queues.get(modelId)
+    if (!queue) {
+      queue = {
+        running: 0,
+        waiting: { interactive: [], background: [] },
+        averageDuration: 0,
+      }
+      this.queues.set(modelId, queue)
+    }
+    return queue
+  }
+}
+
+/**
+ * 設定からモデルの同時実行数とキューの待ち数の上限を取得する
+ * 同時実行数はvscode-lm-proxy.maxConcurrentRequestsByModelでモデルごとに指定でき、
+ * なければvscode-lm-proxy.maxConcurrentRequestsを使用する
+ * @param {string} modelId モデルID
+ * @returns {{ maxConcurrent: number, maxQueued: number }}
+ */
+function getSchedulerLimits(modelId: string): {
+  maxConcurrent: number
+  maxQueued: number
+} {
+  const config = vscode.workspace.getConfiguration('vscode-lm-proxy')
+  const byModel = config.get<Record<string, number>>(
+    'maxConcurrentRequestsByModel',
+    {},
+  )
+  const maxConcurrent =
+    byModel[modelId] ?? config.get<number>('maxConcurrentRequests', 4)
+  return {
+    maxConcurrent: Math.max(1, maxConcurrent),
+    maxQueued: Math.max(0, config.get<number>('maxQueuedRequests', 16)),
+  }
+}
+
+/**
+ * 確保済みの実行枠でLM APIへリクエストを送信する
+ * 実行枠はレスポンスのストリームを読み終えた時点、キャンセル時、またはリクエストの失敗時に解放する
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param {() => void} release 実行枠を解放する関数
+ * @param {vscode.LanguageModelChatMessage[]} messages メッセージ
+ * @param {vscode.LanguageModelChatRequestOptions} [options] オプション
+ * @param {vscode.CancellationToken} [token] キャンセラレーショントークン
+ * @returns {Promise<vscode.LanguageModelChatResponse>}
+ */
+async function sendRequestWithSlot(
+  vsCodeModel: vscode.LanguageModelChat,
+  release: () => void,
+  messages: vscode.LanguageModelChatMessage[],
+  options?: vscode.LanguageModelChatRequestOptions,
+  token?: vscode.CancellationToken,
+): Promise<vscode.LanguageModelChatResponse> {
+  const listener = token?.onCancellationRequested(() => release())
+  const releaseOnce = () => {
+    listener?.dispose()
+    release()
+  }
+
+  try {
+    const response = await vsCodeModel.sendRequest(messages, options, token)
+    return withRelease(response, releaseOnce)
+  } catch (error) {
+    releaseOnce()
+    throw error
+  }
+}
+
+/**
+ * レスポンスを読み終えた時点で実行枠を解放するレスポンスを生成する
+ * 呼び出し元がストリームを読まずに終了した場合（変換中のエラーなど）も解放されるよう、
+ * 呼び出し元の読み取りとは別にtextを読み進め、LM APIのレスポンスが完了した時点でも解放する
+ * @param {vscode.LanguageModelChatResponse} response LM APIのレスポンス
+ * @param {() => void} release 実行枠を解放する関数
+ * @returns {vscode.LanguageModelChatResponse}
+ */
+function withRelease(
+  response: vscode.LanguageModelChatResponse,
+  release: () => void,
+): vscode.LanguageModelChatResponse {
+  async function* releaseAfter<T>(stream: AsyncIterable<T>) {
+    try {
+      yield* stream
+    } finally {
+      release()
+    }
+  }
+
+  void (async () => {
+    try {
+      for await (const _ of response.text) {
+        // レスポンスの完了を待つだけのため、テキストは使用しない
+      }
+    } catch {
+      // エラーは呼び出し元のストリームの読み取りで扱う
+    } finally {
+      release()
+    }
+  })()
+
+  return {
+    stream: releaseAfter(response.stream),
+    text: releaseAfter(response.text),
+  }
+}
+
+export const requestScheduler = new RequestScheduler()
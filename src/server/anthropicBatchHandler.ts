@@ -0,0 +1,392 @@
+import type {
+  ErrorObject,
+  Message,
+  MessageCreateParams,
+} from '@anthropic-ai/sdk/resources'
+import type {
+  BatchCreateParams,
+  DeletedMessageBatch,
+  MessageBatch,
+  MessageBatchIndividualResponse,
+} from '@anthropic-ai/sdk/resources/messages/batches'
+import type express from 'express'
+import type * as vscode from 'vscode'
+import { type BatchJob, type BatchResult, batchManager } from '../batch/manager'
+import { logger } from '../utils/logger'
+import {
+  handleMessageError,
+  sendAnthropicMessagesRequest,
+} from './anthropicHandler'
+
+// 1バッチあたりの最大リクエスト数
+const MAX_BATCH_REQUESTS = 100000
+
+/**
+ * Anthropic互換のMessage Batches APIエンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupAnthropicBatchEndpoints(app: express.Express): void {
+  // バッチ内の個別リクエストはMessages APIと同じ変換経路で処理する
+  batchManager.registerRunner('anthropic', runAnthropicBatchRequest)
+
+  for (const basePath of [
+    '/anthropic/messages/batches',
+    '/anthropic/v1/messages/batches',
+  ]) {
+    app.post(basePath, handleCreateBatch)
+    app.get(basePath, handleListBatches)
+    app.get(`${basePath}/:batchId`, handleRetrieveBatch)
+    app.delete(`${basePath}/:batchId`, handleDeleteBatch)
+    app.post(`${basePath}/:batchId/cancel`, handleCancelBatch)
+    app.get(`${basePath}/:batchId/results`, handleBatchResults)
+  }
+}
+
+/**
+ * バッチ内の個別リクエストをMessages APIとして実行する
+ * @param {unknown} params Messages APIのリクエストパラメータ
+ * @param {vscode.CancellationToken} cancellationToken バッチジョブのキャンセル時にキャンセルされるトークン
+ * @returns {Promise<Omit<BatchResult, 'customId'>>}
+ */
+async function runAnthropicBatchRequest(
+  params: unknown,
+  cancellationToken: vscode.CancellationToken,
+): Promise<Omit<BatchResult, 'customId'>> {
+  try {
+    // バッチではストリーミングせず、対話的なリクエストより後に実行する
+    const message = (await sendAnthropicMessagesRequest(
+      { ...(params as MessageCreateParams), stream: false },
+      'anthropic',
+      cancellationToken,
+      'background',
+    )) as Message
+    return { type: 'succeeded', statusCode: 200, body: message }
+  } catch (error) {
+    const { statusCode, errorObject } = handleMessageError(
+      error as vscode.LanguageModelError,
+    )
+    return {
+      type: 'errored',
+      statusCode,
+      body: { type: 'error', error: errorObject },
+    }
+  }
+}
+
+/**
+ * バッチ作成リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCreateBatch(req: express.Request, res: express.Response) {
+  try {
+    const body = req.body as BatchCreateParams
+    logger.debug('Received batch request', {
+      requests: body.requests?.length,
+    })
+
+    // 必須フィールドのバリデーション
+    validateBatchCreateRequest(body)
+
+    const job = await batchManager.createJob(
+      'anthropic',
+      'msgbatch_',
+      body.requests.map(request => ({
+        customId: request.custom_id,
+        params: request.params,
+      })),
+    )
+
+    res.json(toMessageBatch(job, req))
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * バッチ作成リクエストの必須フィールドをバリデーションする
+ * @param {BatchCreateParams} body
+ * @throws エラー時は例外をスロー
+ */
+function validateBatchCreateRequest(body: BatchCreateParams) {
+  // requestsフィールドの存在と配列チェック
+  if (
+    !body.requests ||
+    !Array.isArray(body.requests) ||
+    body.requests.length === 0
+  ) {
+    const message = 'The requests field is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+
+  if (body.requests.length > MAX_BATCH_REQUESTS) {
+    const message = `A batch can contain at most ${MAX_BATCH_REQUESTS} requests`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+
+  // custom_idの存在と重複チェック
+  const customIds = new Set<string>()
+  for (const request of body.requests) {
+    if (!request.custom_id || !request.params) {
+      const message = 'Each request requires custom_id and params'
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_request_error',
+      }
+      throw error
+    }
+    if (customIds.has(request.custom_id)) {
+      const message = `Duplicate custom_id: ${request.custom_id}`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_request_error',
+      }
+      throw error
+    }
+    customIds.add(request.custom_id)
+  }
+}
+
+/**
+ * バッチ一覧リクエストを処理する（before_id / after_id / limitによるページング）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleListBatches(req: express.Request, res: express.Response) {
+  try {
+    const jobs = await batchManager.listJobs('anthropic')
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 1000)
+
+    // ページングの開始位置を決定
+    let start = 0
+    let end = jobs.length
+    if (typeof req.query.after_id === 'string') {
+      start = jobs.findIndex(job => job.id === req.query.after_id) + 1
+    }
+    if (typeof req.query.before_id === 'string') {
+      end = Math.max(
+        jobs.findIndex(job => job.id === req.query.before_id),
+        0,
+      )
+      start = Math.max(end - limit, 0)
+    }
+    const page = jobs.slice(start, Math.min(start + limit, end))
+    const hasMore =
+      typeof req.query.before_id === 'string' ? start > 0 : start + limit < end
+
+    res.json({
+      data: page.map(job => toMessageBatch(job, req)),
+      has_more: hasMore,
+      first_id: page[0]?.id ?? null,
+      last_id: page[page.length - 1]?.id ?? null,
+    })
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * バッチ取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleRetrieveBatch(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const job = await getAnthropicJob(req.params.batchId)
+    res.json(toMessageBatch(job, req))
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * バッチキャンセルリクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCancelBatch(req: express.Request, res: express.Response) {
+  try {
+    await getAnthropicJob(req.params.batchId)
+    const job = (await batchManager.cancelJob(req.params.batchId)) as BatchJob
+    res.json(toMessageBatch(job, req))
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * バッチ削除リクエストを処理する（終了したバッチのみ削除可能）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleDeleteBatch(req: express.Request, res: express.Response) {
+  try {
+    const job = await getAnthropicJob(req.params.batchId)
+    if (!(await batchManager.deleteJob(job.id))) {
+      const message = `Batch ${job.id} cannot be deleted while it is still processing`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_request_error',
+      }
+      throw error
+    }
+
+    const deleted: DeletedMessageBatch = {
+      id: job.id,
+      type: 'message_batch_deleted',
+    }
+    res.json(deleted)
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * バッチ結果リクエストを処理し、JSONL形式で返す（終了したバッチのみ）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleBatchResults(req: express.Request, res: express.Response) {
+  try {
+    const job = await getAnthropicJob(req.params.batchId)
+    if (job.status !== 'ended') {
+      const message = `Batch ${job.id} has not finished processing`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_request_error',
+      }
+      throw error
+    }
+
+    const results = await batchManager.getResults(job.id)
+    res.setHeader('Content-Type', 'application/x-jsonl')
+    res.send(
+      results
+        .map(result => JSON.stringify(toIndividualResponse(result)))
+        .join('\n'),
+    )
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * Anthropic APIで作成されたバッチジョブを取得する
+ * @param {string} batchId バッチID
+ * @returns {Promise<BatchJob>}
+ * @throws 存在しない場合は例外をスロー
+ */
+async function getAnthropicJob(batchId: string): Promise<BatchJob> {
+  const job = await batchManager.getJob(batchId)
+  if (!job || job.dialect !== 'anthropic') {
+    const message = `Batch ${batchId} not found`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'NotFound',
+      code: 'not_found_error',
+    }
+    throw error
+  }
+  return job
+}
+
+/**
+ * バッチジョブをAnthropicのMessageBatch形式に変換する
+ * @param {BatchJob} job バッチジョブ
+ * @param {express.Request} req results_urlの生成に使うリクエスト
+ * @returns {MessageBatch}
+ */
+function toMessageBatch(job: BatchJob, req: express.Request): MessageBatch {
+  const toISOString = (time: number | null) =>
+    time === null ? null : new Date(time).toISOString()
+
+  return {
+    id: job.id,
+    type: 'message_batch',
+    processing_status: job.status,
+    request_counts: { ...job.requestCounts },
+    created_at: new Date(job.createdAt).toISOString(),
+    expires_at: new Date(job.expiresAt).toISOString(),
+    ended_at: toISOString(job.endedAt),
+    cancel_initiated_at: toISOString(job.cancelInitiatedAt),
+    archived_at: null,
+    results_url:
+      job.status === 'ended'
+        ? `${req.protocol}://${req.get('host')}/anthropic/v1/messages/batches/${job.id}/results`
+        : null,
+  }
+}
+
+/**
+ * 個別リクエストの処理結果をAnthropicの結果行の形式に変換する
+ * @param {BatchResult} result 処理結果
+ * @returns {MessageBatchIndividualResponse}
+ */
+function toIndividualResponse(
+  result: BatchResult,
+): MessageBatchIndividualResponse {
+  switch (result.type) {
+    case 'succeeded':
+      return {
+        custom_id: result.customId,
+        result: { type: 'succeeded', message: result.body as Message },
+      }
+    case 'errored':
+      return {
+        custom_id: result.customId,
+        result: {
+          type: 'errored',
+          error: result.body as { type: 'error'; error: ErrorObject },
+        },
+      }
+    default:
+      return {
+        custom_id: result.customId,
+        result: { type: result.type },
+      }
+  }
+}
+
+/**
+ * バッチAPIのエラーをAnthropic互換エラー形式で送信する
+ * @param {express.Response} res レスポンス
+ * @param {vscode.LanguageModelError} error エラー
+ */
+function sendBatchError(
+  res: express.Response,
+  error: vscode.LanguageModelError,
+) {
+  const { statusCode, errorObject } = handleMessageError(error)
+  res.status(statusCode).json({ type: 'error', error: errorObject })
+}
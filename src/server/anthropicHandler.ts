@@ -13,9 +13,24 @@ import {
   convertAnthropicRequestToVSCodeRequest,
   convertVSCodeResponseToAnthropicResponse,
 } from '../converter/anthropicConverter'
+import { createMaxTokensContext } from '../converter/maxTokensConverter'
+import { createStopSequenceContext } from '../converter/stopSequenceConverter'
 import { modelManager } from '../model/manager'
+import {
+  type RequestPriority,
+  setRetryAfterHeaders,
+} from '../scheduler/manager'
+import { createAgentLoopContext } from '../tools/agentLoop'
 import { logger } from '../utils/logger'
+import {
+  awaitWithRequestCancellation,
+  createLinkedCancellation,
+  createRequestCancellation,
+  disposeAfterResponse,
+  withRequestCancellation,
+} from './cancellation'
 import { getVSCodeModel } from './handler'
+import { sendSSEStream } from './sse'
 
 /**
  * Anthropic互換のMessages APIエンドポイントを設定する
@@ -66,69 +81,140 @@ export async function handleAnthropicMessages(
   res: express.Response,
   provider: 'anthropic' | 'claude',
 ) {
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+
   try {
     const body = req.body as MessageCreateParams
     logger.debug('Received request', { body })
 
-    // 必須フィールドのバリデーション
-    validateMessagesRequest(body)
-
-    // モデル取得
-    const { vsCodeModel } = await getVSCodeModel(body.model, provider)
-
     // ストリーミングモード判定
     const isStreaming = body.stream === true
 
-    //Anthropicリクエスト→VSCode LM API形式変換
-    const { messages, options, inputTokens } =
-      await convertAnthropicRequestToVSCodeRequest(body, vsCodeModel)
-
-    // キャンセラレーショントークン作成
-    const cancellationToken = new vscode.CancellationTokenSource().token
-
-    // LM APIへリクエスト送信
-    const response = await vsCodeModel.sendRequest(
-      messages,
-      options,
-      cancellationToken,
+    // LM APIへリクエスト送信し、Anthropic形式のレスポンスを取得
+    const anthropicResponse = await awaitWithRequestCancellation(
+      sendAnthropicMessagesRequest(body, provider, cancellation.token),
+      cancellation,
     )
-    logger.debug('Received response from LM API')
-
-    // レスポンスをAnthropic形式に変換
-    const anthropicResponse = convertVSCodeResponseToAnthropicResponse(
-      response,
-      vsCodeModel,
-      isStreaming,
-      inputTokens,
-    )
-    logger.debug('anthropicResponse', {
-      anthropicResponse,
-      vsCodeModel,
-      isStreaming,
-    })
 
     // ストリーミングレスポンス処理
     if (isStreaming) {
       await handleStreamingResponse(
         res,
-        anthropicResponse as AsyncIterable<RawMessageStreamEvent>,
+        withRequestCancellation(
+          anthropicResponse as AsyncIterable<RawMessageStreamEvent>,
+          cancellation,
+        ),
         req.originalUrl || req.url,
       )
       return
     }
 
     // 非ストリーミングレスポンス処理
-    const message = await (anthropicResponse as Promise<Message>)
+    const message = anthropicResponse as Message
     logger.debug('message', { message })
     res.json(message)
   } catch (error) {
     const { statusCode, errorObject } = handleMessageError(
       error as vscode.LanguageModelError,
     )
+    setRetryAfterHeaders(res, error, 'anthropic')
     res.status(statusCode).json({ type: 'error', error: errorObject })
+  } finally {
+    cancellation.dispose()
   }
 }
 
+/**
+ * Anthropic互換のMessages APIリクエストをLM APIへ送信し、Anthropic形式のレスポンスに変換する。
+ * Messages APIのハンドラとMessage Batchesの各リクエスト処理で共通の変換経路。
+ * @param {MessageCreateParams} body Messages APIのリクエストボディ
+ * @param {'anthropic' | 'claude'} provider モデル選択に使うプロバイダー
+ * @param {vscode.CancellationToken} [cancellationToken] キャンセラレーショントークン（省略時は新規作成）
+ * @param {RequestPriority} [priority] LM APIへのリクエストの優先度
+ * @returns {Promise<Message | AsyncIterable<RawMessageStreamEvent>>}
+ *   非ストリーミング時はMessage、ストリーミング時はイベントのAsyncIterable
+ * @throws エラー時は例外をスロー
+ */
+export async function sendAnthropicMessagesRequest(
+  body: MessageCreateParams,
+  provider: 'anthropic' | 'claude',
+  cancellationToken: vscode.CancellationToken = new vscode.CancellationTokenSource()
+    .token,
+  priority: RequestPriority = 'interactive',
+): Promise<Message | AsyncIterable<RawMessageStreamEvent>> {
+  // 必須フィールドのバリデーション
+  validateMessagesRequest(body)
+
+  // モデル取得
+  const { vsCodeModel } = await getVSCodeModel(body.model, provider, priority)
+
+  // ストリーミングモード判定
+  const isStreaming = body.stream === true
+
+  //Anthropicリクエスト→VSCode LM API形式変換
+  const { messages, options, inputTokens, citations } =
+    await convertAnthropicRequestToVSCodeRequest(body, vsCodeModel)
+
+  // キャンセラレーショントークン作成（停止シーケンスの一致時、または呼び出し元のキャンセル時にキャンセル）
+  // レスポンスの変換を終えた時点で解放する
+  const { source: cancellation, dispose } =
+    createLinkedCancellation(cancellationToken)
+
+  // LM APIへリクエスト送信
+  let response: vscode.LanguageModelChatResponse
+  try {
+    response = await vsCodeModel.sendRequest(
+      messages,
+      options,
+      cancellation.token,
+    )
+  } catch (error) {
+    dispose()
+    throw error
+  }
+  logger.debug('Received response from LM API')
+
+  // エージェントループのコンテキスト作成（設定で有効な場合のみ）
+  const agentLoop = createAgentLoopContext(
+    messages,
+    options,
+    cancellation.token,
+    body.tools?.map(tool => tool.name) ?? [],
+  )
+
+  // 停止シーケンスのコンテキスト作成（stop_sequencesが指定された場合のみ）
+  const stopSequences = createStopSequenceContext(
+    body.stop_sequences,
+    cancellation,
+  )
+
+  // 最大出力トークン数のコンテキスト作成
+  const maxTokens = createMaxTokensContext(body.max_tokens, cancellation)
+
+  // レスポンスをAnthropic形式に変換
+  const anthropicResponse = convertVSCodeResponseToAnthropicResponse(
+    response,
+    vsCodeModel,
+    isStreaming,
+    inputTokens,
+    agentLoop,
+    stopSequences,
+    maxTokens,
+    body.tool_choice?.type !== 'none' &&
+      body.tool_choice?.disable_parallel_tool_use === true,
+    citations,
+    body.thinking?.type === 'enabled',
+  )
+  logger.debug('anthropicResponse', {
+    anthropicResponse,
+    vsCodeModel,
+    isStreaming,
+  })
+
+  return disposeAfterResponse(anthropicResponse, dispose)
+}
+
 /**
  * Messages APIリクエストの必須フィールドをバリデーションする
  * @param {MessageCreateParams} body
@@ -158,6 +244,23 @@ function validateMessagesRequest(body: MessageCreateParams) {
     }
     throw error
   }
+
+  // thinkingのbudget_tokensは1024以上かつmax_tokens未満
+  if (
+    body.thinking?.type === 'enabled' &&
+    (body.thinking.budget_tokens < 1024 ||
+      body.thinking.budget_tokens >= body.max_tokens)
+  ) {
+    const message =
+      'thinking.budget_tokens must be at least 1024 and less than max_tokens'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
 }
 
 /**
@@ -172,40 +275,18 @@ async function handleStreamingResponse(
   stream: AsyncIterable<RawMessageStreamEvent>,
   reqPath: string,
 ): Promise<void> {
-  res.setHeader('Content-Type', 'text/event-stream')
-  res.setHeader('Cache-Control', 'no-cache')
-  res.setHeader('Connection', 'keep-alive')
-
-  logger.debug('Streaming started', { path: reqPath })
-  let chunkIndex = 0
-
-  try {
-    // ストリーミングレスポンスを逐次送信
-    for await (const chunk of stream) {
-      const data = JSON.stringify(chunk)
-      res.write(`data: ${data}\n\n`)
-      logger.debug(`Streaming chunk: ${data}`)
-      chunkIndex++
-    }
-
-    // 正常終了
-    logger.debug('Streaming ended', {
-      path: reqPath,
-      chunkCount: chunkIndex,
-    })
-  } catch (error) {
-    // エラー発生時はAnthropic互換エラーを送信し、ストリームを終了
-    const { errorObject } = handleMessageError(
-      error as vscode.LanguageModelError,
-    )
-    res.write(
-      `data: ${JSON.stringify({ type: 'error', error: errorObject })}\n\n`,
-    )
-    logger.error('Streaming error', { error, path: reqPath })
-  } finally {
-    // ストリーム終了
-    res.end()
-  }
+  await sendSSEStream(res, stream, {
+    reqPath,
+    toEvent: event => ({ event: event.type, data: event }),
+    keepAlive: { event: 'ping', data: { type: 'ping' } },
+    // エラー発生時はAnthropic互換エラーを送信
+    toErrorEvent: error => {
+      const { errorObject } = handleMessageError(
+        error as vscode.LanguageModelError,
+      )
+      return { event: 'error', data: { type: 'error', error: errorObject } }
+    },
+  })
 }
 
 /**
@@ -213,7 +294,7 @@ async function handleStreamingResponse(
  * @param {vscode.LanguageModelError} error
  * @returns { statusCode: number, errorObject: ErrorObject }
  */
-function handleMessageError(error: vscode.LanguageModelError): {
+export function handleMessageError(error: vscode.LanguageModelError): {
   statusCode: number
   errorObject: ErrorObject
 } {
@@ -253,6 +334,14 @@ function handleMessageError(error: vscode.LanguageModelError): {
       statusCode = 429
       type = 'rate_limit_error'
       break
+    case 'Timeout':
+      statusCode = 504
+      type = 'timeout_error'
+      break
+    case 'QueueFull':
+      statusCode = 529
+      type = 'overloaded_error'
+      break
     case 'Error': {
       // エラーコード（数値）とJSON部分を抽出し、変数に格納
       const match = error.message.match(/Request Failed: (\d+)\s+({.*})/)
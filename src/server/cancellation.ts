@@ -0,0 +1,236 @@
+import type express from 'express'
+import * as vscode from 'vscode'
+import { logger } from '../utils/logger'
+
+// リクエストごとの期限（秒）を指定するヘッダー
+const TIMEOUT_HEADER = 'x-lm-proxy-timeout'
+
+/**
+ * HTTPリクエストに紐づくLM APIへのリクエストのキャンセル
+ * - クライアントが切断した場合
+ * - リクエストの期限を過ぎた場合
+ * にキャンセルする
+ */
+export interface RequestCancellation {
+  token: vscode.CancellationToken
+  // 期限を過ぎてキャンセルした場合のエラー
+  timeoutError?: vscode.LanguageModelError
+  // タイマーとイベントリスナーを解放する
+  dispose: () => void
+}
+
+/**
+ * リクエストの期限（秒）を取得する
+ * x-lm-proxy-timeoutヘッダーを優先し、なければ設定（vscode-lm-proxy.requestTimeout）を使用する
+ * 0以下の場合は期限なし
+ * @param {express.Request} req リクエスト
+ * @returns {number} 期限（秒）
+ */
+function getRequestTimeout(req: express.Request): number {
+  const header = req.get(TIMEOUT_HEADER)
+  if (header !== undefined) {
+    const timeout = Number(header)
+    if (Number.isFinite(timeout)) {
+      return timeout
+    }
+    logger.warn(`Ignored invalid ${TIMEOUT_HEADER} header`, { header })
+  }
+  return vscode.workspace
+    .getConfiguration('vscode-lm-proxy')
+    .get<number>('requestTimeout', 0)
+}
+
+/**
+ * 期限切れのエラーを生成する
+ * @param {number} timeout 期限（秒）
+ * @returns {vscode.LanguageModelError}
+ */
+function createTimeoutError(timeout: number): vscode.LanguageModelError {
+  const message = `Request timed out after ${timeout} seconds`
+  return {
+    ...new Error(message),
+    message,
+    name: 'Timeout',
+    code: 'timeout',
+  }
+}
+
+/**
+ * HTTPリクエストに紐づくキャンセルを作成する
+ * レスポンスの送信完了前にクライアントが切断した場合と、リクエストの期限を過ぎた場合にキャンセルする
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {RequestCancellation}
+ */
+export function createRequestCancellation(
+  req: express.Request,
+  res: express.Response,
+): RequestCancellation {
+  const source = new vscode.CancellationTokenSource()
+  const reqPath = req.originalUrl || req.url
+  const cancellation: RequestCancellation = {
+    token: source.token,
+    dispose: () => {
+      clearTimeout(timer)
+      res.off('close', onClose)
+      source.dispose()
+    },
+  }
+
+  // レスポンスの送信完了前に接続が閉じられた場合はクライアントの切断とみなす
+  const onClose = () => {
+    if (!res.writableFinished && !source.token.isCancellationRequested) {
+      logger.info('Client disconnected, cancelling request', { path: reqPath })
+      source.cancel()
+    }
+  }
+  res.on('close', onClose)
+
+  const timeout = getRequestTimeout(req)
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          logger.warn('Request timed out, cancelling request', {
+            path: reqPath,
+            timeout,
+          })
+          cancellation.timeoutError = createTimeoutError(timeout)
+          source.cancel()
+        }, timeout * 1000)
+      : undefined
+
+  return cancellation
+}
+
+/**
+ * キャンセルされた時点で解決するPromiseを生成する
+ * @param {RequestCancellation} cancellation リクエストのキャンセル
+ * @returns {Promise<void>}
+ */
+function whenCancelled(cancellation: RequestCancellation): Promise<void> {
+  return new Promise(resolve => {
+    if (cancellation.token.isCancellationRequested) {
+      resolve()
+      return
+    }
+    cancellation.token.onCancellationRequested(() => resolve())
+  })
+}
+
+/**
+ * レスポンスのストリームをキャンセルに合わせて終了する
+ * - クライアントが切断した場合はストリーム（変換処理のジェネレーター）の反復を中止
+ * - 期限を過ぎた場合は期限切れのエラーをスロー
+ * @param {AsyncIterable<T>} stream レスポンスのストリーム
+ * @param {RequestCancellation} cancellation リクエストのキャンセル
+ * @returns {AsyncIterable<T>}
+ */
+export async function* withRequestCancellation<T>(
+  stream: AsyncIterable<T>,
+  cancellation: RequestCancellation,
+): AsyncIterable<T> {
+  const iterator = stream[Symbol.asyncIterator]()
+  const cancelled = whenCancelled(cancellation).then(() => undefined)
+
+  try {
+    while (true) {
+      const result = await Promise.race([iterator.next(), cancelled])
+      if (!result) {
+        if (cancellation.timeoutError) {
+          throw cancellation.timeoutError
+        }
+        logger.debug('Stopped streaming the cancelled response')
+        return
+      }
+      if (result.done) {
+        return
+      }
+      yield result.value
+    }
+  } catch (error) {
+    throw cancellation.timeoutError ?? error
+  } finally {
+    // LM APIのレスポンスを待っている変換処理のジェネレーターも終了させる
+    Promise.resolve(iterator.return?.()).catch(() => undefined)
+  }
+}
+
+/**
+ * 非ストリーミングのレスポンスを期限に合わせて待つ
+ * 期限を過ぎた場合はレスポンスを待たずに期限切れのエラーをスローする
+ * @param {Thenable<T>} response レスポンス
+ * @param {RequestCancellation} cancellation リクエストのキャンセル
+ * @returns {Promise<T>}
+ */
+export async function awaitWithRequestCancellation<T>(
+  response: Thenable<T>,
+  cancellation: RequestCancellation,
+): Promise<T> {
+  const timedOut = whenCancelled(cancellation).then(() => {
+    if (cancellation.timeoutError) {
+      throw cancellation.timeoutError
+    }
+    // クライアントの切断時はLM APIのキャンセルによるレスポンスの終了を待つ
+    return response
+  })
+
+  try {
+    return await Promise.race([response, timedOut])
+  } catch (error) {
+    throw cancellation.timeoutError ?? error
+  }
+}
+
+/**
+ * 呼び出し元のキャンセルに連動するキャンセラレーショントークンソース
+ * 停止シーケンスの一致時など、1つのLM APIへのリクエストだけをキャンセルする場合に使用する
+ */
+export interface LinkedCancellation {
+  source: vscode.CancellationTokenSource
+  // 呼び出し元のトークンのイベントリスナーとトークンソースを解放する
+  dispose: () => void
+}
+
+/**
+ * 呼び出し元のキャンセルに連動するキャンセラレーショントークンソースを作成する
+ * @param {vscode.CancellationToken} token 呼び出し元のキャンセラレーショントークン
+ * @returns {LinkedCancellation}
+ */
+export function createLinkedCancellation(
+  token: vscode.CancellationToken,
+): LinkedCancellation {
+  const source = new vscode.CancellationTokenSource()
+  const listener = token.onCancellationRequested(() => source.cancel())
+  return {
+    source,
+    dispose: () => {
+      listener.dispose()
+      source.dispose()
+    },
+  }
+}
+
+/**
+ * レスポンスの変換を終えた時点でリソースを解放する
+ * ストリーミング時はストリームを読み終えた時点（または中断時）、非ストリーミング時はレスポンスの生成後に解放する
+ * @param {Promise<T> | AsyncIterable<U>} response 変換後のレスポンス
+ * @param {() => void} dispose リソースを解放する関数
+ * @returns {Promise<T> | AsyncIterable<U>}
+ */
+export function disposeAfterResponse<T, U>(
+  response: Promise<T> | AsyncIterable<U>,
+  dispose: () => void,
+): Promise<T> | AsyncIterable<U> {
+  if (!(Symbol.asyncIterator in response)) {
+    return response.finally(dispose)
+  }
+
+  async function* disposeAfter(stream: AsyncIterable<U>) {
+    try {
+      yield* stream
+    } finally {
+      dispose()
+    }
+  }
+  return disposeAfter(response)
+}
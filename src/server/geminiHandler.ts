@@ -0,0 +1,445 @@
+import type express from 'express'
+import type * as vscode from 'vscode'
+import {
+  convertGeminiRequestToVSCodeRequest,
+  convertVSCodeResponseToGeminiResponse,
+  type GeminiGenerateContentRequest,
+  type GeminiGenerateContentResponse,
+} from '../converter/geminiConverter'
+import { modelManager } from '../model/manager'
+import { setRetryAfterHeaders } from '../scheduler/manager'
+import { logger } from '../utils/logger'
+import {
+  awaitWithRequestCancellation,
+  createRequestCancellation,
+  withRequestCancellation,
+} from './cancellation'
+import { getVSCodeModel } from './handler'
+import { sendSSEStream } from './sse'
+
+/**
+ * Gemini互換のエラーオブジェクト
+ */
+type GeminiErrorObject = {
+  code: number
+  message: string
+  status: string
+}
+
+/**
+ * Gemini互換のモデル情報
+ */
+type GeminiModel = {
+  name: string
+  baseModelId: string
+  version: string
+  displayName: string
+  inputTokenLimit: number
+  outputTokenLimit: number
+  supportedGenerationMethods: string[]
+}
+
+/**
+ * Gemini互換のgenerateContent / streamGenerateContentエンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupGeminiGenerateContentEndpoints(
+  app: express.Express,
+): void {
+  // パスは `models/{model}:{method}` 形式のため、モデル名とメソッドをまとめて受け取る
+  app.post('/gemini/v1beta/models/:modelAndMethod', handleGeminiModelMethod)
+  app.post('/gemini/v1/models/:modelAndMethod', handleGeminiModelMethod)
+}
+
+/**
+ * Gemini互換のModels APIエンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupGeminiModelsEndpoints(app: express.Express): void {
+  // モデル一覧エンドポイント
+  app.get('/gemini/v1beta/models', handleGeminiModels)
+  app.get('/gemini/v1/models', handleGeminiModels)
+
+  // 特定モデル情報エンドポイント
+  app.get('/gemini/v1beta/models/:model', handleGeminiModelInfo)
+  app.get('/gemini/v1/models/:model', handleGeminiModelInfo)
+}
+
+/**
+ * `{model}:{method}` 形式のパスパラメータを解釈し、対応する処理に振り分ける
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleGeminiModelMethod(
+  req: express.Request,
+  res: express.Response,
+) {
+  const modelAndMethod = req.params.modelAndMethod
+  const separatorIndex = modelAndMethod.lastIndexOf(':')
+  const modelId = modelAndMethod.slice(0, separatorIndex)
+  const method = modelAndMethod.slice(separatorIndex + 1)
+
+  switch (method) {
+    case 'generateContent':
+      await handleGeminiGenerateContent(req, res, modelId, false)
+      return
+    case 'streamGenerateContent':
+      await handleGeminiGenerateContent(req, res, modelId, true)
+      return
+    default: {
+      const message = `Method ${method} is not supported`
+      const { statusCode, errorObject } = handleGeminiError({
+        ...new Error(message),
+        message,
+        name: 'NotFound',
+        code: 'method_not_found',
+      })
+      res.status(statusCode).json({ error: errorObject })
+    }
+  }
+}
+
+/**
+ * Gemini互換のgenerateContent / streamGenerateContentリクエストを処理するメイン関数。
+ * - リクエストバリデーション
+ * - モデル取得
+ * - LM APIへのリクエスト送信
+ * - ストリーミング/非ストリーミングレスポンス処理
+ * - エラーハンドリング
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @param {string} modelId パスで指定されたモデルID
+ * @param {boolean} isStreaming streamGenerateContentかどうか
+ * @returns {Promise<void>}
+ */
+async function handleGeminiGenerateContent(
+  req: express.Request,
+  res: express.Response,
+  modelId: string,
+  isStreaming: boolean,
+) {
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+
+  try {
+    const body = req.body as GeminiGenerateContentRequest
+    logger.debug('Received Gemini request', { modelId, body })
+
+    // 必須フィールドのバリデーション
+    validateGenerateContentRequest(body)
+
+    // モデル取得
+    const { vsCodeModel } = await getVSCodeModel(modelId, 'gemini')
+
+    // Geminiリクエスト→VSCode LM API形式変換
+    const { messages, options, inputTokens } =
+      await convertGeminiRequestToVSCodeRequest(body, vsCodeModel)
+
+    // LM APIへリクエスト送信
+    const response = await awaitWithRequestCancellation(
+      vsCodeModel.sendRequest(messages, options, cancellation.token),
+      cancellation,
+    )
+    logger.debug('Received response from LM API')
+
+    // レスポンスをGemini形式に変換
+    const geminiResponse = convertVSCodeResponseToGeminiResponse(
+      response,
+      vsCodeModel,
+      isStreaming,
+      inputTokens,
+    )
+
+    // ストリーミングレスポンス処理
+    if (isStreaming) {
+      await handleStreamingResponse(
+        res,
+        withRequestCancellation(
+          geminiResponse as AsyncIterable<GeminiGenerateContentResponse>,
+          cancellation,
+        ),
+        req.originalUrl || req.url,
+        req.query.alt === 'sse',
+      )
+      return
+    }
+
+    // 非ストリーミングレスポンス処理
+    const result = await awaitWithRequestCancellation(
+      geminiResponse as Promise<GeminiGenerateContentResponse>,
+      cancellation,
+    )
+    logger.debug('Gemini response', { result })
+    res.json(result)
+  } catch (error) {
+    const { statusCode, errorObject } = handleGeminiError(
+      error as vscode.LanguageModelError,
+    )
+    setRetryAfterHeaders(res, error)
+    res.status(statusCode).json({ error: errorObject })
+  } finally {
+    cancellation.dispose()
+  }
+}
+
+/**
+ * generateContentリクエストの必須フィールドをバリデーションする
+ * @param {GeminiGenerateContentRequest} body
+ * @throws エラー時は例外をスロー
+ */
+function validateGenerateContentRequest(body: GeminiGenerateContentRequest) {
+  // contentsフィールドの存在と配列チェック
+  if (
+    !body.contents ||
+    !Array.isArray(body.contents) ||
+    body.contents.length === 0
+  ) {
+    const message = 'The contents field is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_argument',
+    }
+    throw error
+  }
+}
+
+/**
+ * ストリーミングレスポンスを処理し、クライアントに送信する。
+ * `alt=sse` 指定時はSSE形式、それ以外はGemini REST APIと同様にJSON配列を逐次送信する。
+ * @param {express.Response} res
+ * @param {AsyncIterable<GeminiGenerateContentResponse>} stream
+ * @param {string} reqPath
+ * @param {boolean} isSSE SSE形式で送信するかどうか
+ * @returns {Promise<void>}
+ */
+async function handleStreamingResponse(
+  res: express.Response,
+  stream: AsyncIterable<GeminiGenerateContentResponse>,
+  reqPath: string,
+  isSSE: boolean,
+): Promise<void> {
+  // エラー発生時はGemini互換エラーを送信
+  const toErrorData = (error: unknown) => {
+    const { errorObject } = handleGeminiError(
+      error as vscode.LanguageModelError,
+    )
+    return { error: errorObject }
+  }
+
+  if (isSSE) {
+    await sendSSEStream(res, stream, {
+      reqPath,
+      toErrorEvent: error => ({ data: toErrorData(error) }),
+    })
+    return
+  }
+
+  res.setHeader('Content-Type', 'application/json')
+
+  logger.debug('Streaming started', { path: reqPath, isSSE })
+  let chunkIndex = 0
+
+  try {
+    res.write('[')
+
+    // ストリーミングレスポンスを逐次送信
+    for await (const chunk of stream) {
+      const data = JSON.stringify(chunk)
+      res.write(chunkIndex === 0 ? data : `,\n${data}`)
+      logger.debug(`Streaming chunk: ${data}`)
+      chunkIndex++
+    }
+
+    res.write(']')
+
+    // 正常終了
+    logger.debug('Streaming ended', {
+      path: reqPath,
+      chunkCount: chunkIndex,
+    })
+  } catch (error) {
+    // エラーを配列の最後の要素として送信し、ストリームを終了
+    const data = JSON.stringify(toErrorData(error))
+    res.write(chunkIndex === 0 ? `${data}]` : `,\n${data}]`)
+    logger.error('Streaming error', { error, path: reqPath })
+  } finally {
+    // ストリーム終了
+    res.end()
+  }
+}
+
+/**
+ * VSCode LanguageModelError を Gemini 互換エラー形式に変換し、ログ出力する
+ * @param {vscode.LanguageModelError} error
+ * @returns { statusCode: number, errorObject: GeminiErrorObject }
+ */
+function handleGeminiError(error: vscode.LanguageModelError): {
+  statusCode: number
+  errorObject: GeminiErrorObject
+} {
+  logger.error('VSCode LM API error', {
+    cause: error.cause,
+    code: error.code,
+    message: error.message,
+    name: error.name,
+    stack: error.stack,
+  })
+
+  // 変数を定義
+  let statusCode = 500
+  let status = 'INTERNAL'
+
+  // LanguageModelError.name に応じてマッピング
+  switch (error.name) {
+    case 'InvalidMessageFormat':
+    case 'InvalidModel':
+      statusCode = 400
+      status = 'INVALID_ARGUMENT'
+      break
+    case 'NoPermissions':
+    case 'Blocked':
+      statusCode = 403
+      status = 'PERMISSION_DENIED'
+      break
+    case 'NotFound':
+      statusCode = 404
+      status = 'NOT_FOUND'
+      break
+    case 'ChatQuotaExceeded':
+    case 'QueueFull':
+      statusCode = 429
+      status = 'RESOURCE_EXHAUSTED'
+      break
+    case 'Timeout':
+      statusCode = 504
+      status = 'DEADLINE_EXCEEDED'
+      break
+  }
+
+  // Gemini互換エラー形式で返却
+  const errorObject: GeminiErrorObject = {
+    code: statusCode,
+    message: error.message || 'An unknown error has occurred',
+    status,
+  }
+  logger.error(`Gemini API error: ${errorObject.message}`, errorObject)
+
+  return { statusCode, errorObject }
+}
+
+/**
+ * VSCodeのモデルをGemini互換のモデル情報に変換する
+ * @param {string} id モデルID
+ * @param {string} displayName 表示名
+ * @param {string} version バージョン
+ * @param {number} inputTokenLimit 最大入力トークン数
+ * @returns {GeminiModel}
+ */
+function toGeminiModel(
+  id: string,
+  displayName: string,
+  version: string,
+  inputTokenLimit: number,
+): GeminiModel {
+  return {
+    name: `models/${id}`,
+    baseModelId: id,
+    version,
+    displayName,
+    inputTokenLimit,
+    outputTokenLimit: 0,
+    supportedGenerationMethods: ['generateContent', 'streamGenerateContent'],
+  }
+}
+
+/**
+ * Gemini互換のモデル一覧リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleGeminiModels(
+  _req: express.Request,
+  res: express.Response,
+) {
+  try {
+    // 利用可能なモデルを取得
+    const availableModels = await modelManager.getAvailableModels()
+
+    // Gemini API形式に変換
+    const models: GeminiModel[] = availableModels.map(model =>
+      toGeminiModel(model.id, model.name, model.version, model.maxInputTokens),
+    )
+
+    // プロキシモデルIDも追加
+    models.push(toGeminiModel('vscode-lm-proxy', 'VSCode LM Proxy', '1', 0))
+
+    res.json({ models })
+  } catch (error) {
+    const { statusCode, errorObject } = handleGeminiError(
+      error as vscode.LanguageModelError,
+    )
+    res.status(statusCode).json({ error: errorObject })
+  }
+}
+
+/**
+ * Gemini互換の単一モデル情報リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleGeminiModelInfo(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const modelId = req.params.model
+
+    if (modelId === 'vscode-lm-proxy') {
+      // vscode-lm-proxyの場合、固定情報を返す
+      res.json(toGeminiModel('vscode-lm-proxy', 'VSCode LM Proxy', '1', 0))
+      return
+    }
+
+    // LM APIからモデル情報を取得
+    const vsCodeModel = await modelManager.getModelInfo(modelId)
+
+    // モデルが存在しない場合はエラーをスロー
+    if (!vsCodeModel) {
+      const message = `Model ${modelId} not found`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'NotFound',
+        code: 'model_not_found',
+      }
+      throw error
+    }
+
+    res.json(
+      toGeminiModel(
+        vsCodeModel.id,
+        vsCodeModel.name,
+        vsCodeModel.version,
+        vsCodeModel.maxInputTokens,
+      ),
+    )
+  } catch (error) {
+    // getModelInfoのNot Foundはステータスコード付きのエラー
+    const modelError = error as vscode.LanguageModelError & {
+      statusCode?: number
+    }
+    const { statusCode, errorObject } = handleGeminiError(
+      modelError.statusCode === 404
+        ? { ...modelError, name: 'NotFound', message: modelError.message }
+        : modelError,
+    )
+    res.status(statusCode).json({ error: errorObject })
+  }
+}
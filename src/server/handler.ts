@@ -3,6 +3,7 @@
 import type express from 'express'
 import * as vscode from 'vscode'
 import { modelManager } from '../model/manager'
+import { type RequestPriority, requestScheduler } from '../scheduler/manager'
 import { logger } from '../utils/logger'
 
 // モジュールスコープでglobalStateを管理
@@ -31,16 +32,20 @@ export function setupStatusEndpoint(app: express.Express): void {
 
 /**
  * VSCode LM APIのモデルを取得する（'vscode-lm-proxy'時は選択中のOpenAIモデルに変換）
+ * 返すモデルのsendRequestはスケジューラー経由で実行される
  * @param {OpenAI.ChatCompletionCreateParams} body
+ * @param {RequestPriority} [priority] リクエストの優先度（Claude Codeのバックグラウンドモデルは常にbackground）
  * @returns {Promise<{ model: any, modelId: string }>}
  * @throws エラー時は例外をスロー
  */
 export async function getVSCodeModel(
   modelId: string,
-  provider: 'openai' | 'anthropic' | 'claude',
+  provider: 'openai' | 'anthropic' | 'claude' | 'gemini',
+  priority: RequestPriority = 'interactive',
 ): Promise<{ vsCodeModel: vscode.LanguageModelChat; vsCodeModelId: string }> {
   try {
     let selectedModelId: string | null = modelId
+    let requestPriority = priority
 
     // modelIdが'vscode-lm-proxy'の場合は選択中のモデルIDに変換（providerごとに分岐）
     if (modelId === 'vscode-lm-proxy') {
@@ -48,6 +53,8 @@ export async function getVSCodeModel(
         selectedModelId = modelManager.getOpenAIModelId()
       } else if (provider === 'anthropic') {
         selectedModelId = modelManager.getAnthropicModelId()
+      } else if (provider === 'gemini') {
+        selectedModelId = modelManager.getGeminiModelId()
       }
 
       if (!selectedModelId) {
@@ -59,6 +66,7 @@ export async function getVSCodeModel(
     if (provider === 'claude') {
       if (modelId.includes('haiku')) {
         selectedModelId = modelManager.getClaudeCodeBackgroundModelId()
+        requestPriority = 'background'
       } else if (modelId.includes('sonnet') || modelId.includes('opus')) {
         selectedModelId = modelManager.getClaudeCodeThinkingModelId()
       }
@@ -76,8 +84,11 @@ export async function getVSCodeModel(
       throw new Error(`Model ${selectedModelId} not found`)
     }
 
-    // モデルが見つかった場合はそのまま返す
-    return { vsCodeModel, vsCodeModelId: vsCodeModel.id }
+    // モデルが見つかった場合はスケジューラー経由でリクエストするモデルを返す
+    return {
+      vsCodeModel: requestScheduler.wrapModel(vsCodeModel, requestPriority),
+      vsCodeModelId: vsCodeModel.id,
+    }
   } catch (e: any) {
     // VSCodeのLanguageModelError形式でラップしてスロー
     const error: vscode.LanguageModelError = {
@@ -110,3 +121,18 @@ export function isToolCallPart(
 ): part is vscode.LanguageModelToolCallPart {
   return part instanceof vscode.LanguageModelToolCallPart
 }
+
+/**
+ * VSCodeのLanguageModelThinkingPart型ガード
+ * LanguageModelThinkingPartは提案段階のAPIのため、存在しない場合は常にfalse
+ * @param part 判定対象
+ * @returns {boolean} partがLanguageModelThinkingPart型ならtrue
+ */
+export function isThinkingPart(
+  part: unknown,
+): part is vscode.LanguageModelThinkingPart {
+  return (
+    'LanguageModelThinkingPart' in vscode &&
+    part instanceof vscode.LanguageModelThinkingPart
+  )
+}
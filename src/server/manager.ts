@@ -2,6 +2,7 @@
 
 import type * as http from 'node:http'
 import * as vscode from 'vscode'
+import { batchManager } from '../batch/manager'
 import { statusBarManager } from '../ui/statusbar'
 import { logger } from '../utils/logger'
 import { createServer } from './server'
@@ -36,6 +37,9 @@ class ServerManager {
       const app = createServer()
       const port = this.getPort()
 
+      // 保存済みのバッチジョブを再開
+      await batchManager.start()
+
       return new Promise<void>((resolve, reject) => {
         this.server = app.listen(port, () => {
           this._isRunning = true
@@ -87,6 +91,9 @@ class ServerManager {
       return Promise.resolve()
     }
 
+    // バッチジョブのキュー処理を停止
+    batchManager.stop()
+
     return new Promise<void>((resolve, reject) => {
       this.server?.close(err => {
         if (err) {
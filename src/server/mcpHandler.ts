@@ -0,0 +1,513 @@
+import type express from 'express'
+import type * as vscode from 'vscode'
+import {
+  convertMcpChatToolArgumentsToCreateMessageParams,
+  convertMcpCreateMessageRequestToVSCodeRequest,
+  convertVSCodeResponseToMcpCreateMessageResult,
+  type McpChatToolArguments,
+  type McpCreateMessageParams,
+  type McpCreateMessageResult,
+} from '../converter/mcpConverter'
+import { modelManager } from '../model/manager'
+import { isQueueFullError } from '../scheduler/manager'
+import { logger } from '../utils/logger'
+import {
+  awaitWithRequestCancellation,
+  createRequestCancellation,
+  type RequestCancellation,
+} from './cancellation'
+import { getVSCodeModel } from './handler'
+
+// サポートするMCPのプロトコルバージョン（先頭が最新）
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+/**
+ * JSON-RPC 2.0のリクエスト（idがない場合は通知）
+ */
+type JsonRpcRequest = {
+  jsonrpc: '2.0'
+  id?: string | number | null
+  method: string
+  params?: Record<string, unknown>
+}
+
+/**
+ * JSON-RPC 2.0のエラーオブジェクト
+ */
+type JsonRpcError = {
+  code: number
+  message: string
+  data?: unknown
+}
+
+/**
+ * JSON-RPC 2.0のレスポンス
+ */
+type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: string | number | null; result: unknown }
+  | { jsonrpc: '2.0'; id: string | number | null; error: JsonRpcError }
+
+/**
+ * MCPのツール定義
+ */
+type McpTool = {
+  name: string
+  description: string
+  inputSchema: Record<string, unknown>
+}
+
+/**
+ * MCPのツール実行結果
+ */
+type McpCallToolResult = {
+  content: Array<{ type: 'text'; text: string }>
+  isError: boolean
+}
+
+// MCPサーバーとして公開するツール
+const MCP_TOOLS: McpTool[] = [
+  {
+    name: 'chat',
+    description:
+      'Send a prompt or a conversation to a VSCode language model (e.g. GitHub Copilot) and return the reply.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        prompt: {
+          type: 'string',
+          description: 'User prompt appended after messages',
+        },
+        messages: {
+          type: 'array',
+          description: 'Conversation history',
+          items: {
+            type: 'object',
+            properties: {
+              role: { type: 'string', enum: ['user', 'assistant'] },
+              content: { type: 'string' },
+            },
+            required: ['role', 'content'],
+          },
+        },
+        systemPrompt: { type: 'string', description: 'System prompt' },
+        model: {
+          type: 'string',
+          description:
+            "Model ID from list_models (defaults to 'vscode-lm-proxy', the selected OpenAI API model)",
+        },
+        maxTokens: { type: 'number' },
+        temperature: { type: 'number' },
+      },
+    },
+  },
+  {
+    name: 'list_models',
+    description: 'List the VSCode language models available through the proxy.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+]
+
+/**
+ * MCP（Streamable HTTP）エンドポイントを設定する
+ * セッションを持たないサーバーとして動作し、POSTのJSON-RPCリクエストにJSONで応答する
+ * （サーバーからのSSEストリームは提供しないため、GET/DELETEは405を返す）
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupMcpEndpoints(app: express.Express): void {
+  app.post('/mcp', handleMcpPost)
+  app.get('/mcp', handleMcpMethodNotAllowed)
+  app.delete('/mcp', handleMcpMethodNotAllowed)
+}
+
+/**
+ * MCPのPOSTリクエスト（単一またはバッチのJSON-RPCメッセージ）を処理する
+ * 通知・レスポンスのみの場合は202を返す
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleMcpPost(req: express.Request, res: express.Response) {
+  // DNSリバインディング対策として、ローカル以外のOriginからのリクエストを拒否
+  if (!isAllowedOrigin(req.headers.origin)) {
+    res.status(403).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32000, message: 'Forbidden origin' },
+    })
+    return
+  }
+
+  const isBatch = Array.isArray(req.body)
+  const messages: unknown[] = isBatch ? req.body : [req.body]
+  logger.debug('Received MCP request', { messages })
+
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+
+  const responses: JsonRpcResponse[] = []
+  for (const message of messages) {
+    if (!isJsonRpcMessage(message)) {
+      responses.push({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Invalid Request' },
+      })
+      continue
+    }
+
+    // 通知（idなし）とクライアントからのレスポンス（methodなし）には応答しない
+    if (!('method' in message) || message.id === undefined) {
+      continue
+    }
+    responses.push(
+      await handleMcpRequest(message as JsonRpcRequest, cancellation),
+    )
+  }
+  cancellation.dispose()
+
+  if (responses.length === 0) {
+    res.status(202).end()
+    return
+  }
+  res.json(isBatch ? responses : responses[0])
+}
+
+/**
+ * サポートしていないHTTPメソッドに405を返す
+ * @param {express.Request} _req リクエスト
+ * @param {express.Response} res レスポンス
+ */
+function handleMcpMethodNotAllowed(
+  _req: express.Request,
+  res: express.Response,
+) {
+  res.setHeader('Allow', 'POST')
+  res.status(405).json({
+    jsonrpc: '2.0',
+    id: null,
+    error: { code: -32000, message: 'Method not allowed' },
+  })
+}
+
+/**
+ * JSON-RPCリクエストをメソッドごとに処理する
+ * @param {JsonRpcRequest} request JSON-RPCリクエスト
+ * @param {RequestCancellation} cancellation HTTPリクエストのキャンセル
+ * @returns {Promise<JsonRpcResponse>}
+ */
+async function handleMcpRequest(
+  request: JsonRpcRequest,
+  cancellation: RequestCancellation,
+): Promise<JsonRpcResponse> {
+  const id = request.id ?? null
+  const params = request.params ?? {}
+
+  try {
+    switch (request.method) {
+      case 'initialize':
+        return { jsonrpc: '2.0', id, result: initialize(params) }
+      case 'ping':
+        return { jsonrpc: '2.0', id, result: {} }
+      case 'tools/list':
+        return { jsonrpc: '2.0', id, result: { tools: MCP_TOOLS } }
+      case 'tools/call':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: await callTool(
+            params.name as string,
+            (params.arguments ?? {}) as Record<string, unknown>,
+            cancellation,
+          ),
+        }
+      case 'sampling/createMessage':
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: await createMessage(
+            params as unknown as McpCreateMessageParams,
+            cancellation,
+          ),
+        }
+      default: {
+        const message = `Method not found: ${request.method}`
+        const error: vscode.LanguageModelError = {
+          ...new Error(message),
+          message,
+          name: 'MethodNotFound',
+          code: 'method_not_found',
+        }
+        throw error
+      }
+    }
+  } catch (error) {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: handleMcpError(error as vscode.LanguageModelError),
+    }
+  }
+}
+
+/**
+ * initializeリクエストを処理する
+ * クライアントのプロトコルバージョンをサポートしていればそのまま、それ以外は最新のバージョンを返す
+ * @param {Record<string, unknown>} params initializeのパラメータ
+ * @returns 初期化結果
+ */
+function initialize(params: Record<string, unknown>) {
+  const requestedVersion = String(params.protocolVersion)
+  const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+    ? requestedVersion
+    : SUPPORTED_PROTOCOL_VERSIONS[0]
+
+  return {
+    protocolVersion,
+    capabilities: { tools: { listChanged: false } },
+    serverInfo: { name: 'vscode-lm-proxy', version: '0.0.0' },
+    instructions:
+      'Use the chat tool to talk to VSCode language models such as GitHub Copilot. Use list_models to find model IDs.',
+  }
+}
+
+/**
+ * ツールを実行する
+ * ツールの実行エラーはJSON-RPCエラーではなく、isError: trueの結果として返す
+ * @param {string} name ツール名
+ * @param {Record<string, unknown>} args ツールの引数
+ * @param {RequestCancellation} cancellation HTTPリクエストのキャンセル
+ * @returns {Promise<McpCallToolResult>}
+ */
+async function callTool(
+  name: string,
+  args: Record<string, unknown>,
+  cancellation: RequestCancellation,
+): Promise<McpCallToolResult> {
+  if (!MCP_TOOLS.some(tool => tool.name === name)) {
+    const message = `Unknown tool: ${name}`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_params',
+    }
+    throw error
+  }
+
+  try {
+    if (name === 'list_models') {
+      const models = await listModels()
+      return {
+        content: [{ type: 'text', text: JSON.stringify(models, null, 2) }],
+        isError: false,
+      }
+    }
+
+    const chatArgs = args as McpChatToolArguments
+    if (!chatArgs.prompt && !chatArgs.messages?.length) {
+      const message = 'Either prompt or messages is required'
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_params',
+      }
+      throw error
+    }
+
+    const result = await createMessage(
+      convertMcpChatToolArgumentsToCreateMessageParams(chatArgs),
+      cancellation,
+      chatArgs.model,
+    )
+    return {
+      content: [{ type: 'text', text: result.content.text }],
+      isError: false,
+    }
+  } catch (error) {
+    const { message } = handleMcpError(error as vscode.LanguageModelError)
+    return { content: [{ type: 'text', text: message }], isError: true }
+  }
+}
+
+/**
+ * 利用可能なモデルの一覧を取得する（プロキシモデルIDを含む）
+ * @returns モデル一覧
+ */
+async function listModels() {
+  const availableModels = await modelManager.getAvailableModels()
+  return [
+    ...availableModels.map(model => ({
+      id: model.id,
+      name: model.name,
+      family: model.family,
+      vendor: model.vendor,
+      maxInputTokens: model.maxInputTokens,
+    })),
+    {
+      id: 'vscode-lm-proxy',
+      name: 'vscode-lm-proxy',
+      family: 'vscode-lm-proxy',
+      vendor: 'vscode-lm-proxy',
+      maxInputTokens: 0,
+    },
+  ]
+}
+
+/**
+ * sampling/createMessageリクエストをLM APIへ送信し、結果を返す
+ * モデルはmodelIdの指定、modelPreferencesのhints、選択中のOpenAI APIモデルの順に決定する
+ * @param {McpCreateMessageParams} params sampling/createMessageのパラメータ
+ * @param {RequestCancellation} cancellation HTTPリクエストのキャンセル
+ * @param {string} [modelId] 使用するモデルID
+ * @returns {Promise<McpCreateMessageResult>}
+ */
+async function createMessage(
+  params: McpCreateMessageParams,
+  cancellation: RequestCancellation,
+  modelId?: string,
+): Promise<McpCreateMessageResult> {
+  // 必須フィールドのバリデーション
+  if (!Array.isArray(params.messages) || params.messages.length === 0) {
+    const message = 'The messages field is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_params',
+    }
+    throw error
+  }
+
+  // モデル取得
+  const { vsCodeModel } = await getVSCodeModel(
+    modelId ?? (await resolveModelHint(params.modelPreferences?.hints)),
+    'openai',
+  )
+
+  // MCPリクエスト→VSCode LM API形式変換
+  const { messages, options } =
+    await convertMcpCreateMessageRequestToVSCodeRequest(params, vsCodeModel)
+
+  // LM APIへリクエスト送信
+  const response = await awaitWithRequestCancellation(
+    vsCodeModel.sendRequest(messages, options, cancellation.token),
+    cancellation,
+  )
+  logger.debug('Received response from LM API')
+
+  // レスポンスをMCP形式に変換
+  const result = await awaitWithRequestCancellation(
+    convertVSCodeResponseToMcpCreateMessageResult(response, vsCodeModel),
+    cancellation,
+  )
+  logger.debug('MCP sampling result', { result })
+
+  return result
+}
+
+/**
+ * modelPreferencesのhintsから使用するモデルIDを決定する
+ * ヒントの名前をIDまたはファミリーに含む最初のモデルを使用し、該当がなければ'vscode-lm-proxy'を返す
+ * @param {Array<{ name?: string }>} [hints] モデルのヒント（優先順）
+ * @returns {Promise<string>} モデルID
+ */
+async function resolveModelHint(
+  hints: Array<{ name?: string }> = [],
+): Promise<string> {
+  const names = hints.flatMap(hint => (hint.name ? [hint.name] : []))
+  if (names.length === 0) {
+    return 'vscode-lm-proxy'
+  }
+
+  const availableModels = await modelManager.getAvailableModels()
+  for (const name of names) {
+    const model = availableModels.find(
+      model => model.id.includes(name) || model.family.includes(name),
+    )
+    if (model) {
+      return model.id
+    }
+  }
+  return 'vscode-lm-proxy'
+}
+
+/**
+ * JSON-RPC 2.0のメッセージかどうかを判定する
+ * @param {unknown} message メッセージ
+ * @returns {boolean}
+ */
+function isJsonRpcMessage(
+  message: unknown,
+): message is { jsonrpc: '2.0'; id?: unknown; method?: unknown } {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as { jsonrpc?: unknown }).jsonrpc === '2.0'
+  )
+}
+
+/**
+ * ローカルからのリクエストかどうかをOriginヘッダーで判定する（Originがない場合は許可）
+ * @param {string | undefined} origin Originヘッダー
+ * @returns {boolean}
+ */
+function isAllowedOrigin(origin: string | undefined): boolean {
+  if (!origin) {
+    return true
+  }
+  try {
+    const { hostname } = new URL(origin)
+    return ['localhost', '127.0.0.1', '[::1]'].includes(hostname)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * VSCode LanguageModelError を JSON-RPC 互換エラー形式に変換し、ログ出力する
+ * @param {vscode.LanguageModelError} error
+ * @returns {JsonRpcError}
+ */
+function handleMcpError(error: vscode.LanguageModelError): JsonRpcError {
+  logger.error('VSCode LM API error', {
+    cause: error.cause,
+    code: error.code,
+    message: error.message,
+    name: error.name,
+    stack: error.stack,
+  })
+
+  // LanguageModelError.name に応じてJSON-RPCのエラーコードをマッピング
+  let code = -32603 // Internal error
+  switch (error.name) {
+    case 'MethodNotFound':
+      code = -32601
+      break
+    case 'InvalidMessageFormat':
+    case 'InvalidModel':
+    case 'NotFound':
+      code = -32602 // Invalid params
+      break
+    case 'Timeout':
+      code = -32001 // Request timeout
+      break
+    case 'QueueFull':
+      code = -32002 // Too many requests
+      break
+  }
+
+  // JSON-RPC互換エラー形式で返却
+  // キューがいっぱいの場合は再試行までの秒数をdataに含める
+  const jsonRpcError: JsonRpcError = {
+    code,
+    message: error.message || 'An unknown error has occurred',
+    data: isQueueFullError(error)
+      ? { name: error.name, code: error.code, retryAfter: error.retryAfter }
+      : { name: error.name, code: error.code },
+  }
+  logger.error(`MCP error: ${jsonRpcError.message}`, jsonRpcError)
+
+  return jsonRpcError
+}
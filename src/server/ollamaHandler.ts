@@ -0,0 +1,419 @@
+import type express from 'express'
+import type * as vscode from 'vscode'
+import {
+  convertOllamaChatRequestToVSCodeRequest,
+  convertOllamaGenerateRequestToVSCodeRequest,
+  convertVSCodeResponseToOllamaChatResponse,
+  convertVSCodeResponseToOllamaGenerateResponse,
+  type OllamaChatRequest,
+  type OllamaChatResponse,
+  type OllamaGenerateRequest,
+  type OllamaGenerateResponse,
+} from '../converter/ollamaConverter'
+import { modelManager } from '../model/manager'
+import { setRetryAfterHeaders } from '../scheduler/manager'
+import { logger } from '../utils/logger'
+import {
+  awaitWithRequestCancellation,
+  createRequestCancellation,
+  withRequestCancellation,
+} from './cancellation'
+import { getVSCodeModel } from './handler'
+
+/**
+ * Ollama互換のモデル情報（/api/tags）
+ */
+type OllamaModel = {
+  name: string
+  model: string
+  modified_at: string
+  size: number
+  digest: string
+  details: {
+    format: string
+    family: string
+    families: string[]
+    parameter_size: string
+    quantization_level: string
+  }
+}
+
+/**
+ * Ollama互換のChat/Generate APIエンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupOllamaEndpoints(app: express.Express): void {
+  app.post('/api/chat', handleOllamaChat)
+  app.post('/api/generate', handleOllamaGenerate)
+}
+
+/**
+ * Ollama互換のモデル一覧・バージョンエンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupOllamaModelsEndpoints(app: express.Express): void {
+  app.get('/api/tags', handleOllamaTags)
+
+  // クライアントの接続確認用
+  app.get('/api/version', (_req: express.Request, res: express.Response) => {
+    res.json({ version: '0.0.0' })
+  })
+}
+
+/**
+ * Ollamaのモデル名からタグ（`:latest`）を取り除く
+ * @param {string} model モデル名
+ * @returns {string} タグを除いたモデル名
+ */
+function stripLatestTag(model: string): string {
+  return model.endsWith(':latest') ? model.slice(0, -':latest'.length) : model
+}
+
+/**
+ * Ollama互換の/api/chatリクエストを処理する
+ * - リクエストバリデーション
+ * - モデル取得
+ * - LM APIへのリクエスト送信
+ * - ストリーミング/非ストリーミングレスポンス処理
+ * - エラーハンドリング
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleOllamaChat(req: express.Request, res: express.Response) {
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+
+  try {
+    const body = req.body as OllamaChatRequest
+    logger.debug('Received Ollama chat request', { body })
+
+    // 必須フィールドのバリデーション
+    validateOllamaRequest(body)
+    if (!Array.isArray(body.messages)) {
+      const message = 'The messages field must be an array'
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_request_error',
+      }
+      throw error
+    }
+
+    // Ollamaはstream未指定時にストリーミングする
+    const isStreaming = body.stream !== false
+
+    // モデル取得
+    const { vsCodeModel } = await getVSCodeModel(
+      stripLatestTag(body.model),
+      'openai',
+    )
+
+    // Ollamaリクエスト→VSCode LM API形式変換
+    const { messages, options, inputTokens } =
+      await convertOllamaChatRequestToVSCodeRequest(body, vsCodeModel)
+
+    // LM APIへリクエスト送信
+    const response = await awaitWithRequestCancellation(
+      vsCodeModel.sendRequest(messages, options, cancellation.token),
+      cancellation,
+    )
+    logger.debug('Received response from LM API')
+
+    // レスポンスをOllama形式に変換
+    const ollamaResponse = convertVSCodeResponseToOllamaChatResponse(
+      response,
+      vsCodeModel,
+      isStreaming,
+      inputTokens,
+      body.model,
+    )
+
+    // ストリーミングレスポンス処理
+    if (isStreaming) {
+      await handleStreamingResponse(
+        res,
+        withRequestCancellation(
+          ollamaResponse as AsyncIterable<OllamaChatResponse>,
+          cancellation,
+        ),
+        req.originalUrl || req.url,
+      )
+      return
+    }
+
+    // 非ストリーミングレスポンス処理
+    const result = await awaitWithRequestCancellation(
+      ollamaResponse as Promise<OllamaChatResponse>,
+      cancellation,
+    )
+    logger.debug('Ollama chat response', { result })
+    res.json(result)
+  } catch (error) {
+    const { statusCode, errorObject } = handleOllamaError(
+      error as vscode.LanguageModelError,
+    )
+    setRetryAfterHeaders(res, error)
+    res.status(statusCode).json(errorObject)
+  } finally {
+    cancellation.dispose()
+  }
+}
+
+/**
+ * Ollama互換の/api/generateリクエストを処理する
+ * - リクエストバリデーション
+ * - モデル取得
+ * - LM APIへのリクエスト送信
+ * - ストリーミング/非ストリーミングレスポンス処理
+ * - エラーハンドリング
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleOllamaGenerate(
+  req: express.Request,
+  res: express.Response,
+) {
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+
+  try {
+    const body = req.body as OllamaGenerateRequest
+    logger.debug('Received Ollama generate request', { body })
+
+    // 必須フィールドのバリデーション
+    validateOllamaRequest(body)
+
+    // Ollamaはstream未指定時にストリーミングする
+    const isStreaming = body.stream !== false
+
+    // モデル取得
+    const { vsCodeModel } = await getVSCodeModel(
+      stripLatestTag(body.model),
+      'openai',
+    )
+
+    // Ollamaリクエスト→VSCode LM API形式変換
+    const { messages, options, inputTokens } =
+      await convertOllamaGenerateRequestToVSCodeRequest(body, vsCodeModel)
+
+    // LM APIへリクエスト送信
+    const response = await awaitWithRequestCancellation(
+      vsCodeModel.sendRequest(messages, options, cancellation.token),
+      cancellation,
+    )
+    logger.debug('Received response from LM API')
+
+    // レスポンスをOllama形式に変換
+    const ollamaResponse = convertVSCodeResponseToOllamaGenerateResponse(
+      response,
+      vsCodeModel,
+      isStreaming,
+      inputTokens,
+      body.model,
+    )
+
+    // ストリーミングレスポンス処理
+    if (isStreaming) {
+      await handleStreamingResponse(
+        res,
+        withRequestCancellation(
+          ollamaResponse as AsyncIterable<OllamaGenerateResponse>,
+          cancellation,
+        ),
+        req.originalUrl || req.url,
+      )
+      return
+    }
+
+    // 非ストリーミングレスポンス処理
+    const result = await awaitWithRequestCancellation(
+      ollamaResponse as Promise<OllamaGenerateResponse>,
+      cancellation,
+    )
+    logger.debug('Ollama generate response', { result })
+    res.json(result)
+  } catch (error) {
+    const { statusCode, errorObject } = handleOllamaError(
+      error as vscode.LanguageModelError,
+    )
+    setRetryAfterHeaders(res, error)
+    res.status(statusCode).json(errorObject)
+  } finally {
+    cancellation.dispose()
+  }
+}
+
+/**
+ * Ollamaリクエストの必須フィールドをバリデーションする
+ * @param {OllamaChatRequest | OllamaGenerateRequest} body
+ * @throws エラー時は例外をスロー
+ */
+function validateOllamaRequest(
+  body: OllamaChatRequest | OllamaGenerateRequest,
+) {
+  // modelフィールドの存在チェック
+  if (!body.model) {
+    const message = 'model is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+}
+
+/**
+ * ストリーミングレスポンスをNDJSON形式（1行1JSON）でクライアントに送信する
+ * @param {express.Response} res
+ * @param {AsyncIterable<OllamaChatResponse | OllamaGenerateResponse>} stream
+ * @param {string} reqPath
+ * @returns {Promise<void>}
+ */
+async function handleStreamingResponse(
+  res: express.Response,
+  stream: AsyncIterable<OllamaChatResponse | OllamaGenerateResponse>,
+  reqPath: string,
+): Promise<void> {
+  res.setHeader('Content-Type', 'application/x-ndjson')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+
+  logger.debug('Streaming started', { path: reqPath })
+  let chunkIndex = 0
+
+  try {
+    // ストリーミングレスポンスを逐次送信
+    for await (const chunk of stream) {
+      const data = JSON.stringify(chunk)
+      res.write(`${data}\n`)
+      logger.debug(`Streaming chunk: ${data}`)
+      chunkIndex++
+    }
+
+    // 正常終了
+    logger.debug('Streaming ended', {
+      path: reqPath,
+      chunkCount: chunkIndex,
+    })
+  } catch (error) {
+    // エラー発生時はOllama互換エラーを1行送信し、ストリームを終了
+    const { errorObject } = handleOllamaError(
+      error as vscode.LanguageModelError,
+    )
+    res.write(`${JSON.stringify(errorObject)}\n`)
+    logger.error('Streaming error', { error, path: reqPath })
+  } finally {
+    // ストリーム終了
+    res.end()
+  }
+}
+
+/**
+ * VSCode LanguageModelError を Ollama 互換エラー形式に変換し、ログ出力する
+ * @param {vscode.LanguageModelError} error
+ * @returns { statusCode: number, errorObject: { error: string } }
+ */
+function handleOllamaError(error: vscode.LanguageModelError): {
+  statusCode: number
+  errorObject: { error: string }
+} {
+  logger.error('VSCode LM API error', {
+    cause: error.cause,
+    code: error.code,
+    message: error.message,
+    name: error.name,
+    stack: error.stack,
+  })
+
+  // LanguageModelError.name に応じてステータスコードをマッピング
+  let statusCode = 500
+  switch (error.name) {
+    case 'InvalidMessageFormat':
+    case 'InvalidModel':
+      statusCode = 400
+      break
+    case 'NoPermissions':
+    case 'Blocked':
+      statusCode = 403
+      break
+    case 'NotFound':
+      statusCode = 404
+      break
+    case 'ChatQuotaExceeded':
+      statusCode = 429
+      break
+    case 'Timeout':
+      statusCode = 504
+      break
+    case 'QueueFull':
+      // Ollamaはキューがいっぱいの場合に503を返す
+      statusCode = 503
+      break
+  }
+
+  // Ollama互換エラー形式で返却
+  const errorObject = {
+    error: error.message || 'An unknown error has occurred',
+  }
+  logger.error(`Ollama API error: ${errorObject.error}`, errorObject)
+
+  return { statusCode, errorObject }
+}
+
+/**
+ * VSCodeのモデルをOllama互換のモデル情報に変換する
+ * @param {string} name モデル名
+ * @param {string} family モデルファミリー
+ * @returns {OllamaModel}
+ */
+function toOllamaModel(name: string, family: string): OllamaModel {
+  return {
+    name,
+    model: name,
+    modified_at: new Date().toISOString(),
+    size: 0,
+    digest: '',
+    details: {
+      format: '',
+      family,
+      families: [family],
+      parameter_size: '',
+      quantization_level: '',
+    },
+  }
+}
+
+/**
+ * Ollama互換のモデル一覧リクエスト（/api/tags）を処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleOllamaTags(_req: express.Request, res: express.Response) {
+  try {
+    // 利用可能なモデルを取得
+    const availableModels = await modelManager.getAvailableModels()
+
+    // Ollama API形式に変換
+    const models: OllamaModel[] = availableModels.map(model =>
+      toOllamaModel(model.id, model.family),
+    )
+
+    // プロキシモデルIDも追加
+    models.push(toOllamaModel('vscode-lm-proxy', 'vscode-lm-proxy'))
+
+    res.json({ models })
+  } catch (error) {
+    const { statusCode, errorObject } = handleOllamaError(
+      error as vscode.LanguageModelError,
+    )
+    res.status(statusCode).json(errorObject)
+  }
+}
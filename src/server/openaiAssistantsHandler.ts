@@ -0,0 +1,1098 @@
+import type express from 'express'
+import type {
+  Assistant,
+  AssistantCreateParams,
+  AssistantDeleted,
+  AssistantStreamEvent,
+  AssistantUpdateParams,
+} from 'openai/resources/beta/assistants'
+import type {
+  Message,
+  MessageCreateParams,
+  MessageDeleted,
+  MessageUpdateParams,
+} from 'openai/resources/beta/threads/messages'
+import type {
+  Run,
+  RunCreateParams,
+  RunSubmitToolOutputsParams,
+  RunUpdateParams,
+} from 'openai/resources/beta/threads/runs/runs'
+import type { RunStep } from 'openai/resources/beta/threads/runs/steps'
+import type {
+  Thread,
+  ThreadCreateAndRunParams,
+  ThreadCreateParams,
+  ThreadDeleted,
+  ThreadUpdateParams,
+} from 'openai/resources/beta/threads/threads'
+import type * as vscode from 'vscode'
+import { assistantsRunner } from '../assistants/runner'
+import {
+  type AssistantsCollection,
+  assistantsStore,
+  createAssistantsId,
+} from '../assistants/store'
+import { convertMessageCreateContent } from '../converter/openaiAssistantsConverter'
+import { logger } from '../utils/logger'
+import { handleChatCompletionError } from './openaiHandler'
+import { sendSSEStream } from './sse'
+
+/**
+ * OpenAI互換のAssistants API（Assistants / Threads / Messages / Runs / Run Steps）エンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupOpenAIAssistantsEndpoints(app: express.Express): void {
+  for (const basePath of ['/openai', '/openai/v1']) {
+    // Assistants
+    app.post(`${basePath}/assistants`, handleCreateAssistant)
+    app.get(`${basePath}/assistants`, handleListAssistants)
+    app.get(`${basePath}/assistants/:assistantId`, handleRetrieveAssistant)
+    app.post(`${basePath}/assistants/:assistantId`, handleModifyAssistant)
+    app.delete(`${basePath}/assistants/:assistantId`, handleDeleteAssistant)
+
+    // Threads（/threads/runsは/threads/:threadIdより先に登録する）
+    app.post(`${basePath}/threads/runs`, handleCreateThreadAndRun)
+    app.post(`${basePath}/threads`, handleCreateThread)
+    app.get(`${basePath}/threads/:threadId`, handleRetrieveThread)
+    app.post(`${basePath}/threads/:threadId`, handleModifyThread)
+    app.delete(`${basePath}/threads/:threadId`, handleDeleteThread)
+
+    // Messages
+    const messagesPath = `${basePath}/threads/:threadId/messages`
+    app.post(messagesPath, handleCreateMessage)
+    app.get(messagesPath, handleListMessages)
+    app.get(`${messagesPath}/:messageId`, handleRetrieveMessage)
+    app.post(`${messagesPath}/:messageId`, handleModifyMessage)
+    app.delete(`${messagesPath}/:messageId`, handleDeleteMessage)
+
+    // Runs
+    const runsPath = `${basePath}/threads/:threadId/runs`
+    app.post(runsPath, handleCreateRun)
+    app.get(runsPath, handleListRuns)
+    app.get(`${runsPath}/:runId`, handleRetrieveRun)
+    app.post(`${runsPath}/:runId`, handleModifyRun)
+    app.post(`${runsPath}/:runId/cancel`, handleCancelRun)
+    app.post(`${runsPath}/:runId/submit_tool_outputs`, handleSubmitToolOutputs)
+
+    // Run Steps
+    app.get(`${runsPath}/:runId/steps`, handleListRunSteps)
+    app.get(`${runsPath}/:runId/steps/:stepId`, handleRetrieveRunStep)
+  }
+}
+
+/**
+ * アシスタント作成リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCreateAssistant(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const body = req.body as AssistantCreateParams
+    logger.debug('Received assistant create request', { body })
+
+    if (!body.model) {
+      throw createInvalidRequestError('The model field is required')
+    }
+
+    const assistant = await assistantsStore.put<Assistant>('assistants', {
+      id: createAssistantsId('asst'),
+      object: 'assistant',
+      created_at: Math.floor(Date.now() / 1000),
+      name: body.name ?? null,
+      description: body.description ?? null,
+      model: body.model,
+      instructions: body.instructions ?? null,
+      tools: body.tools ?? [],
+      tool_resources: body.tool_resources ?? null,
+      metadata: body.metadata ?? {},
+      temperature: body.temperature ?? null,
+      top_p: body.top_p ?? null,
+      response_format: body.response_format ?? 'auto',
+    })
+    res.json(assistant)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * アシスタント一覧リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleListAssistants(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const assistants = await assistantsStore.list<Assistant>('assistants')
+    res.json(paginate(assistants, req.query))
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * アシスタント取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleRetrieveAssistant(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    res.json(
+      await getStoredObject<Assistant>('assistants', req.params.assistantId),
+    )
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * アシスタント更新リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleModifyAssistant(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const body = req.body as AssistantUpdateParams
+    const assistant = await getStoredObject<Assistant>(
+      'assistants',
+      req.params.assistantId,
+    )
+
+    const updated = await assistantsStore.put<Assistant>('assistants', {
+      ...assistant,
+      ...pickDefined({
+        name: body.name,
+        description: body.description,
+        model: body.model,
+        instructions: body.instructions,
+        tools: body.tools,
+        tool_resources: body.tool_resources,
+        metadata: body.metadata,
+        temperature: body.temperature,
+        top_p: body.top_p,
+        response_format: body.response_format,
+      }),
+    })
+    res.json(updated)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * アシスタント削除リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleDeleteAssistant(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const assistant = await getStoredObject<Assistant>(
+      'assistants',
+      req.params.assistantId,
+    )
+    await assistantsStore.delete('assistants', assistant.id)
+
+    const deleted: AssistantDeleted = {
+      id: assistant.id,
+      object: 'assistant.deleted',
+      deleted: true,
+    }
+    res.json(deleted)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * スレッド作成リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCreateThread(req: express.Request, res: express.Response) {
+  try {
+    const body = (req.body ?? {}) as ThreadCreateParams
+    logger.debug('Received thread create request', { body })
+
+    res.json(await createThread(body))
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * スレッド取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleRetrieveThread(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    res.json(await getStoredObject<Thread>('threads', req.params.threadId))
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * スレッド更新リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleModifyThread(req: express.Request, res: express.Response) {
+  try {
+    const body = req.body as ThreadUpdateParams
+    const thread = await getStoredObject<Thread>('threads', req.params.threadId)
+
+    const updated = await assistantsStore.put<Thread>('threads', {
+      ...thread,
+      ...pickDefined({
+        metadata: body.metadata,
+        tool_resources: body.tool_resources,
+      }),
+    })
+    res.json(updated)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * スレッド削除リクエストを処理する
+ * スレッドに属するメッセージ・Run・Runステップもあわせて削除する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleDeleteThread(req: express.Request, res: express.Response) {
+  try {
+    const thread = await getStoredObject<Thread>('threads', req.params.threadId)
+
+    // 実行中のRunを停止
+    const runs = await assistantsStore.list<Run>(
+      'runs',
+      run => run.thread_id === thread.id,
+    )
+    for (const run of runs) {
+      assistantsRunner.cancelRun(run.id)
+    }
+
+    // スレッドに属するオブジェクトを削除
+    for (const collection of ['messages', 'runs', 'steps'] as const) {
+      const items = await assistantsStore.list<{
+        id: string
+        created_at: number
+        thread_id: string
+      }>(collection, item => item.thread_id === thread.id)
+      for (const item of items) {
+        await assistantsStore.delete(collection, item.id)
+      }
+    }
+    await assistantsStore.delete('threads', thread.id)
+
+    const deleted: ThreadDeleted = {
+      id: thread.id,
+      object: 'thread.deleted',
+      deleted: true,
+    }
+    res.json(deleted)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * メッセージ作成リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCreateMessage(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const body = req.body as MessageCreateParams
+    const thread = await getStoredObject<Thread>('threads', req.params.threadId)
+
+    // 実行中のRunがあるスレッドにはメッセージを追加できない
+    await assertNoActiveRun(thread.id)
+
+    res.json(await createMessage(thread.id, body))
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * メッセージ一覧リクエストを処理する（run_idでの絞り込みに対応）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleListMessages(req: express.Request, res: express.Response) {
+  try {
+    const thread = await getStoredObject<Thread>('threads', req.params.threadId)
+    const runId = req.query.run_id
+    const messages = await assistantsStore.list<Message>(
+      'messages',
+      message =>
+        message.thread_id === thread.id &&
+        (typeof runId !== 'string' || message.run_id === runId),
+    )
+    res.json(paginate(messages, req.query))
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * メッセージ取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleRetrieveMessage(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    res.json(
+      await getThreadObject<Message>(
+        'messages',
+        req.params.threadId,
+        req.params.messageId,
+      ),
+    )
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * メッセージ更新リクエストを処理する（metadataのみ更新可能）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleModifyMessage(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const body = req.body as MessageUpdateParams
+    const message = await getThreadObject<Message>(
+      'messages',
+      req.params.threadId,
+      req.params.messageId,
+    )
+
+    const updated = await assistantsStore.put<Message>('messages', {
+      ...message,
+      ...pickDefined({ metadata: body.metadata }),
+    })
+    res.json(updated)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * メッセージ削除リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleDeleteMessage(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const message = await getThreadObject<Message>(
+      'messages',
+      req.params.threadId,
+      req.params.messageId,
+    )
+    await assistantsStore.delete('messages', message.id)
+
+    const deleted: MessageDeleted = {
+      id: message.id,
+      object: 'thread.message.deleted',
+      deleted: true,
+    }
+    res.json(deleted)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * Run作成リクエストを処理する
+ * additional_messagesはRunの実行前にスレッドへ追加する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCreateRun(req: express.Request, res: express.Response) {
+  try {
+    const body = req.body as RunCreateParams
+    logger.debug('Received run create request', { body })
+
+    const thread = await getStoredObject<Thread>('threads', req.params.threadId)
+    const assistant = await getStoredObject<Assistant>(
+      'assistants',
+      body.assistant_id,
+    )
+
+    // 1つのスレッドで同時に実行できるRunは1つのみ
+    await assertNoActiveRun(thread.id)
+
+    for (const additionalMessage of body.additional_messages ?? []) {
+      await createMessage(thread.id, additionalMessage)
+    }
+
+    const run = await createRun(thread.id, assistant, body)
+    await sendRun(req, res, run, [{ event: 'thread.run.created', data: run }])
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * スレッド作成とRun作成を同時に行うリクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCreateThreadAndRun(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const body = req.body as ThreadCreateAndRunParams
+    logger.debug('Received thread create and run request', { body })
+
+    const assistant = await getStoredObject<Assistant>(
+      'assistants',
+      body.assistant_id,
+    )
+    const thread = await createThread(body.thread ?? {})
+
+    const run = await createRun(thread.id, assistant, body)
+    await sendRun(req, res, run, [
+      { event: 'thread.created', data: thread },
+      { event: 'thread.run.created', data: run },
+    ])
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * Run一覧リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleListRuns(req: express.Request, res: express.Response) {
+  try {
+    const thread = await getStoredObject<Thread>('threads', req.params.threadId)
+    const runs = await assistantsStore.list<Run>(
+      'runs',
+      run => run.thread_id === thread.id,
+    )
+    const recovered = await Promise.all(
+      runs.map(run => assistantsRunner.recoverRun(run)),
+    )
+    res.json(paginate(recovered, req.query))
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * Run取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleRetrieveRun(req: express.Request, res: express.Response) {
+  try {
+    res.json(await getRun(req.params.threadId, req.params.runId))
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * Run更新リクエストを処理する（metadataのみ更新可能）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleModifyRun(req: express.Request, res: express.Response) {
+  try {
+    const body = req.body as RunUpdateParams
+    const run = await getRun(req.params.threadId, req.params.runId)
+
+    const updated = await assistantsStore.put<Run>('runs', {
+      ...run,
+      ...pickDefined({ metadata: body.metadata }),
+    })
+    res.json(updated)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * Runキャンセルリクエストを処理する
+ * 実行中のRunはcancellingにしてLM APIへのリクエストをキャンセルし、
+ * ツール出力待ちのRunはその場でcancelledにする
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCancelRun(req: express.Request, res: express.Response) {
+  try {
+    const run = await getRun(req.params.threadId, req.params.runId)
+
+    if (run.status === 'requires_action') {
+      const now = Math.floor(Date.now() / 1000)
+
+      // 出力待ちのツールコールのステップもキャンセル
+      const steps = await assistantsStore.list<RunStep>(
+        'steps',
+        step => step.run_id === run.id && step.status === 'in_progress',
+      )
+      for (const step of steps) {
+        await assistantsStore.put<RunStep>('steps', {
+          ...step,
+          status: 'cancelled',
+          cancelled_at: now,
+        })
+      }
+
+      const cancelled = await assistantsStore.put<Run>('runs', {
+        ...run,
+        status: 'cancelled',
+        cancelled_at: now,
+        required_action: null,
+      })
+      res.json(cancelled)
+      return
+    }
+
+    if (!assistantsRunner.isRunning(run.id)) {
+      throw createInvalidRequestError(
+        `Cannot cancel run with status '${run.status}'.`,
+      )
+    }
+
+    const cancelling = await assistantsStore.put<Run>('runs', {
+      ...run,
+      status: 'cancelling',
+    })
+    assistantsRunner.cancelRun(run.id)
+    res.json(cancelling)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * ツール出力送信リクエストを処理する
+ * 出力をツールコールのステップに記録し、Runを再実行する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleSubmitToolOutputs(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const body = req.body as RunSubmitToolOutputsParams
+    logger.debug('Received submit tool outputs request', { body })
+
+    const run = await getRun(req.params.threadId, req.params.runId)
+    if (run.status !== 'requires_action' || !run.required_action) {
+      throw createInvalidRequestError(
+        `Runs in status "${run.status}" do not accept tool outputs.`,
+      )
+    }
+
+    // 出力を呼び出しIDで対応付け、すべてのツールコールの出力が揃っているか検証
+    const outputs = new Map(
+      (body.tool_outputs ?? []).map(toolOutput => [
+        toolOutput.tool_call_id,
+        toolOutput.output ?? '',
+      ]),
+    )
+    const missing = run.required_action.submit_tool_outputs.tool_calls.filter(
+      toolCall => !outputs.has(toolCall.id),
+    )
+    if (missing.length > 0) {
+      throw createInvalidRequestError(
+        `Expected tool outputs for call_ids ${missing.map(toolCall => toolCall.id)}`,
+      )
+    }
+
+    // ツールコールのステップに出力を記録して完了
+    const steps = await assistantsStore.list<RunStep>(
+      'steps',
+      step =>
+        step.run_id === run.id &&
+        step.status === 'in_progress' &&
+        step.step_details.type === 'tool_calls',
+    )
+    const now = Math.floor(Date.now() / 1000)
+    const completedSteps: RunStep[] = []
+    for (const step of steps) {
+      if (step.step_details.type !== 'tool_calls') {
+        continue
+      }
+      completedSteps.push(
+        await assistantsStore.put<RunStep>('steps', {
+          ...step,
+          status: 'completed',
+          completed_at: now,
+          step_details: {
+            ...step.step_details,
+            tool_calls: step.step_details.tool_calls.map(toolCall =>
+              toolCall.type === 'function'
+                ? {
+                    ...toolCall,
+                    function: {
+                      ...toolCall.function,
+                      output: outputs.get(toolCall.id) ?? '',
+                    },
+                  }
+                : toolCall,
+            ),
+          },
+        }),
+      )
+    }
+
+    const queued = await assistantsStore.put<Run>('runs', {
+      ...run,
+      status: 'queued',
+      required_action: null,
+    })
+    await sendRun(
+      req,
+      res,
+      queued,
+      completedSteps.map(step => ({
+        event: 'thread.run.step.completed' as const,
+        data: step,
+      })),
+    )
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * Runステップ一覧リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleListRunSteps(req: express.Request, res: express.Response) {
+  try {
+    const run = await getRun(req.params.threadId, req.params.runId)
+    const steps = await assistantsStore.list<RunStep>(
+      'steps',
+      step => step.run_id === run.id,
+    )
+    res.json(paginate(steps, req.query))
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * Runステップ取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleRetrieveRunStep(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const run = await getRun(req.params.threadId, req.params.runId)
+    const step = await getThreadObject<RunStep>(
+      'steps',
+      run.thread_id,
+      req.params.stepId,
+    )
+    if (step.run_id !== run.id) {
+      throw createNotFoundError('steps', step.id)
+    }
+    res.json(step)
+  } catch (error) {
+    sendAssistantsError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * スレッドを作成し、初期メッセージを追加する
+ * @param {ThreadCreateParams} params スレッド作成パラメータ
+ * @returns {Promise<Thread>}
+ */
+async function createThread(params: ThreadCreateParams): Promise<Thread> {
+  const thread = await assistantsStore.put<Thread>('threads', {
+    id: createAssistantsId('thread'),
+    object: 'thread',
+    created_at: Math.floor(Date.now() / 1000),
+    metadata: params.metadata ?? {},
+    tool_resources: params.tool_resources ?? null,
+  })
+
+  for (const message of params.messages ?? []) {
+    await createMessage(thread.id, message)
+  }
+  return thread
+}
+
+/**
+ * スレッドにメッセージを追加する
+ * @param {string} threadId スレッドID
+ * @param {MessageCreateParams} params メッセージ作成パラメータ
+ * @returns {Promise<Message>}
+ */
+async function createMessage(
+  threadId: string,
+  params: MessageCreateParams,
+): Promise<Message> {
+  if (params.role !== 'user' && params.role !== 'assistant') {
+    throw createInvalidRequestError(
+      "The role field must be either 'user' or 'assistant'",
+    )
+  }
+  if (params.content === undefined || params.content === null) {
+    throw createInvalidRequestError('The content field is required')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  return assistantsStore.put<Message>('messages', {
+    id: createAssistantsId('msg'),
+    object: 'thread.message',
+    created_at: now,
+    thread_id: threadId,
+    assistant_id: null,
+    run_id: null,
+    role: params.role,
+    content: convertMessageCreateContent(params.content),
+    attachments: params.attachments ?? null,
+    metadata: params.metadata ?? {},
+    status: 'completed',
+    completed_at: now,
+    incomplete_at: null,
+    incomplete_details: null,
+  })
+}
+
+/**
+ * Runを作成する（未指定のパラメータはアシスタントの設定を使用）
+ * @param {string} threadId スレッドID
+ * @param {Assistant} assistant アシスタント
+ * @param {RunCreateParams | ThreadCreateAndRunParams} params Run作成パラメータ
+ * @returns {Promise<Run>}
+ */
+async function createRun(
+  threadId: string,
+  assistant: Assistant,
+  params: RunCreateParams | ThreadCreateAndRunParams,
+): Promise<Run> {
+  // instructionsの組み立て（additional_instructionsは末尾に追加）
+  let instructions = params.instructions ?? assistant.instructions ?? ''
+  if ('additional_instructions' in params && params.additional_instructions) {
+    instructions = [instructions, params.additional_instructions]
+      .filter(Boolean)
+      .join('\n\n')
+  }
+
+  return assistantsStore.put<Run>('runs', {
+    id: createAssistantsId('run'),
+    object: 'thread.run',
+    created_at: Math.floor(Date.now() / 1000),
+    thread_id: threadId,
+    assistant_id: assistant.id,
+    status: 'queued',
+    required_action: null,
+    last_error: null,
+    expires_at: null,
+    started_at: null,
+    cancelled_at: null,
+    failed_at: null,
+    completed_at: null,
+    incomplete_details: null,
+    model: params.model ?? assistant.model,
+    instructions,
+    tools: params.tools ?? assistant.tools,
+    metadata: params.metadata ?? {},
+    usage: null,
+    temperature: params.temperature ?? assistant.temperature ?? null,
+    top_p: params.top_p ?? assistant.top_p ?? null,
+    max_prompt_tokens: params.max_prompt_tokens ?? null,
+    max_completion_tokens: params.max_completion_tokens ?? null,
+    truncation_strategy: params.truncation_strategy ?? {
+      type: 'auto',
+      last_messages: null,
+    },
+    response_format:
+      params.response_format ?? assistant.response_format ?? 'auto',
+    tool_choice: params.tool_choice ?? 'auto',
+    parallel_tool_calls: params.parallel_tool_calls ?? true,
+  })
+}
+
+/**
+ * Runを実行し、レスポンスを送信する
+ * stream: trueの場合は実行中のイベントをSSEで送信し、
+ * それ以外の場合はRunオブジェクトを即座に返してバックグラウンドで実行する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @param {Run} run 実行するRun
+ * @param {AssistantStreamEvent[]} initialEvents 実行前に送信するイベント
+ * @returns {Promise<void>}
+ */
+async function sendRun(
+  req: express.Request,
+  res: express.Response,
+  run: Run,
+  initialEvents: AssistantStreamEvent[],
+): Promise<void> {
+  const events = assistantsRunner.startRun(run.id)
+
+  if (req.body?.stream !== true) {
+    // イベントを読み捨ててバックグラウンドで実行
+    void (async () => {
+      try {
+        for await (const _event of events) {
+          // 結果はストアに保存されるため、イベントは使用しない
+        }
+      } catch (error) {
+        logger.error('Assistants run error', error as Error)
+      }
+    })()
+    res.json(run)
+    return
+  }
+
+  // 作成時のイベントに続けて実行中のイベントを送信
+  async function* allEvents() {
+    yield* initialEvents
+    yield* events
+  }
+
+  await sendSSEStream(res, allEvents(), {
+    reqPath: req.originalUrl || req.url,
+    toEvent: event => ({ event: event.event, data: event.data }),
+    done: { event: 'done', data: '[DONE]' },
+    // エラー発生時はerrorイベントを送信
+    toErrorEvent: error => {
+      const { apiError } = handleChatCompletionError(
+        error as vscode.LanguageModelError,
+      )
+      return {
+        event: 'error',
+        data: { code: apiError.code, message: apiError.message },
+      }
+    },
+  })
+}
+
+/**
+ * スレッドに実行中のRunがないことを検証する
+ * @param {string} threadId スレッドID
+ * @throws 実行中またはツール出力待ちのRunがある場合は例外をスロー
+ */
+async function assertNoActiveRun(threadId: string): Promise<void> {
+  const runs = await assistantsStore.list<Run>(
+    'runs',
+    run => run.thread_id === threadId,
+  )
+  for (const run of runs) {
+    const { status } = await assistantsRunner.recoverRun(run)
+    if (
+      status === 'queued' ||
+      status === 'in_progress' ||
+      status === 'cancelling' ||
+      status === 'requires_action'
+    ) {
+      throw createInvalidRequestError(
+        `Thread ${threadId} already has an active run ${run.id}.`,
+      )
+    }
+  }
+}
+
+/**
+ * Runを取得する（中断されたRunは失敗として扱う）
+ * @param {string} threadId スレッドID
+ * @param {string} runId RunのID
+ * @returns {Promise<Run>}
+ */
+async function getRun(threadId: string, runId: string): Promise<Run> {
+  const run = await getThreadObject<Run>('runs', threadId, runId)
+  return assistantsRunner.recoverRun(run)
+}
+
+/**
+ * スレッドに属するオブジェクトを取得する
+ * @param {AssistantsCollection} collection コレクション
+ * @param {string} threadId スレッドID
+ * @param {string} id オブジェクトID
+ * @returns {Promise<T>}
+ * @throws 存在しない、または別のスレッドに属する場合は例外をスロー
+ */
+async function getThreadObject<
+  T extends { id: string; created_at: number; thread_id: string },
+>(collection: AssistantsCollection, threadId: string, id: string): Promise<T> {
+  const item = await getStoredObject<T>(collection, id)
+  if (item.thread_id !== threadId) {
+    throw createNotFoundError(collection, id)
+  }
+  return item
+}
+
+/**
+ * 保存済みのオブジェクトを取得する
+ * @param {AssistantsCollection} collection コレクション
+ * @param {string} id オブジェクトID
+ * @returns {Promise<T>}
+ * @throws 存在しない場合は例外をスロー
+ */
+async function getStoredObject<T extends { id: string; created_at: number }>(
+  collection: AssistantsCollection,
+  id: string | undefined,
+): Promise<T> {
+  const item = id ? await assistantsStore.get<T>(collection, id) : undefined
+  if (!item) {
+    throw createNotFoundError(collection, id)
+  }
+  return item
+}
+
+/**
+ * リストをOpenAI互換のページング形式に変換する（limit / order / after / beforeに対応）
+ * @param {T[]} items 作成日時の古い順のリスト
+ * @param {express.Request['query']} query クエリパラメータ
+ * @returns ページングされたリスト
+ */
+function paginate<T extends { id: string }>(
+  items: T[],
+  query: express.Request['query'],
+) {
+  // デフォルトは新しい順
+  const ordered = query.order === 'asc' ? items : [...items].reverse()
+
+  let start = 0
+  let end = ordered.length
+  if (typeof query.after === 'string') {
+    start = ordered.findIndex(item => item.id === query.after) + 1
+  }
+  if (typeof query.before === 'string') {
+    const index = ordered.findIndex(item => item.id === query.before)
+    end = index === -1 ? end : index
+  }
+
+  const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 100)
+  const data = ordered.slice(start, Math.min(end, start + limit))
+
+  return {
+    object: 'list',
+    data,
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+    has_more: start + limit < end,
+  }
+}
+
+/**
+ * undefinedのプロパティを取り除く（更新リクエストで指定された項目のみ上書きするため）
+ * @param {T} values 値
+ * @returns {Partial<T>}
+ */
+function pickDefined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  ) as Partial<T>
+}
+
+/**
+ * リクエスト不正エラーを生成する
+ * @param {string} message エラーメッセージ
+ * @returns {vscode.LanguageModelError}
+ */
+function createInvalidRequestError(message: string): vscode.LanguageModelError {
+  return {
+    ...new Error(message),
+    message,
+    name: 'InvalidMessageFormat',
+    code: 'invalid_request_error',
+  }
+}
+
+/**
+ * オブジェクトが存在しないエラーを生成する
+ * @param {AssistantsCollection} collection コレクション
+ * @param {string | undefined} id オブジェクトID
+ * @returns {vscode.LanguageModelError}
+ */
+function createNotFoundError(
+  collection: AssistantsCollection,
+  id: string | undefined,
+): vscode.LanguageModelError {
+  const message = `No ${collection} found with id '${id}'.`
+  return {
+    ...new Error(message),
+    message,
+    name: 'NotFound',
+    code: 'not_found',
+  }
+}
+
+/**
+ * Assistants APIのエラーをOpenAI互換エラー形式で送信する
+ * @param {express.Response} res レスポンス
+ * @param {vscode.LanguageModelError} error エラー
+ */
+function sendAssistantsError(
+  res: express.Response,
+  error: vscode.LanguageModelError,
+) {
+  const { statusCode, apiError } = handleChatCompletionError(error)
+  res.status(statusCode).json({ error: apiError })
+}
@@ -0,0 +1,468 @@
+import type express from 'express'
+import type {
+  Batch,
+  BatchCreateParams,
+  ChatCompletion,
+  ChatCompletionCreateParams,
+} from 'openai/resources'
+import type * as vscode from 'vscode'
+import {
+  type BatchJob,
+  type BatchRequest,
+  type BatchResult,
+  batchManager,
+} from '../batch/manager'
+import { fileManager } from '../files/manager'
+import { generateRandomId } from '../utils'
+import { logger } from '../utils/logger'
+import { getStoredFile } from './openaiFilesHandler'
+import {
+  handleChatCompletionError,
+  sendChatCompletionRequest,
+} from './openaiHandler'
+
+// サポートするバッチのエンドポイント
+const SUPPORTED_ENDPOINTS = ['/v1/chat/completions']
+
+/**
+ * 入力ファイルの1行（個別リクエスト）
+ */
+type BatchInputLine = {
+  custom_id: string
+  method: string
+  url: string
+  body: ChatCompletionCreateParams
+}
+
+/**
+ * OpenAI互換のBatch APIエンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupOpenAIBatchEndpoints(app: express.Express): void {
+  // 入力ファイルの各行はChat Completions APIと同じ変換経路で処理し、
+  // 終了時に出力ファイル・エラーファイルを生成する
+  batchManager.registerRunner(
+    'openai',
+    runOpenAIBatchRequest,
+    writeBatchOutputFiles,
+  )
+
+  for (const basePath of ['/openai/batches', '/openai/v1/batches']) {
+    app.post(basePath, handleCreateBatch)
+    app.get(basePath, handleListBatches)
+    app.get(`${basePath}/:batchId`, handleRetrieveBatch)
+    app.post(`${basePath}/:batchId/cancel`, handleCancelBatch)
+  }
+}
+
+/**
+ * バッチ内の個別リクエストをChat Completions APIとして実行する
+ * @param {unknown} params Chat Completions APIのリクエストボディ
+ * @param {vscode.CancellationToken} cancellationToken バッチジョブのキャンセル時にキャンセルされるトークン
+ * @returns {Promise<Omit<BatchResult, 'customId'>>}
+ */
+async function runOpenAIBatchRequest(
+  params: unknown,
+  cancellationToken: vscode.CancellationToken,
+): Promise<Omit<BatchResult, 'customId'>> {
+  try {
+    // バッチではストリーミングせず、対話的なリクエストより後に実行する
+    const completion = (await sendChatCompletionRequest(
+      { ...(params as ChatCompletionCreateParams), stream: false },
+      cancellationToken,
+      'background',
+    )) as ChatCompletion
+    return { type: 'succeeded', statusCode: 200, body: completion }
+  } catch (error) {
+    const { statusCode, apiError } = handleChatCompletionError(
+      error as vscode.LanguageModelError,
+    )
+    return { type: 'errored', statusCode, body: { error: apiError } }
+  }
+}
+
+/**
+ * バッチ終了時に処理結果から出力ファイルとエラーファイルを生成する
+ * @param {BatchJob} job バッチジョブ
+ * @returns {Promise<Record<string, unknown>>} 生成したファイルのID
+ */
+async function writeBatchOutputFiles(
+  job: BatchJob,
+): Promise<Record<string, unknown>> {
+  const results = await batchManager.getResults(job.id)
+  const outputLines: string[] = []
+  const errorLines: string[] = []
+
+  for (const result of results) {
+    const line = {
+      id: `batch_req_${generateRandomId()}${generateRandomId()}`,
+      custom_id: result.customId,
+      response:
+        result.statusCode !== undefined
+          ? {
+              status_code: result.statusCode,
+              request_id: generateRandomId(),
+              body: result.body,
+            }
+          : null,
+      error:
+        result.type === 'canceled' || result.type === 'expired'
+          ? {
+              code:
+                result.type === 'canceled'
+                  ? 'batch_cancelled'
+                  : 'batch_expired',
+              message: `This request was not executed because the batch was ${
+                result.type === 'canceled' ? 'cancelled' : 'expired'
+              }.`,
+            }
+          : null,
+    }
+
+    if (result.type === 'succeeded') {
+      outputLines.push(JSON.stringify(line))
+    } else {
+      errorLines.push(JSON.stringify(line))
+    }
+  }
+
+  // 該当する行がある場合のみファイルを生成
+  const fileIds: Record<string, unknown> = {}
+  if (outputLines.length > 0) {
+    const file = await fileManager.createFile(
+      `batch_${job.id}_output.jsonl`,
+      'batch_output',
+      Buffer.from(`${outputLines.join('\n')}\n`),
+    )
+    fileIds.output_file_id = file.id
+  }
+  if (errorLines.length > 0) {
+    const file = await fileManager.createFile(
+      `batch_${job.id}_error.jsonl`,
+      'batch_output',
+      Buffer.from(`${errorLines.join('\n')}\n`),
+    )
+    fileIds.error_file_id = file.id
+  }
+
+  return fileIds
+}
+
+/**
+ * バッチ作成リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCreateBatch(req: express.Request, res: express.Response) {
+  try {
+    const body = req.body as BatchCreateParams
+    logger.debug('Received batch request', { body })
+
+    // 必須フィールドのバリデーション
+    validateBatchCreateRequest(body)
+
+    // 入力ファイルを読み込み、個別リクエストに変換
+    const requests = await readBatchInputFile(body.input_file_id, body.endpoint)
+
+    const job = await batchManager.createJob('openai', 'batch_', requests, {
+      input_file_id: body.input_file_id,
+      endpoint: body.endpoint,
+      completion_window: body.completion_window,
+      metadata: body.metadata ?? null,
+    })
+
+    res.json(toBatch(job))
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * バッチ作成リクエストの必須フィールドをバリデーションする
+ * @param {BatchCreateParams} body
+ * @throws エラー時は例外をスロー
+ */
+function validateBatchCreateRequest(body: BatchCreateParams) {
+  // input_file_idフィールドの存在チェック
+  if (!body.input_file_id) {
+    const message = 'The input_file_id field is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+
+  // endpointのサポートチェック
+  if (!SUPPORTED_ENDPOINTS.includes(body.endpoint)) {
+    const message = `Unsupported endpoint: ${body.endpoint}. Supported endpoints: ${SUPPORTED_ENDPOINTS.join(', ')}`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+
+  // completion_windowのチェック
+  if (body.completion_window !== '24h') {
+    const message = 'The completion_window field must be 24h'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+}
+
+/**
+ * バッチの入力ファイル（JSONL）を読み込み、個別リクエストに変換する
+ * @param {string} fileId 入力ファイルID
+ * @param {string} endpoint バッチのエンドポイント
+ * @returns {Promise<BatchRequest[]>}
+ * @throws 不正な行がある場合は例外をスロー
+ */
+async function readBatchInputFile(
+  fileId: string,
+  endpoint: string,
+): Promise<BatchRequest[]> {
+  const file = await getStoredFile(fileId)
+  if (file.purpose !== 'batch') {
+    const message = `File ${fileId} was not uploaded with purpose batch`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+
+  const content = (await fileManager.getFileContent(fileId)) ?? Buffer.alloc(0)
+  const requests: BatchRequest[] = []
+  const customIds = new Set<string>()
+  const lines = content.toString('utf8').split('\n')
+
+  for (const [index, rawLine] of lines.entries()) {
+    if (rawLine.trim() === '') {
+      continue
+    }
+
+    // 行の形式チェック（エラーメッセージには1始まりの行番号を含める）
+    let line: BatchInputLine
+    try {
+      line = JSON.parse(rawLine) as BatchInputLine
+    } catch {
+      throw createInputLineError(index + 1, 'Invalid JSON')
+    }
+    if (!line.custom_id || !line.body) {
+      throw createInputLineError(index + 1, 'custom_id and body are required')
+    }
+    if (line.url !== endpoint || (line.method ?? 'POST') !== 'POST') {
+      throw createInputLineError(
+        index + 1,
+        `Request must be POST ${endpoint} to match the batch endpoint`,
+      )
+    }
+    if (customIds.has(line.custom_id)) {
+      throw createInputLineError(
+        index + 1,
+        `Duplicate custom_id: ${line.custom_id}`,
+      )
+    }
+
+    customIds.add(line.custom_id)
+    requests.push({ customId: line.custom_id, params: line.body })
+  }
+
+  if (requests.length === 0) {
+    const message = `File ${fileId} does not contain any requests`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_request_error',
+    }
+    throw error
+  }
+
+  return requests
+}
+
+/**
+ * 入力ファイルの不正な行に対するエラーを生成する
+ * @param {number} lineNumber 行番号
+ * @param {string} message エラーメッセージ
+ * @returns {vscode.LanguageModelError}
+ */
+function createInputLineError(
+  lineNumber: number,
+  message: string,
+): vscode.LanguageModelError {
+  const lineMessage = `Line ${lineNumber}: ${message}`
+  return {
+    ...new Error(lineMessage),
+    message: lineMessage,
+    name: 'InvalidMessageFormat',
+    code: 'invalid_request_error',
+  }
+}
+
+/**
+ * バッチ一覧リクエストを処理する（after / limitによるページング）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleListBatches(req: express.Request, res: express.Response) {
+  try {
+    const jobs = await batchManager.listJobs('openai')
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100)
+    const start =
+      typeof req.query.after === 'string'
+        ? jobs.findIndex(job => job.id === req.query.after) + 1
+        : 0
+    const page = jobs.slice(start, start + limit)
+
+    res.json({
+      object: 'list',
+      data: page.map(toBatch),
+      first_id: page[0]?.id ?? null,
+      last_id: page[page.length - 1]?.id ?? null,
+      has_more: start + limit < jobs.length,
+    })
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * バッチ取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleRetrieveBatch(
+  req: express.Request,
+  res: express.Response,
+) {
+  try {
+    const job = await getOpenAIJob(req.params.batchId)
+    res.json(toBatch(job))
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * バッチキャンセルリクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCancelBatch(req: express.Request, res: express.Response) {
+  try {
+    await getOpenAIJob(req.params.batchId)
+    const job = (await batchManager.cancelJob(req.params.batchId)) as BatchJob
+    res.json(toBatch(job))
+  } catch (error) {
+    sendBatchError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * OpenAI APIで作成されたバッチジョブを取得する
+ * @param {string} batchId バッチID
+ * @returns {Promise<BatchJob>}
+ * @throws 存在しない場合は例外をスロー
+ */
+async function getOpenAIJob(batchId: string): Promise<BatchJob> {
+  const job = await batchManager.getJob(batchId)
+  if (!job || job.dialect !== 'openai') {
+    const message = `No such Batch object: ${batchId}`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'NotFound',
+      code: 'batch_not_found',
+    }
+    throw error
+  }
+  return job
+}
+
+/**
+ * バッチジョブをOpenAIのBatch形式に変換する
+ * @param {BatchJob} job バッチジョブ
+ * @returns {Batch}
+ */
+function toBatch(job: BatchJob): Batch {
+  const toSeconds = (time: number | null) =>
+    time === null ? undefined : Math.floor(time / 1000)
+  const counts = job.requestCounts
+  const total =
+    counts.processing +
+    counts.succeeded +
+    counts.errored +
+    counts.canceled +
+    counts.expired
+
+  // 終了したジョブはキャンセル・期限切れ・完了のいずれかとして返す
+  let status: Batch['status'] = 'in_progress'
+  if (job.status === 'canceling') {
+    status = 'cancelling'
+  } else if (job.status === 'ended') {
+    if (job.cancelInitiatedAt !== null) {
+      status = 'cancelled'
+    } else if (counts.expired > 0) {
+      status = 'expired'
+    } else {
+      status = 'completed'
+    }
+  }
+
+  const endedAt = toSeconds(job.endedAt)
+  return {
+    id: job.id,
+    object: 'batch',
+    endpoint: job.metadata.endpoint as string,
+    input_file_id: job.metadata.input_file_id as string,
+    completion_window: job.metadata.completion_window as string,
+    status,
+    output_file_id: job.metadata.output_file_id as string | undefined,
+    error_file_id: job.metadata.error_file_id as string | undefined,
+    created_at: Math.floor(job.createdAt / 1000),
+    in_progress_at: Math.floor(job.createdAt / 1000),
+    expires_at: Math.floor(job.expiresAt / 1000),
+    completed_at: status === 'completed' ? endedAt : undefined,
+    expired_at: status === 'expired' ? endedAt : undefined,
+    cancelling_at: toSeconds(job.cancelInitiatedAt),
+    cancelled_at: status === 'cancelled' ? endedAt : undefined,
+    request_counts: {
+      total,
+      completed: counts.succeeded,
+      failed: counts.errored,
+    },
+    metadata: job.metadata.metadata as Batch['metadata'],
+  }
+}
+
+/**
+ * Batch APIのエラーをOpenAI互換エラー形式で送信する
+ * @param {express.Response} res レスポンス
+ * @param {vscode.LanguageModelError} error エラー
+ */
+function sendBatchError(
+  res: express.Response,
+  error: vscode.LanguageModelError,
+) {
+  const { statusCode, apiError } = handleChatCompletionError(error)
+  res.status(statusCode).json({ error: apiError })
+}
@@ -0,0 +1,257 @@
+import type express from 'express'
+import multer from 'multer'
+import type { FileDeleted, FileObject } from 'openai/resources'
+import type * as vscode from 'vscode'
+import { fileManager, type StoredFile } from '../files/manager'
+import { logger } from '../utils/logger'
+import { handleChatCompletionError } from './openaiHandler'
+
+// アップロード可能なファイルの最大サイズ（OpenAI Batch APIの入力ファイル上限に合わせる）
+const MAX_FILE_SIZE = 200 * 1024 * 1024
+
+// サポートするファイルの用途
+const FILE_PURPOSES = [
+  'assistants',
+  'batch',
+  'fine-tune',
+  'vision',
+  'user_data',
+  'evals',
+]
+
+// multipart/form-dataのファイルはメモリ上で受け取り、fileManagerで保存する
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE },
+})
+
+/**
+ * OpenAI互換のFiles APIエンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupOpenAIFilesEndpoints(app: express.Express): void {
+  for (const basePath of ['/openai/files', '/openai/v1/files']) {
+    app.post(basePath, handleFileUpload, handleCreateFile)
+    app.get(basePath, handleListFiles)
+    app.get(`${basePath}/:fileId`, handleRetrieveFile)
+    app.get(`${basePath}/:fileId/content`, handleFileContent)
+    app.delete(`${basePath}/:fileId`, handleDeleteFile)
+  }
+}
+
+/**
+ * multipart/form-dataのfileフィールドを受け取る
+ * アップロードエラーはOpenAI互換エラー形式で返す
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @param {express.NextFunction} next 次のハンドラ
+ */
+function handleFileUpload(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction,
+) {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err) {
+      const message = (err as Error).message
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_file',
+      }
+      sendFileError(res, error)
+      return
+    }
+    next()
+  })
+}
+
+/**
+ * ファイルアップロードリクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleCreateFile(req: express.Request, res: express.Response) {
+  try {
+    const purpose = req.body?.purpose as string | undefined
+    logger.debug('Received file upload', {
+      filename: req.file?.originalname,
+      purpose,
+    })
+
+    // 必須フィールドのバリデーション
+    if (!req.file) {
+      const message = 'The file field is required'
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_request_error',
+      }
+      throw error
+    }
+    if (!purpose || !FILE_PURPOSES.includes(purpose)) {
+      const message = `The purpose field must be one of ${FILE_PURPOSES}`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_request_error',
+      }
+      throw error
+    }
+
+    const file = await fileManager.createFile(
+      req.file.originalname,
+      purpose,
+      req.file.buffer,
+    )
+    res.json(toFileObject(file))
+  } catch (error) {
+    sendFileError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * ファイル一覧リクエストを処理する（purpose / after / limit / orderに対応）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleListFiles(req: express.Request, res: express.Response) {
+  try {
+    let files = await fileManager.listFiles()
+    if (typeof req.query.purpose === 'string') {
+      files = files.filter(file => file.purpose === req.query.purpose)
+    }
+    if (req.query.order === 'asc') {
+      files.reverse()
+    }
+
+    // afterで指定されたファイルの次から返す
+    const limit = Math.min(Math.max(Number(req.query.limit) || 10000, 1), 10000)
+    const start =
+      typeof req.query.after === 'string'
+        ? files.findIndex(file => file.id === req.query.after) + 1
+        : 0
+    const page = files.slice(start, start + limit)
+
+    res.json({
+      object: 'list',
+      data: page.map(toFileObject),
+      first_id: page[0]?.id ?? null,
+      last_id: page[page.length - 1]?.id ?? null,
+      has_more: start + limit < files.length,
+    })
+  } catch (error) {
+    sendFileError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * ファイル情報取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleRetrieveFile(req: express.Request, res: express.Response) {
+  try {
+    const file = await getStoredFile(req.params.fileId)
+    res.json(toFileObject(file))
+  } catch (error) {
+    sendFileError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * ファイル内容取得リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleFileContent(req: express.Request, res: express.Response) {
+  try {
+    const file = await getStoredFile(req.params.fileId)
+    const content = await fileManager.getFileContent(file.id)
+    res.setHeader('Content-Type', 'application/octet-stream')
+    res.send(content ?? Buffer.alloc(0))
+  } catch (error) {
+    sendFileError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * ファイル削除リクエストを処理する
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleDeleteFile(req: express.Request, res: express.Response) {
+  try {
+    const file = await getStoredFile(req.params.fileId)
+    await fileManager.deleteFile(file.id)
+
+    const deleted: FileDeleted = {
+      id: file.id,
+      object: 'file',
+      deleted: true,
+    }
+    res.json(deleted)
+  } catch (error) {
+    sendFileError(res, error as vscode.LanguageModelError)
+  }
+}
+
+/**
+ * 保存済みファイルを取得する
+ * @param {string} fileId ファイルID
+ * @returns {Promise<StoredFile>}
+ * @throws 存在しない場合は例外をスロー
+ */
+export async function getStoredFile(fileId: string): Promise<StoredFile> {
+  const file = await fileManager.getFile(fileId)
+  if (!file) {
+    const message = `No such File object: ${fileId}`
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'NotFound',
+      code: 'file_not_found',
+    }
+    throw error
+  }
+  return file
+}
+
+/**
+ * 保存済みファイルをOpenAIのFileObject形式に変換する
+ * @param {StoredFile} file 保存済みファイル
+ * @returns {FileObject}
+ */
+export function toFileObject(file: StoredFile): FileObject {
+  return {
+    id: file.id,
+    object: 'file',
+    bytes: file.bytes,
+    created_at: Math.floor(file.createdAt / 1000),
+    filename: file.filename,
+    purpose: file.purpose as FileObject['purpose'],
+    status: 'processed',
+  }
+}
+
+/**
+ * Files APIのエラーをOpenAI互換エラー形式で送信する
+ * @param {express.Response} res レスポンス
+ * @param {vscode.LanguageModelError} error エラー
+ */
+function sendFileError(
+  res: express.Response,
+  error: vscode.LanguageModelError,
+) {
+  const { statusCode, apiError } = handleChatCompletionError(error)
+  res.status(statusCode).json({ error: apiError })
+}
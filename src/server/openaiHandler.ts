@@ -5,16 +5,46 @@ import type {
   ChatCompletion,
   ChatCompletionChunk,
   ChatCompletionCreateParams,
+  Completion,
+  CompletionCreateParams,
   Model,
 } from 'openai/resources'
 import * as vscode from 'vscode'
+import {
+  convertOpenAIChunksToAzureChunks,
+  convertOpenAIResponseToAzureResponse,
+} from '../converter/azureOpenAIConverter'
+import { createMaxTokensContext } from '../converter/maxTokensConverter'
+import {
+  convertOpenAICompletionRequestToVSCodeRequest,
+  convertVSCodeResponseToOpenAICompletionResponse,
+  getCompletionPrompt,
+} from '../converter/openaiCompletionsConverter'
 import {
   convertOpenAIRequestToVSCodeRequest,
   convertVSCodeResponseToOpenAIResponse,
+  mergeOpenAIChunkStreams,
+  mergeOpenAICompletions,
 } from '../converter/openaiConverter'
+import { createStopSequenceContext } from '../converter/stopSequenceConverter'
 import { modelManager } from '../model/manager'
+import {
+  type RequestPriority,
+  requestScheduler,
+  setRetryAfterHeaders,
+} from '../scheduler/manager'
+import { createStructuredOutputContext } from '../structuredOutput/enforcer'
+import { createAgentLoopContext } from '../tools/agentLoop'
 import { logger } from '../utils/logger'
+import {
+  awaitWithRequestCancellation,
+  createLinkedCancellation,
+  createRequestCancellation,
+  disposeAfterResponse,
+  withRequestCancellation,
+} from './cancellation'
 import { getVSCodeModel } from './handler'
+import { sendSSEStream } from './sse'
 
 /**
  * OpenAI互換のChat Completions APIエンドポイントを設定する
@@ -29,6 +59,31 @@ export function setupOpenAIChatCompletionsEndpoints(
   app.post('/openai/v1/chat/completions', handleOpenAIChatCompletions)
 }
 
+/**
+ * OpenAI互換のCompletions API（レガシー）エンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupOpenAICompletionsEndpoints(app: express.Express): void {
+  // OpenAI Completions API互換エンドポイントを登録
+  app.post('/openai/completions', handleOpenAICompletions)
+  app.post('/openai/v1/completions', handleOpenAICompletions)
+}
+
+/**
+ * Azure OpenAI互換のChat Completions APIエンドポイントを設定する
+ * `/openai/deployments/{deployment}/chat/completions?api-version=...` 形式のURLに対応する
+ * （api-keyヘッダーとapi-versionは受け付けるが検証しない）
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupAzureOpenAIEndpoints(app: express.Express): void {
+  app.post(
+    '/openai/deployments/:deployment/chat/completions',
+    handleAzureOpenAIChatCompletions,
+  )
+}
+
 /**
  * OpenAI互換のModels APIエンドポイントを設定する
  * @param {express.Express} app Express.jsアプリケーション
@@ -59,12 +114,346 @@ async function handleOpenAIChatCompletions(
   req: express.Request,
   res: express.Response,
 ) {
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+
   try {
     const body = req.body as ChatCompletionCreateParams
     logger.debug('Received request', { body })
 
+    // ストリーミングモード判定
+    const isStreaming = body.stream === true
+
+    // LM APIへリクエスト送信し、OpenAI形式のレスポンスを取得
+    const openAIResponse = await awaitWithRequestCancellation(
+      sendChatCompletionRequest(body, cancellation.token),
+      cancellation,
+    )
+
+    // ストリーミングレスポンス処理
+    if (isStreaming) {
+      await handleStreamingResponse(
+        res,
+        withRequestCancellation(
+          openAIResponse as AsyncIterable<ChatCompletionChunk>,
+          cancellation,
+        ),
+        req.originalUrl || req.url,
+      )
+      return
+    }
+
+    // 非ストリーミングレスポンス処理
+    const completion = openAIResponse as ChatCompletion
+    logger.debug('completion', { completion })
+    res.json(completion)
+  } catch (error) {
+    const { statusCode, apiError } = handleChatCompletionError(
+      error as vscode.LanguageModelError,
+    )
+    setRetryAfterHeaders(res, error, 'openai')
+    res.status(statusCode).json({ error: apiError })
+  } finally {
+    cancellation.dispose()
+  }
+}
+
+/**
+ * Azure OpenAI互換のChat Completions APIリクエストを処理する。
+ * デプロイメント名をモデルIDに解決した上でChat Completions APIと同じ変換経路で処理し、
+ * レスポンスにはAzure OpenAI固有のフィールド（prompt_filter_results等）を付与する。
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleAzureOpenAIChatCompletions(
+  req: express.Request,
+  res: express.Response,
+) {
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+
+  try {
+    const deployment = req.params.deployment
+    logger.debug('Received Azure OpenAI request', {
+      deployment,
+      apiVersion: req.query['api-version'],
+    })
+
+    // デプロイメント名からモデルIDを解決（Azureではbody.modelは使われない）
+    const body = {
+      ...(req.body as ChatCompletionCreateParams),
+      model: resolveAzureDeployment(deployment),
+    }
+
+    // ストリーミングモード判定
+    const isStreaming = body.stream === true
+
+    // LM APIへリクエスト送信し、OpenAI形式のレスポンスを取得
+    const openAIResponse = await awaitWithRequestCancellation(
+      sendChatCompletionRequest(body, cancellation.token),
+      cancellation,
+    )
+
+    // ストリーミングレスポンス処理
+    if (isStreaming) {
+      await handleStreamingResponse(
+        res,
+        convertOpenAIChunksToAzureChunks(
+          withRequestCancellation(
+            openAIResponse as AsyncIterable<ChatCompletionChunk>,
+            cancellation,
+          ),
+        ),
+        req.originalUrl || req.url,
+      )
+      return
+    }
+
+    // 非ストリーミングレスポンス処理
+    const completion = convertOpenAIResponseToAzureResponse(
+      openAIResponse as ChatCompletion,
+    )
+    logger.debug('completion', { completion })
+    res.json(completion)
+  } catch (error) {
+    const { statusCode, apiError } = handleChatCompletionError(
+      error as vscode.LanguageModelError,
+    )
+    setRetryAfterHeaders(res, error, 'openai')
+    res.status(statusCode).json({ error: apiError })
+  } finally {
+    cancellation.dispose()
+  }
+}
+
+/**
+ * Azure OpenAIのデプロイメント名をVSCode LM APIのモデルIDに解決する
+ * 設定のマッピングにない場合は選択中のOpenAIモデル（vscode-lm-proxy）を使用する
+ * @param {string} deployment デプロイメント名
+ * @returns {string} モデルID
+ */
+function resolveAzureDeployment(deployment: string): string {
+  const config = vscode.workspace.getConfiguration('vscode-lm-proxy')
+  const mappings = config.get<Record<string, string>>(
+    'azureDeploymentMappings',
+    {},
+  )
+  return mappings[deployment] || 'vscode-lm-proxy'
+}
+
+/**
+ * OpenAI互換のChat Completions APIリクエストをLM APIへ送信し、OpenAI形式のレスポンスに変換する。
+ * Chat Completions APIのハンドラとBatch APIの各リクエスト処理で共通の変換経路。
+ * nが2以上の場合は選択肢の数だけ並列にリクエストし、レスポンスを1つにまとめる。
+ * @param {ChatCompletionCreateParams} body Chat Completions APIのリクエストボディ
+ * @param {vscode.CancellationToken} [cancellationToken] キャンセラレーショントークン（省略時は新規作成）
+ * @param {RequestPriority} [priority] LM APIへのリクエストの優先度
+ * @returns {Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>>}
+ *   非ストリーミング時はChatCompletion、ストリーミング時はチャンクのAsyncIterable
+ * @throws エラー時は例外をスロー
+ */
+export async function sendChatCompletionRequest(
+  body: ChatCompletionCreateParams,
+  cancellationToken: vscode.CancellationToken = new vscode.CancellationTokenSource()
+    .token,
+  priority: RequestPriority = 'interactive',
+): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> {
+  // 必須フィールドのバリデーション
+  validateChatCompletionRequest(body)
+
+  // モデル取得
+  const { vsCodeModel } = await getVSCodeModel(body.model, 'openai', priority)
+
+  // ストリーミングモード判定
+  const isStreaming = body.stream === true
+
+  // OpenAIリクエスト→VSCode LM API形式変換
+  const { messages, options, inputTokens } =
+    await convertOpenAIRequestToVSCodeRequest(body, vsCodeModel)
+
+  // 選択肢の数だけ実行枠をまとめて確保（一部の選択肢だけが実行枠を確保したまま待ち合うのを防ぐ）
+  const choiceModels = await requestScheduler.reserve(
+    vsCodeModel,
+    body.n ?? 1,
+    cancellationToken,
+  )
+  if (choiceModels.length === 1) {
+    return sendChatCompletionChoiceRequest(
+      body,
+      choiceModels[0],
+      messages,
+      options,
+      inputTokens,
+      cancellationToken,
+    )
+  }
+
+  // いずれかの選択肢が失敗した場合は他の選択肢のリクエストもキャンセルし、実行枠を解放する
+  const { source: choicesCancellation, dispose } =
+    createLinkedCancellation(cancellationToken)
+
+  // 選択肢の数だけLM APIへ並列にリクエスト送信
+  const results = await Promise.allSettled(
+    choiceModels.map(choiceModel =>
+      sendChatCompletionChoiceRequest(
+        body,
+        choiceModel,
+        messages,
+        options,
+        inputTokens,
+        choicesCancellation.token,
+      ),
+    ),
+  )
+  const failed = results.find(result => result.status === 'rejected')
+  if (failed) {
+    choicesCancellation.cancel()
+    dispose()
+    throw failed.reason
+  }
+  const choices = results.map(
+    result =>
+      (
+        result as PromiseFulfilledResult<
+          ChatCompletion | AsyncIterable<ChatCompletionChunk>
+        >
+      ).value,
+  )
+
+  // 選択肢ごとのレスポンスを1つにまとめる
+  if (!isStreaming) {
+    dispose()
+    return mergeOpenAICompletions(choices as ChatCompletion[])
+  }
+  return disposeAfterResponse(
+    mergeOpenAIChunkStreams(
+      choices as AsyncIterable<ChatCompletionChunk>[],
+      body.stream_options?.include_usage === true,
+    ),
+    () => {
+      // 途中で終了した場合に応答待ちの選択肢のリクエストもキャンセルする
+      choicesCancellation.cancel()
+      dispose()
+    },
+  )
+}
+
+/**
+ * 変換済みのリクエストをLM APIへ送信し、1つの選択肢分のOpenAI形式のレスポンスに変換する。
+ * @param {ChatCompletionCreateParams} body Chat Completions APIのリクエストボディ
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param {vscode.LanguageModelChatMessage[]} messages 変換済みのメッセージ
+ * @param {vscode.LanguageModelChatRequestOptions} options 変換済みのオプション
+ * @param {number} inputTokens 入力トークン数
+ * @param {vscode.CancellationToken} cancellationToken キャンセラレーショントークン
+ * @returns {Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>>}
+ */
+async function sendChatCompletionChoiceRequest(
+  body: ChatCompletionCreateParams,
+  vsCodeModel: vscode.LanguageModelChat,
+  messages: vscode.LanguageModelChatMessage[],
+  options: vscode.LanguageModelChatRequestOptions,
+  inputTokens: number,
+  cancellationToken: vscode.CancellationToken,
+): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> {
+  // ストリーミングモード判定
+  const isStreaming = body.stream === true
+
+  // 停止シーケンスの一致時にこの選択肢のリクエストだけをキャンセルできるようにする
+  // （レスポンスの変換を終えた時点で解放）
+  const { source: cancellation, dispose } =
+    createLinkedCancellation(cancellationToken)
+
+  // LM APIへリクエスト送信
+  let response: vscode.LanguageModelChatResponse
+  try {
+    response = await vsCodeModel.sendRequest(
+      messages,
+      options,
+      cancellation.token,
+    )
+  } catch (error) {
+    dispose()
+    throw error
+  }
+  logger.debug('Received response from LM API')
+
+  // レガシーなfunctionsによるリクエストかどうか（toolsが優先）
+  const isLegacyFunctionCall = !body.tools && !!body.functions
+
+  // エージェントループのコンテキスト作成（設定で有効な場合のみ）
+  const agentLoop = createAgentLoopContext(
+    messages,
+    options,
+    cancellation.token,
+    body.tools?.map(tool => tool.function.name) ??
+      body.functions?.map(fn => fn.name) ??
+      [],
+  )
+
+  // 構造化出力のコンテキスト作成（response_formatがjson_object / json_schemaの場合のみ）
+  const structuredOutput = createStructuredOutputContext(
+    body.response_format,
+    messages,
+    options,
+    cancellation.token,
+  )
+
+  // 停止シーケンスのコンテキスト作成（stopが指定された場合のみ）
+  const stopSequences = createStopSequenceContext(body.stop, cancellation)
+
+  // 最大出力トークン数のコンテキスト作成（max_completion_tokensを優先）
+  const maxTokens = createMaxTokensContext(
+    body.max_completion_tokens ?? body.max_tokens,
+    cancellation,
+  )
+
+  // レスポンスをOpenAI形式に変換
+  const openAIResponse = convertVSCodeResponseToOpenAIResponse(
+    response,
+    vsCodeModel,
+    isStreaming,
+    inputTokens,
+    agentLoop,
+    structuredOutput,
+    stopSequences,
+    maxTokens,
+    // function_callは1つの関数呼び出ししか表現できないため並列のツールコールを無効化
+    body.parallel_tool_calls === false || isLegacyFunctionCall,
+    isLegacyFunctionCall,
+  )
+  logger.debug('openAIResponse', {
+    openAIResponse,
+    vsCodeModel,
+    isStreaming,
+  })
+
+  return disposeAfterResponse(openAIResponse, dispose)
+}
+
+/**
+ * OpenAI互換のCompletions API（レガシー）リクエストを処理するメイン関数。
+ * promptとsuffixをFIM形式の指示文に変換し、text_completion形式で返却する。
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleOpenAICompletions(
+  req: express.Request,
+  res: express.Response,
+) {
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+  // 停止シーケンスや最大出力トークン数で打ち切った時点でLM APIへのリクエストだけをキャンセルできるようにする
+  const linkedCancellation = createLinkedCancellation(cancellation.token)
+
+  try {
+    const body = req.body as CompletionCreateParams
+    logger.debug('Received completion request', { body })
+
     // 必須フィールドのバリデーション
-    validateChatCompletionRequest(body)
+    validateCompletionRequest(body)
 
     // モデル取得
     const { vsCodeModel } = await getVSCodeModel(body.model, 'openai')
@@ -72,53 +461,104 @@ async function handleOpenAIChatCompletions(
     // ストリーミングモード判定
     const isStreaming = body.stream === true
 
-    // OpenAIリクエスト→VSCode LM API形式変換
+    // OpenAI Completionsリクエスト→VSCode LM API形式変換
     const { messages, options, inputTokens } =
-      await convertOpenAIRequestToVSCodeRequest(body, vsCodeModel)
-
-    // キャンセラレーショントークン作成
-    const cancellationToken = new vscode.CancellationTokenSource().token
+      await convertOpenAICompletionRequestToVSCodeRequest(body, vsCodeModel)
 
     // LM APIへリクエスト送信
-    const response = await vsCodeModel.sendRequest(
-      messages,
-      options,
-      cancellationToken,
+    const response = await awaitWithRequestCancellation(
+      vsCodeModel.sendRequest(
+        messages,
+        options,
+        linkedCancellation.source.token,
+      ),
+      cancellation,
     )
     logger.debug('Received response from LM API')
 
-    // レスポンスをOpenAI形式に変換
-    const openAIResponse = convertVSCodeResponseToOpenAIResponse(
+    // 停止シーケンスのコンテキスト作成（stopが指定された場合のみ）
+    const stopSequences = createStopSequenceContext(
+      body.stop,
+      linkedCancellation.source,
+    )
+
+    // 最大出力トークン数のコンテキスト作成（max_tokensが指定された場合のみ）
+    const maxTokens = createMaxTokensContext(
+      body.max_tokens,
+      linkedCancellation.source,
+    )
+
+    // レスポンスをtext_completion形式に変換
+    const completionResponse = convertVSCodeResponseToOpenAICompletionResponse(
       response,
       vsCodeModel,
       isStreaming,
       inputTokens,
+      body.echo ? getCompletionPrompt(body) : undefined,
+      stopSequences,
+      maxTokens,
     )
-    logger.debug('openAIResponse', {
-      openAIResponse,
-      vsCodeModel,
-      isStreaming,
-    })
 
     // ストリーミングレスポンス処理
     if (isStreaming) {
       await handleStreamingResponse(
         res,
-        openAIResponse as AsyncIterable<ChatCompletionChunk>,
+        withRequestCancellation(
+          completionResponse as AsyncIterable<Completion>,
+          cancellation,
+        ),
         req.originalUrl || req.url,
       )
       return
     }
 
     // 非ストリーミングレスポンス処理
-    const completion = await (openAIResponse as Promise<ChatCompletion>)
+    const completion = await awaitWithRequestCancellation(
+      completionResponse as Promise<Completion>,
+      cancellation,
+    )
     logger.debug('completion', { completion })
     res.json(completion)
   } catch (error) {
     const { statusCode, apiError } = handleChatCompletionError(
       error as vscode.LanguageModelError,
     )
+    setRetryAfterHeaders(res, error, 'openai')
     res.status(statusCode).json({ error: apiError })
+  } finally {
+    linkedCancellation.dispose()
+    cancellation.dispose()
+  }
+}
+
+/**
+ * Completions APIリクエストの必須フィールドをバリデーションする
+ * @param {CompletionCreateParams} body
+ * @throws エラー時は例外をスロー
+ */
+function validateCompletionRequest(body: CompletionCreateParams) {
+  // promptフィールドの存在チェック
+  if (body.prompt === undefined || body.prompt === null) {
+    const message = 'The prompt field is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_prompt',
+    }
+    throw error
+  }
+
+  // modelフィールドの存在チェック
+  if (!body.model) {
+    const message = 'The model field is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidModel',
+      code: 'invalid_model',
+    }
+    throw error
   }
 }
 
@@ -151,56 +591,48 @@ function validateChatCompletionRequest(body: ChatCompletionCreateParams) {
     }
     throw error
   }
+
+  // nフィールドの範囲チェック（並列リクエストによるクォータの消費を制限）
+  if (body.n !== undefined && body.n !== null) {
+    const maxChoices = vscode.workspace
+      .getConfiguration('vscode-lm-proxy')
+      .get<number>('maxChoices', 4)
+    if (!Number.isInteger(body.n) || body.n < 1 || body.n > maxChoices) {
+      const message = `The n field must be an integer between 1 and ${maxChoices}`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_value',
+      }
+      throw error
+    }
+  }
 }
 
 /**
  * ストリーミングレスポンスを処理し、クライアントに送信する
  * @param {express.Response} res
- * @param {AsyncIterable<ChatCompletionChunk>} stream
+ * @param {AsyncIterable<ChatCompletionChunk | Completion>} stream
  * @param {string} reqPath
  * @returns {Promise<void>}
  */
 async function handleStreamingResponse(
   res: express.Response,
-  stream: AsyncIterable<ChatCompletionChunk>,
+  stream: AsyncIterable<ChatCompletionChunk | Completion>,
   reqPath: string,
 ) {
-  res.setHeader('Content-Type', 'text/event-stream')
-  res.setHeader('Cache-Control', 'no-cache')
-  res.setHeader('Connection', 'keep-alive')
-
-  logger.debug('Streaming started', { stream: 'start', path: reqPath })
-  let chunkIndex = 0
-
-  try {
-    // ストリーミングレスポンスを逐次送信
-    for await (const chunk of stream) {
-      const data = JSON.stringify(chunk)
-      res.write(`data: ${data}\n\n`)
-      logger.debug(
-        `Streaming chunk: ${JSON.stringify({ stream: 'chunk', chunk, index: chunkIndex++ })}`,
+  await sendSSEStream(res, stream, {
+    reqPath,
+    done: { data: '[DONE]' },
+    // エラー発生時はOpenAI互換エラーを送信
+    toErrorEvent: error => {
+      const { apiError } = handleChatCompletionError(
+        error as vscode.LanguageModelError,
       )
-    }
-
-    // 正常終了
-    res.write('data: [DONE]\n\n')
-    logger.debug('Streaming ended', {
-      stream: 'end',
-      path: reqPath,
-      chunkCount: chunkIndex,
-    })
-  } catch (error) {
-    // エラー発生時はOpenAI互換エラーを送信し、ストリームを終了
-    const { apiError } = handleChatCompletionError(
-      error as vscode.LanguageModelError,
-    )
-    res.write(`data: ${JSON.stringify({ error: apiError })}\n\n`)
-    res.write('data: [DONE]\n\n')
-    logger.error('Streaming error', { error, path: reqPath })
-  } finally {
-    // ストリーム終了
-    res.end()
-  }
+      return { data: { error: apiError } }
+    },
+  })
 }
 
 /**
@@ -208,7 +640,7 @@ async function handleStreamingResponse(
  * @param {vscode.LanguageModelError} error
  * @returns { statusCode: number, apiError: APIError }
  */
-function handleChatCompletionError(error: vscode.LanguageModelError): {
+export function handleChatCompletionError(error: vscode.LanguageModelError): {
   statusCode: number
   apiError: APIError
 } {
@@ -258,6 +690,16 @@ function handleChatCompletionError(error: vscode.LanguageModelError): {
       type = 'insufficient_quota'
       code = 'quota_exceeded'
       break
+    case 'Timeout':
+      statusCode = 504
+      type = 'timeout_error'
+      code = 'timeout'
+      break
+    case 'QueueFull':
+      statusCode = 429
+      type = 'requests'
+      code = 'rate_limit_exceeded'
+      break
     case 'Unknown':
       statusCode = 500
       type = 'server_error'
@@ -0,0 +1,198 @@
+import type express from 'express'
+import type {
+  Response,
+  ResponseCreateParams,
+  ResponseStreamEvent,
+} from 'openai/resources/responses/responses'
+import type * as vscode from 'vscode'
+import { createMaxTokensContext } from '../converter/maxTokensConverter'
+import {
+  convertOpenAIResponsesRequestToVSCodeRequest,
+  convertVSCodeResponseToOpenAIResponsesResponse,
+} from '../converter/openaiResponsesConverter'
+import { setRetryAfterHeaders } from '../scheduler/manager'
+import { logger } from '../utils/logger'
+import {
+  awaitWithRequestCancellation,
+  createLinkedCancellation,
+  createRequestCancellation,
+  withRequestCancellation,
+} from './cancellation'
+import { getVSCodeModel } from './handler'
+import { handleChatCompletionError } from './openaiHandler'
+import { sendSSEStream } from './sse'
+
+/**
+ * OpenAI互換のResponses APIエンドポイントを設定する
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupOpenAIResponsesEndpoints(app: express.Express): void {
+  // OpenAI Responses API互換エンドポイントを登録
+  app.post('/openai/responses', handleOpenAIResponses)
+  app.post('/openai/v1/responses', handleOpenAIResponses)
+}
+
+/**
+ * OpenAI互換のResponses APIリクエストを処理するメイン関数。
+ * - リクエストバリデーション
+ * - モデル取得
+ * - LM APIへのリクエスト送信
+ * - ストリーミング/非ストリーミングレスポンス処理
+ * - エラーハンドリング
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleOpenAIResponses(
+  req: express.Request,
+  res: express.Response,
+) {
+  // クライアントの切断時や期限切れ時にLM APIへのリクエストをキャンセル
+  const cancellation = createRequestCancellation(req, res)
+  // 最大出力トークン数に達した時点でLM APIへのリクエストだけをキャンセルできるようにする
+  const linkedCancellation = createLinkedCancellation(cancellation.token)
+
+  try {
+    const body = req.body as ResponseCreateParams
+    logger.debug('Received Responses API request', { body })
+
+    // 必須フィールドのバリデーション
+    validateResponsesRequest(body)
+
+    // モデル取得（OpenAIモデルの選択を利用）
+    const { vsCodeModel } = await getVSCodeModel(body.model as string, 'openai')
+
+    // ストリーミングモード判定
+    const isStreaming = body.stream === true
+
+    // Responses APIリクエスト→VSCode LM API形式変換
+    const { messages, options, inputTokens } =
+      await convertOpenAIResponsesRequestToVSCodeRequest(body, vsCodeModel)
+
+    // LM APIへリクエスト送信
+    const response = await awaitWithRequestCancellation(
+      vsCodeModel.sendRequest(
+        messages,
+        options,
+        linkedCancellation.source.token,
+      ),
+      cancellation,
+    )
+    logger.debug('Received response from LM API')
+
+    // 最大出力トークン数のコンテキスト作成（max_output_tokensが指定された場合のみ）
+    const maxTokens = createMaxTokensContext(
+      body.max_output_tokens,
+      linkedCancellation.source,
+    )
+
+    // レスポンスをResponses API形式に変換
+    const responsesResponse = convertVSCodeResponseToOpenAIResponsesResponse(
+      response,
+      vsCodeModel,
+      isStreaming,
+      inputTokens,
+      body,
+      maxTokens,
+    )
+
+    // ストリーミングレスポンス処理
+    if (isStreaming) {
+      await handleStreamingResponse(
+        res,
+        withRequestCancellation(
+          responsesResponse as AsyncIterable<ResponseStreamEvent>,
+          cancellation,
+        ),
+        req.originalUrl || req.url,
+      )
+      return
+    }
+
+    // 非ストリーミングレスポンス処理
+    const result = await awaitWithRequestCancellation(
+      responsesResponse as Promise<Response>,
+      cancellation,
+    )
+    logger.debug('response', { result })
+    res.json(result)
+  } catch (error) {
+    const { statusCode, apiError } = handleChatCompletionError(
+      error as vscode.LanguageModelError,
+    )
+    setRetryAfterHeaders(res, error, 'openai')
+    res.status(statusCode).json({ error: apiError })
+  } finally {
+    linkedCancellation.dispose()
+    cancellation.dispose()
+  }
+}
+
+/**
+ * Responses APIリクエストの必須フィールドをバリデーションする
+ * @param {ResponseCreateParams} body
+ * @throws エラー時は例外をスロー
+ */
+function validateResponsesRequest(body: ResponseCreateParams) {
+  // inputフィールドの存在チェック
+  if (
+    body.input === undefined ||
+    body.input === null ||
+    (Array.isArray(body.input) && body.input.length === 0)
+  ) {
+    const message = 'The input field is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidMessageFormat',
+      code: 'invalid_message_format',
+    }
+    throw error
+  }
+
+  // modelフィールドの存在チェック
+  if (!body.model) {
+    const message = 'The model field is required'
+    const error: vscode.LanguageModelError = {
+      ...new Error(message),
+      message,
+      name: 'InvalidModel',
+      code: 'invalid_model',
+    }
+    throw error
+  }
+}
+
+/**
+ * ストリーミングレスポンスを処理し、クライアントに送信する。
+ * Responses APIはイベント名（event:）付きのSSEを送信する。
+ * @param {express.Response} res
+ * @param {AsyncIterable<ResponseStreamEvent>} stream
+ * @param {string} reqPath
+ * @returns {Promise<void>}
+ */
+async function handleStreamingResponse(
+  res: express.Response,
+  stream: AsyncIterable<ResponseStreamEvent>,
+  reqPath: string,
+) {
+  await sendSSEStream(res, stream, {
+    reqPath,
+    toEvent: event => ({ event: event.type, data: event }),
+    // エラー発生時はResponses API互換のerrorイベントを送信
+    toErrorEvent: (error, chunkCount) => {
+      const { apiError } = handleChatCompletionError(
+        error as vscode.LanguageModelError,
+      )
+      const errorEvent: ResponseStreamEvent = {
+        type: 'error',
+        sequence_number: chunkCount,
+        code: apiError.code ?? null,
+        message: apiError.message,
+        param: apiError.param ?? null,
+      }
+      return { event: 'error', data: errorEvent }
+    },
+  })
+}
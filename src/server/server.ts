@@ -1,6 +1,7 @@
 // Express.jsサーバーの設定とAPIエンドポイントの実装
 import express from 'express'
 import { logger } from '../utils/logger'
+import { setupAnthropicBatchEndpoints } from './anthropicBatchHandler'
 import {
   setupAnthropicMessagesEndpoints,
   setupAnthropicModelsEndpoints,
@@ -9,11 +10,27 @@ import {
   setupClaudeCodeMessagesEndpoints,
   setupClaudeCodeModelsEndpoints,
 } from './claudeCodeHandler'
+import {
+  setupGeminiGenerateContentEndpoints,
+  setupGeminiModelsEndpoints,
+} from './geminiHandler'
 import { setupStatusEndpoint } from './handler'
+import { setupMcpEndpoints } from './mcpHandler'
+import {
+  setupOllamaEndpoints,
+  setupOllamaModelsEndpoints,
+} from './ollamaHandler'
+import { setupOpenAIAssistantsEndpoints } from './openaiAssistantsHandler'
+import { setupOpenAIBatchEndpoints } from './openaiBatchHandler'
+import { setupOpenAIFilesEndpoints } from './openaiFilesHandler'
 import {
+  setupAzureOpenAIEndpoints,
   setupOpenAIChatCompletionsEndpoints,
+  setupOpenAICompletionsEndpoints,
   setupOpenAIModelsEndpoints,
 } from './openaiHandler'
+import { setupOpenAIResponsesEndpoints } from './openaiResponsesHandler'
+import { setupToolsEndpoints } from './toolsHandler'
 
 /**
  * Express.jsサーバーのインスタンスを作成します。
@@ -49,16 +66,39 @@ export function createServer(): express.Express {
 
   // OpenAI互換エンドポイントのセットアップ
   setupOpenAIChatCompletionsEndpoints(app)
+  setupOpenAIResponsesEndpoints(app)
+  setupOpenAICompletionsEndpoints(app)
+  setupOpenAIFilesEndpoints(app)
+  setupOpenAIBatchEndpoints(app)
+  setupOpenAIAssistantsEndpoints(app)
   setupOpenAIModelsEndpoints(app)
 
+  // Azure OpenAI互換エンドポイントのセットアップ
+  setupAzureOpenAIEndpoints(app)
+
   // Anthropic互換APIエンドポイントのセットアップ
   setupAnthropicMessagesEndpoints(app)
+  setupAnthropicBatchEndpoints(app)
   setupAnthropicModelsEndpoints(app)
 
   // ClaudeCode互換APIエンドポイントのセットアップ
   setupClaudeCodeMessagesEndpoints(app)
   setupClaudeCodeModelsEndpoints(app)
 
+  // Gemini互換APIエンドポイントのセットアップ
+  setupGeminiGenerateContentEndpoints(app)
+  setupGeminiModelsEndpoints(app)
+
+  // Ollama互換APIエンドポイントのセットアップ
+  setupOllamaEndpoints(app)
+  setupOllamaModelsEndpoints(app)
+
+  // MCP（Streamable HTTP）エンドポイントのセットアップ
+  setupMcpEndpoints(app)
+
+  // VSCodeの言語モデルツールのエンドポイントのセットアップ
+  setupToolsEndpoints(app)
+
   // エラーハンドラーの設定
   app.use(
     (
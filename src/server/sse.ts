@@ -0,0 +1,135 @@
+import type express from 'express'
+import { logger } from '../utils/logger'
+
+// keep-aliveを送信する間隔（ミリ秒）
+const KEEP_ALIVE_INTERVAL_MS = 15000
+
+/**
+ * SSEで送信するイベント
+ * - event: イベント名（省略時はevent:行を送信しない）
+ * - data: データ（文字列はそのまま、それ以外はJSONとして送信）
+ */
+export interface SSEEvent {
+  event?: string
+  data: unknown
+}
+
+/**
+ * SSEストリームの送信方法
+ */
+export interface SSEStreamOptions<T> {
+  // ログ出力に使用するリクエストのパス
+  reqPath: string
+  // チャンクをイベントに変換する（省略時はイベント名なしでチャンクを送信）
+  toEvent?: (chunk: T) => SSEEvent
+  // keep-aliveとして送信するイベント（省略時はSSEのコメントを送信）
+  keepAlive?: SSEEvent
+  // 最後に送信するイベント（[DONE]など）。エラー時もエラーイベントの後に送信する
+  done?: SSEEvent
+  // ストリーム中のエラーをエラーイベントに変換する（chunkCountはそれまでに送信したチャンク数）
+  toErrorEvent: (error: unknown, chunkCount: number) => SSEEvent
+}
+
+/**
+ * SSEのイベントを文字列に変換する
+ * @param {SSEEvent} event イベント
+ * @returns {string}
+ */
+function formatSSEEvent(event: SSEEvent): string {
+  const data =
+    typeof event.data === 'string' ? event.data : JSON.stringify(event.data)
+  const lines = data.split('\n').map(line => `data: ${line}`)
+  if (event.event) {
+    lines.unshift(`event: ${event.event}`)
+  }
+  return `${lines.join('\n')}\n\n`
+}
+
+/**
+ * レスポンスに書き込み、バッファがいっぱいの場合は書き込めるようになる（drain）まで待つ
+ * クライアントが切断した場合は待たずに終了する
+ * @param {express.Response} res レスポンス
+ * @param {string} text 書き込む文字列
+ * @returns {Promise<void>}
+ */
+async function write(res: express.Response, text: string): Promise<void> {
+  if (res.writableEnded || res.destroyed) {
+    return
+  }
+  if (res.write(text)) {
+    return
+  }
+  await new Promise<void>(resolve => {
+    const done = () => {
+      res.off('drain', done)
+      res.off('close', done)
+      resolve()
+    }
+    res.on('drain', done)
+    res.on('close', done)
+  })
+}
+
+/**
+ * ストリームをSSEとしてクライアントに送信する
+ * - ヘッダーを即座に送信し、一定間隔でkeep-aliveを送信
+ * - バッファがいっぱいの場合はdrainを待ってから次のチャンクを読み込む
+ * - エラー発生時はエラーイベントを送信してストリームを終了
+ * @param {express.Response} res レスポンス
+ * @param {AsyncIterable<T>} stream 送信するチャンクのストリーム
+ * @param {SSEStreamOptions<T>} options 送信方法
+ * @returns {Promise<void>}
+ */
+export async function sendSSEStream<T>(
+  res: express.Response,
+  stream: AsyncIterable<T>,
+  options: SSEStreamOptions<T>,
+): Promise<void> {
+  const { reqPath, toEvent, keepAlive, done, toErrorEvent } = options
+
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.flushHeaders()
+
+  // 書き込み待ちでない場合のみkeep-aliveを送信
+  const keepAliveText = keepAlive ? formatSSEEvent(keepAlive) : ': ping\n\n'
+  const keepAliveTimer = setInterval(() => {
+    if (!res.writableNeedDrain && !res.writableEnded && !res.destroyed) {
+      res.write(keepAliveText)
+    }
+  }, KEEP_ALIVE_INTERVAL_MS)
+
+  logger.debug('Streaming started', { path: reqPath })
+  let chunkIndex = 0
+
+  try {
+    // ストリーミングレスポンスを逐次送信
+    for await (const chunk of stream) {
+      const text = formatSSEEvent(toEvent ? toEvent(chunk) : { data: chunk })
+      await write(res, text)
+      logger.debug(`Streaming chunk: ${text.trimEnd()}`)
+      chunkIndex++
+    }
+
+    // 正常終了
+    if (done) {
+      await write(res, formatSSEEvent(done))
+    }
+    logger.debug('Streaming ended', {
+      path: reqPath,
+      chunkCount: chunkIndex,
+    })
+  } catch (error) {
+    // エラー発生時はエラーイベントを送信し、ストリームを終了
+    await write(res, formatSSEEvent(toErrorEvent(error, chunkIndex)))
+    if (done) {
+      await write(res, formatSSEEvent(done))
+    }
+    logger.error('Streaming error', { error, path: reqPath })
+  } finally {
+    // ストリーム終了
+    clearInterval(keepAliveTimer)
+    res.end()
+  }
+}
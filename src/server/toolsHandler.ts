@@ -0,0 +1,120 @@
+import type express from 'express'
+import * as vscode from 'vscode'
+import { getVSCodeTools, invokeVSCodeTool } from '../tools/vscodeTools'
+import { logger } from '../utils/logger'
+import { handleChatCompletionError } from './openaiHandler'
+
+/**
+ * VSCodeに登録されている言語モデルツールのエンドポイントを設定する
+ * ツールはワークスペースのファイル編集やターミナル操作を行えるため、
+ * 設定（vscode-lm-proxy.enableToolsEndpoints）で有効な場合のみリクエストを受け付ける
+ * @param {express.Express} app Express.jsアプリケーション
+ * @returns {void}
+ */
+export function setupToolsEndpoints(app: express.Express): void {
+  app.use('/tools', requireToolsEndpointsEnabled)
+  app.get('/tools', handleListTools)
+  app.post('/tools/:name/invoke', handleInvokeTool)
+}
+
+/**
+ * ツールのエンドポイントが無効な場合は403エラーを返すミドルウェア
+ * @param {express.Request} _req リクエスト
+ * @param {express.Response} res レスポンス
+ * @param {express.NextFunction} next 次のハンドラ
+ */
+function requireToolsEndpointsEnabled(
+  _req: express.Request,
+  res: express.Response,
+  next: express.NextFunction,
+) {
+  const isEnabled = vscode.workspace
+    .getConfiguration('vscode-lm-proxy')
+    .get<boolean>('enableToolsEndpoints', false)
+  if (isEnabled) {
+    next()
+    return
+  }
+
+  const message =
+    'The tools endpoints are disabled. Enable the vscode-lm-proxy.enableToolsEndpoints setting to use them'
+  const { statusCode, apiError } = handleChatCompletionError({
+    ...new Error(message),
+    message,
+    name: 'NoPermissions',
+    code: 'tools_endpoints_disabled',
+  })
+  res.status(statusCode).json({ error: apiError })
+}
+
+/**
+ * ツール一覧リクエストを処理する（tagでの絞り込みに対応）
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ */
+function handleListTools(req: express.Request, res: express.Response) {
+  const tag = typeof req.query.tag === 'string' ? req.query.tag : undefined
+
+  const tools = getVSCodeTools(tag).map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema ?? null,
+    tags: tool.tags,
+  }))
+  res.json({ tools })
+}
+
+/**
+ * ツール実行リクエストを処理する
+ * リクエストボディのinputをツールの入力として渡し、結果のパートをJSONで返す
+ * @param {express.Request} req リクエスト
+ * @param {express.Response} res レスポンス
+ * @returns {Promise<void>}
+ */
+async function handleInvokeTool(req: express.Request, res: express.Response) {
+  try {
+    const { name } = req.params
+    const input = req.body?.input ?? {}
+    logger.debug('Received tool invoke request', { name, input })
+
+    // ツールの存在確認
+    if (!vscode.lm.tools.some(tool => tool.name === name)) {
+      const message = `Tool ${name} not found`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'NotFound',
+        code: 'tool_not_found',
+      }
+      throw error
+    }
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      const message = 'The input field must be an object'
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidMessageFormat',
+        code: 'invalid_request_error',
+      }
+      throw error
+    }
+
+    // クライアントが切断した場合はツールの実行をキャンセル
+    const cancellation = new vscode.CancellationTokenSource()
+    const onClose = () => cancellation.cancel()
+    res.on('close', onClose)
+
+    try {
+      const content = await invokeVSCodeTool(name, input, cancellation.token)
+      res.json({ name, content })
+    } finally {
+      res.off('close', onClose)
+      cancellation.dispose()
+    }
+  } catch (error) {
+    const { statusCode, apiError } = handleChatCompletionError(
+      error as vscode.LanguageModelError,
+    )
+    res.status(statusCode).json({ error: apiError })
+  }
+}
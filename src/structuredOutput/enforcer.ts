@@ -0,0 +1,280 @@
+// response_format（json_object / json_schema）による構造化出力の強制
+import type { ChatCompletionCreateParams } from 'openai/resources'
+import type {
+  ResponseFormatJSONObject,
+  ResponseFormatJSONSchema,
+} from 'openai/resources/shared'
+import * as vscode from 'vscode'
+import { isTextPart, isToolCallPart } from '../server/handler'
+import { type JSONSchema, validateJSONSchema } from '../utils/jsonSchema'
+import { logger } from '../utils/logger'
+
+/**
+ * 構造化出力を強制するresponse_format
+ */
+type StructuredResponseFormat =
+  | ResponseFormatJSONObject
+  | ResponseFormatJSONSchema
+
+/**
+ * 構造化出力の検証と再リクエストに必要なリクエストの情報
+ */
+export interface StructuredOutputContext {
+  responseFormat: StructuredResponseFormat
+  messages: vscode.LanguageModelChatMessage[]
+  options: vscode.LanguageModelChatRequestOptions
+  cancellationToken: vscode.CancellationToken
+  maxRetries: number
+}
+
+/**
+ * 再リクエストしてもJSONを出力しなかった場合の拒否応答
+ */
+export interface StructuredOutputRefusal {
+  type: 'structured_output_refusal'
+  refusal: string
+}
+
+/**
+ * 構造化出力の検証結果
+ */
+interface StructuredOutputCheck {
+  // 出力から取り出したJSONのテキスト
+  json: string
+  // JSONとして解析できたかどうか
+  isJSON: boolean
+  errors: string[]
+}
+
+/**
+ * response_formatが構造化出力（json_object / json_schema）かどうかを判定する
+ * @param {ChatCompletionCreateParams['response_format']} responseFormat response_format
+ * @returns {boolean}
+ */
+function isStructuredResponseFormat(
+  responseFormat: ChatCompletionCreateParams['response_format'],
+): responseFormat is StructuredResponseFormat {
+  return (
+    responseFormat?.type === 'json_object' ||
+    responseFormat?.type === 'json_schema'
+  )
+}
+
+/**
+ * response_formatに従った出力をモデルに指示するプロンプトを生成する
+ * 構造化出力でない場合はundefinedを返す
+ * @param {ChatCompletionCreateParams['response_format']} responseFormat response_format
+ * @returns {string | undefined}
+ */
+export function getStructuredOutputInstruction(
+  responseFormat: ChatCompletionCreateParams['response_format'],
+): string | undefined {
+  if (!isStructuredResponseFormat(responseFormat)) {
+    return undefined
+  }
+
+  if (responseFormat.type === 'json_object') {
+    return 'Respond only with a valid JSON object. Do not include any text or markdown code fences outside the JSON object.'
+  }
+
+  const { name, description, schema, strict } = responseFormat.json_schema
+  const lines = [
+    'Respond only with a JSON value that conforms to the JSON Schema below. Do not include any text or markdown code fences outside the JSON.',
+    `Schema name: ${name}`,
+  ]
+  if (description) {
+    lines.push(`Description: ${description}`)
+  }
+  if (strict) {
+    lines.push(
+      'Follow the schema exactly: include every required property and do not add properties that are not defined.',
+    )
+  }
+  lines.push(`Schema:\n${JSON.stringify(schema ?? {}, null, 2)}`)
+  return lines.join('\n')
+}
+
+/**
+ * 構造化出力のコンテキストを生成する
+ * response_formatが構造化出力でない場合はundefinedを返す
+ * @param {ChatCompletionCreateParams['response_format']} responseFormat response_format
+ * @param {vscode.LanguageModelChatMessage[]} messages リクエストのメッセージ
+ * @param {vscode.LanguageModelChatRequestOptions} options リクエストのオプション
+ * @param {vscode.CancellationToken} cancellationToken キャンセラレーショントークン
+ * @returns {StructuredOutputContext | undefined}
+ */
+export function createStructuredOutputContext(
+  responseFormat: ChatCompletionCreateParams['response_format'],
+  messages: vscode.LanguageModelChatMessage[],
+  options: vscode.LanguageModelChatRequestOptions,
+  cancellationToken: vscode.CancellationToken,
+): StructuredOutputContext | undefined {
+  if (!isStructuredResponseFormat(responseFormat)) {
+    return undefined
+  }
+
+  const config = vscode.workspace.getConfiguration('vscode-lm-proxy')
+  return {
+    responseFormat,
+    messages: [...messages],
+    options,
+    cancellationToken,
+    maxRetries: config.get<number>('structuredOutputMaxRetries', 2),
+  }
+}
+
+/**
+ * StructuredOutputRefusal型ガード
+ * @param part 判定対象
+ * @returns {boolean}
+ */
+export function isStructuredOutputRefusal(
+  part: unknown,
+): part is StructuredOutputRefusal {
+  return (
+    typeof part === 'object' &&
+    part !== null &&
+    (part as StructuredOutputRefusal).type === 'structured_output_refusal'
+  )
+}
+
+/**
+ * LM APIのレスポンスのストリームに構造化出力の検証を適用する
+ * - テキストはバッファリングし、response_formatに従っているか検証してからまとめて出力
+ * - 検証に失敗した場合はエラー内容をモデルに伝えて最大maxRetries回まで再リクエスト
+ * - 再リクエストしてもJSONを出力しない場合はStructuredOutputRefusalを出力し、
+ *   JSONがスキーマに適合しない場合はエラーをスロー
+ * - ツールコールが含まれる場合は検証せずにそのまま出力
+ * @param {AsyncIterable<unknown>} stream 最初のレスポンスのストリーム
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param {StructuredOutputContext} context 構造化出力のコンテキスト
+ * @returns {AsyncIterable<vscode.LanguageModelTextPart | StructuredOutputRefusal | unknown>}
+ */
+export async function* enforceStructuredOutput(
+  stream: AsyncIterable<unknown>,
+  vsCodeModel: vscode.LanguageModelChat,
+  context: StructuredOutputContext,
+): AsyncIterable<
+  vscode.LanguageModelTextPart | StructuredOutputRefusal | unknown
+> {
+  let currentStream = stream
+
+  for (let attempt = 0; ; attempt++) {
+    let textBuffer = ''
+    let isToolCalled = false
+
+    for await (const part of currentStream) {
+      if (isTextPart(part) && !isToolCalled) {
+        textBuffer += part.value
+        continue
+      }
+      if (isToolCallPart(part) && !isToolCalled) {
+        // ツールコールの応答は検証対象外のため、バッファしたテキストを先に出力
+        isToolCalled = true
+        if (textBuffer) {
+          yield new vscode.LanguageModelTextPart(textBuffer)
+        }
+      }
+      yield part
+    }
+
+    if (isToolCalled) {
+      return
+    }
+
+    const check = checkStructuredOutput(textBuffer, context.responseFormat)
+    if (check.errors.length === 0) {
+      yield new vscode.LanguageModelTextPart(check.json)
+      return
+    }
+    logger.debug('Structured output validation failed', {
+      attempt,
+      errors: check.errors,
+    })
+
+    // 再リクエストの上限に達した場合
+    if (attempt >= context.maxRetries) {
+      if (!check.isJSON) {
+        yield {
+          type: 'structured_output_refusal',
+          refusal:
+            textBuffer.trim() || 'The model did not return a JSON response.',
+        }
+        return
+      }
+      const message = `The model output does not match the response format after ${attempt + 1} attempts: ${check.errors.join('; ')}`
+      const error: vscode.LanguageModelError = {
+        ...new Error(message),
+        message,
+        name: 'InvalidResponseFormat',
+        code: 'json_validate_failed',
+      }
+      throw error
+    }
+
+    // 検証エラーをモデルに伝えて再リクエスト
+    context.messages.push(
+      new vscode.LanguageModelChatMessage(
+        vscode.LanguageModelChatMessageRole.Assistant,
+        textBuffer,
+        'Assistant',
+      ),
+      new vscode.LanguageModelChatMessage(
+        vscode.LanguageModelChatMessageRole.User,
+        `Your response does not match the required response format:\n${check.errors.map(error => `- ${error}`).join('\n')}\nRespond again with only the corrected JSON.`,
+        'User',
+      ),
+    )
+
+    const response = await vsCodeModel.sendRequest(
+      context.messages,
+      context.options,
+      context.cancellationToken,
+    )
+    currentStream = response.stream
+  }
+}
+
+/**
+ * モデルの出力がresponse_formatに従っているか検証する
+ * 出力全体がMarkdownのコードブロックで囲まれている場合は中身を検証する
+ * @param {string} text モデルの出力
+ * @param {StructuredResponseFormat} responseFormat response_format
+ * @returns {StructuredOutputCheck}
+ */
+function checkStructuredOutput(
+  text: string,
+  responseFormat: StructuredResponseFormat,
+): StructuredOutputCheck {
+  const trimmed = text.trim()
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)
+  const json = fenced ? fenced[1] : trimmed
+
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch (error) {
+    return {
+      json,
+      isJSON: false,
+      errors: [`The response is not valid JSON (${(error as Error).message})`],
+    }
+  }
+
+  if (responseFormat.type === 'json_object') {
+    const isObject =
+      typeof value === 'object' && value !== null && !Array.isArray(value)
+    return {
+      json,
+      isJSON: true,
+      errors: isObject ? [] : ['The response must be a JSON object'],
+    }
+  }
+
+  const schema = responseFormat.json_schema.schema as JSONSchema | undefined
+  return {
+    json,
+    isJSON: true,
+    errors: schema ? validateJSONSchema(value, schema) : [],
+  }
+}
@@ -0,0 +1,233 @@
+// VSCodeのツールコールをサーバー側で実行するエージェントループ
+import * as vscode from 'vscode'
+import { isTextPart, isToolCallPart } from '../server/handler'
+import { logger } from '../utils/logger'
+import { convertVSCodeToolResultToJSON } from './vscodeTools'
+
+// ストリームに表示するツール実行結果の最大文字数
+const MAX_STEP_RESULT_LENGTH = 1000
+
+/**
+ * エージェントループの実行に必要なリクエストの情報
+ */
+export interface AgentLoopContext {
+  messages: vscode.LanguageModelChatMessage[]
+  options: vscode.LanguageModelChatRequestOptions
+  cancellationToken: vscode.CancellationToken
+  // サーバー側で実行するツール名
+  toolNames: Set<string>
+  maxIterations: number
+}
+
+/**
+ * サーバー側で実行したツールコールの途中経過
+ */
+export interface AgentToolStep {
+  type: 'agent_tool_step'
+  callId: string
+  name: string
+  input: object
+  result: string
+  isError: boolean
+}
+
+/**
+ * エージェントループのコンテキストを生成する
+ * 設定（vscode-lm-proxy.autoExecuteVSCodeTools）が無効な場合はundefinedを返す
+ * @param {vscode.LanguageModelChatMessage[]} messages リクエストのメッセージ
+ * @param {vscode.LanguageModelChatRequestOptions} options リクエストのオプション
+ * @param {vscode.CancellationToken} cancellationToken キャンセラレーショントークン
+ * @param {string[]} clientToolNames クライアントが定義したツール名（クライアント側で実行するため除外）
+ * @returns {AgentLoopContext | undefined}
+ */
+export function createAgentLoopContext(
+  messages: vscode.LanguageModelChatMessage[],
+  options: vscode.LanguageModelChatRequestOptions,
+  cancellationToken: vscode.CancellationToken,
+  clientToolNames: string[],
+): AgentLoopContext | undefined {
+  const config = vscode.workspace.getConfiguration('vscode-lm-proxy')
+  if (!config.get<boolean>('autoExecuteVSCodeTools', false)) {
+    return undefined
+  }
+
+  const toolNames = new Set(
+    vscode.lm.tools
+      .map(tool => tool.name)
+      .filter(name => !clientToolNames.includes(name)),
+  )
+
+  return {
+    messages: [...messages],
+    options,
+    cancellationToken,
+    toolNames,
+    maxIterations: config.get<number>('maxAgentIterations', 10),
+  }
+}
+
+/**
+ * AgentToolStep型ガード
+ * @param part 判定対象
+ * @returns {boolean}
+ */
+export function isAgentToolStep(part: unknown): part is AgentToolStep {
+  return (
+    typeof part === 'object' &&
+    part !== null &&
+    (part as AgentToolStep).type === 'agent_tool_step'
+  )
+}
+
+/**
+ * ツールの途中経過をストリームに表示するテキストに変換する
+ * @param {AgentToolStep} step ツールの途中経過
+ * @returns {string}
+ */
+export function formatAgentToolStep(step: AgentToolStep): string {
+  const result =
+    step.result.length > MAX_STEP_RESULT_LENGTH
+      ? `${step.result.slice(0, MAX_STEP_RESULT_LENGTH)}...`
+      : step.result
+  return `\n[Tool call] ${step.name} ${JSON.stringify(step.input)}\n[Tool ${step.isError ? 'error' : 'result'}] ${result}\n\n`
+}
+
+/**
+ * LM APIのレスポンスのストリームにエージェントループを適用する
+ * - vscode.lm.toolsに登録されたツールのコールはvscode.lm.invokeToolで実行し、
+ *   結果をLanguageModelToolResultPartとして会話に追加して再度リクエストを送信
+ * - 実行したツールコールはAgentToolStepとして出力し、クライアントにはツールコールを返さない
+ * - クライアントのツールのコールが含まれる場合、または最大反復回数に達した場合は、
+ *   ツールコールをそのままクライアントに返して終了
+ * @param {AsyncIterable<unknown>} stream 最初のレスポンスのストリーム
+ * @param {vscode.LanguageModelChat} vsCodeModel VSCodeのLanguageModelChatインスタンス
+ * @param {AgentLoopContext} context エージェントループのコンテキスト
+ * @returns {AsyncIterable<vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart | AgentToolStep | unknown>}
+ */
+export async function* runAgentLoop(
+  stream: AsyncIterable<unknown>,
+  vsCodeModel: vscode.LanguageModelChat,
+  context: AgentLoopContext,
+): AsyncIterable<
+  | vscode.LanguageModelTextPart
+  | vscode.LanguageModelToolCallPart
+  | AgentToolStep
+  | unknown
+> {
+  let currentStream = stream
+
+  for (let iteration = 1; ; iteration++) {
+    const assistantParts: Array<
+      vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart
+    > = []
+    const serverToolCalls: vscode.LanguageModelToolCallPart[] = []
+    let hasClientToolCall = false
+
+    for await (const part of currentStream) {
+      if (isToolCallPart(part) && context.toolNames.has(part.name)) {
+        // サーバー側で実行するツールコールは保留
+        serverToolCalls.push(part)
+        assistantParts.push(part)
+        continue
+      }
+
+      if (isTextPart(part)) {
+        assistantParts.push(part)
+      } else if (isToolCallPart(part)) {
+        hasClientToolCall = true
+      }
+      yield part
+    }
+
+    if (serverToolCalls.length === 0) {
+      return
+    }
+
+    // クライアントのツールコールがある場合、または上限に達した場合は保留したツールコールも返して終了
+    if (hasClientToolCall || iteration > context.maxIterations) {
+      logger.debug('Agent loop stopped', { iteration, hasClientToolCall })
+      yield* serverToolCalls
+      return
+    }
+
+    // ツールを実行
+    const resultParts: vscode.LanguageModelToolResultPart[] = []
+    for (const call of serverToolCalls) {
+      const step = await invokeToolCall(call, context.cancellationToken)
+      resultParts.push(
+        new vscode.LanguageModelToolResultPart(call.callId, [
+          new vscode.LanguageModelTextPart(step.result),
+        ]),
+      )
+      yield step
+    }
+
+    // ツールコールと結果を会話に追加して再度リクエスト
+    context.messages.push(
+      new vscode.LanguageModelChatMessage(
+        vscode.LanguageModelChatMessageRole.Assistant,
+        assistantParts,
+        'Assistant',
+      ),
+      new vscode.LanguageModelChatMessage(
+        vscode.LanguageModelChatMessageRole.User,
+        resultParts,
+        'User',
+      ),
+    )
+    logger.debug('Agent loop continues', { iteration })
+
+    // tool_choiceによるツールの使用の強制は最初のリクエストで満たされたため、以降はモデルの判断に任せる
+    // （Requiredのままでは最終的な回答を返せずに上限までツールを呼び続けてしまう）
+    context.options = {
+      ...context.options,
+      toolMode: vscode.LanguageModelChatToolMode.Auto,
+    }
+
+    const response = await vsCodeModel.sendRequest(
+      context.messages,
+      context.options,
+      context.cancellationToken,
+    )
+    currentStream = response.stream
+  }
+}
+
+/**
+ * ツールコールをvscode.lm.invokeToolで実行する
+ * 実行エラーはエラーメッセージを結果としてモデルに返す
+ * @param {vscode.LanguageModelToolCallPart} call ツールコール
+ * @param {vscode.CancellationToken} token キャンセラレーショントークン
+ * @returns {Promise<AgentToolStep>}
+ */
+async function invokeToolCall(
+  call: vscode.LanguageModelToolCallPart,
+  token: vscode.CancellationToken,
+): Promise<AgentToolStep> {
+  const step: AgentToolStep = {
+    type: 'agent_tool_step',
+    callId: call.callId,
+    name: call.name,
+    input: call.input,
+    result: '',
+    isError: false,
+  }
+
+  try {
+    logger.debug('Agent loop invokes tool', { name: call.name })
+    const result = await vscode.lm.invokeTool(
+      call.name,
+      { toolInvocationToken: undefined, input: call.input },
+      token,
+    )
+    step.result = convertVSCodeToolResultToJSON(result)
+      .map(part => (part.type === 'text' ? part.text : JSON.stringify(part)))
+      .join('')
+  } catch (error) {
+    logger.warn(`Tool ${call.name} failed`, error as Error)
+    step.result = `Error: ${(error as Error).message}`
+    step.isError = true
+  }
+
+  return step
+}
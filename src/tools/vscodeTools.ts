@@ -0,0 +1,101 @@
+// VSCodeに登録されている言語モデルツール（vscode.lm.tools）の操作
+import * as vscode from 'vscode'
+import { logger } from '../utils/logger'
+
+/**
+ * ツール実行結果のパートをJSONに変換したもの
+ */
+export type VSCodeToolResultPart =
+  | { type: 'text'; text: string }
+  | { type: 'prompt_tsx'; value: unknown }
+  | { type: 'unknown'; value: unknown }
+
+/**
+ * VSCodeに登録されているツールの一覧を取得する
+ * @param {string} [tag] 絞り込むタグ（省略時はすべて）
+ * @returns {vscode.LanguageModelToolInformation[]}
+ */
+export function getVSCodeTools(
+  tag?: string,
+): vscode.LanguageModelToolInformation[] {
+  return vscode.lm.tools.filter(tool => !tag || tool.tags.includes(tag))
+}
+
+/**
+ * VSCodeのツールを実行し、結果のパートをJSONに変換して返す
+ * チャット外からの実行のため、toolInvocationTokenは指定しない
+ * @param {string} name ツール名
+ * @param {object} input ツールの入力
+ * @param {vscode.CancellationToken} [token] キャンセラレーショントークン
+ * @returns {Promise<VSCodeToolResultPart[]>}
+ */
+export async function invokeVSCodeTool(
+  name: string,
+  input: object,
+  token?: vscode.CancellationToken,
+): Promise<VSCodeToolResultPart[]> {
+  logger.debug('Invoking VSCode tool', { name, input })
+
+  const result = await vscode.lm.invokeTool(
+    name,
+    { toolInvocationToken: undefined, input },
+    token,
+  )
+
+  return convertVSCodeToolResultToJSON(result)
+}
+
+/**
+ * VSCodeのツール実行結果のパートをJSONに変換する
+ * @param {vscode.LanguageModelToolResult} result ツール実行結果
+ * @returns {VSCodeToolResultPart[]}
+ */
+export function convertVSCodeToolResultToJSON(
+  result: vscode.LanguageModelToolResult,
+): VSCodeToolResultPart[] {
+  return result.content.map(part => {
+    if (part instanceof vscode.LanguageModelTextPart) {
+      return { type: 'text', text: part.value }
+    }
+    if (part instanceof vscode.LanguageModelPromptTsxPart) {
+      return { type: 'prompt_tsx', value: part.value }
+    }
+    return { type: 'unknown', value: part }
+  })
+}
+
+/**
+ * 設定（vscode-lm-proxy.injectVSCodeTools）で選択されたVSCodeのツールをリクエストのツールに追加する
+ * リクエストで同名のツールが定義されている場合はリクエストのツールを優先する
+ * @param {vscode.LanguageModelChatTool[] | undefined} tools リクエストから変換したツール
+ * @returns {vscode.LanguageModelChatTool[] | undefined} 追加後のツール（ツールがない場合はundefined）
+ */
+export function withInjectedVSCodeTools(
+  tools: vscode.LanguageModelChatTool[] | undefined,
+): vscode.LanguageModelChatTool[] | undefined {
+  const names = vscode.workspace
+    .getConfiguration('vscode-lm-proxy')
+    .get<string[]>('injectVSCodeTools', [])
+  if (names.length === 0) {
+    return tools
+  }
+
+  const requestToolNames = new Set((tools ?? []).map(tool => tool.name))
+  const injectedTools = vscode.lm.tools
+    .filter(
+      tool => names.includes(tool.name) && !requestToolNames.has(tool.name),
+    )
+    .map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+    }))
+  if (injectedTools.length === 0) {
+    return tools
+  }
+
+  logger.debug('Injected VSCode tools', {
+    tools: injectedTools.map(tool => tool.name),
+  })
+  return [...(tools ?? []), ...injectedTools]
+}
@@ -0,0 +1,31 @@
+// VSCode 1.101時点で提案段階のLanguage Model APIの型定義
+// 実行時に存在しない可能性があるため、使用前に存在を確認すること
+
+declare module 'vscode' {
+  /**
+   * 画像などのバイナリデータをLanguage Modelに渡すためのパート
+   */
+  export class LanguageModelDataPart {
+    /**
+     * 画像のデータパートを生成する
+     * @param data 画像のバイナリデータ
+     * @param mimeType 画像のMIMEタイプ
+     */
+    static image(data: Uint8Array, mimeType: string): LanguageModelDataPart
+
+    mimeType: string
+    data: Uint8Array
+
+    constructor(data: Uint8Array, mimeType: string)
+  }
+
+  export interface LanguageModelChat {
+    /**
+     * モデルの対応機能
+     */
+    readonly capabilities?: {
+      readonly supportsImageToText?: boolean
+      readonly supportsToolCalling?: boolean
+    }
+  }
+}
@@ -0,0 +1,11 @@
+// VSCode 1.101時点で提案段階のLanguage Model APIの型定義
+// 実行時に存在しない可能性があるため、使用前に存在を確認すること
+
+declare module 'vscode' {
+  export enum LanguageModelChatMessageRole {
+    /**
+     * システムプロンプトのロール
+     */
+    System = 3,
+  }
+}
@@ -0,0 +1,30 @@
+// VSCode 1.101時点で提案段階のLanguage Model APIの型定義
+// 実行時に存在しない可能性があるため、使用前に存在を確認すること
+
+declare module 'vscode' {
+  /**
+   * モデルの思考過程（thinking / reasoning）を表すパート
+   */
+  export class LanguageModelThinkingPart {
+    /**
+     * 思考過程のテキスト
+     */
+    value: string | string[]
+
+    /**
+     * 思考過程の識別子
+     */
+    id?: string
+
+    /**
+     * 署名などのプロバイダー固有の情報
+     */
+    metadata?: { readonly [key: string]: unknown }
+
+    constructor(
+      value: string | string[],
+      id?: string,
+      metadata?: { readonly [key: string]: unknown },
+    )
+  }
+}
@@ -0,0 +1,338 @@
+// 構造化出力の検証に使用するJSON Schemaの簡易バリデーター
+// OpenAIのStructured Outputsで使用されるキーワードのサブセットに対応
+
+/**
+ * JSON Schema（サブセット）
+ */
+export interface JSONSchema {
+  type?: string | string[]
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  additionalProperties?: boolean | JSONSchema
+  items?: JSONSchema
+  enum?: unknown[]
+  const?: unknown
+  anyOf?: JSONSchema[]
+  oneOf?: JSONSchema[]
+  allOf?: JSONSchema[]
+  $ref?: string
+  $defs?: Record<string, JSONSchema>
+  definitions?: Record<string, JSONSchema>
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  multipleOf?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minItems?: number
+  maxItems?: number
+  [key: string]: unknown
+}
+
+/**
+ * 値をJSON Schemaで検証する
+ * @param {unknown} value 検証する値
+ * @param {JSONSchema} schema JSON Schema
+ * @returns {string[]} エラーメッセージ（検証に成功した場合は空配列）
+ */
+export function validateJSONSchema(
+  value: unknown,
+  schema: JSONSchema,
+): string[] {
+  const errors: string[] = []
+  validate(value, schema, schema, '$', errors)
+  return errors
+}
+
+/**
+ * 値を再帰的に検証し、エラーをerrorsに追加する
+ * @param {unknown} value 検証する値
+ * @param {JSONSchema} schema 検証に使用するスキーマ
+ * @param {JSONSchema} root $refの解決に使用するルートスキーマ
+ * @param {string} path エラーメッセージに表示する値のパス
+ * @param {string[]} errors エラーメッセージの出力先
+ */
+function validate(
+  value: unknown,
+  schema: JSONSchema,
+  root: JSONSchema,
+  path: string,
+  errors: string[],
+): void {
+  if (schema.$ref) {
+    const resolved = resolveRef(schema.$ref, root)
+    if (!resolved) {
+      errors.push(`${path}: unresolved reference ${schema.$ref}`)
+      return
+    }
+    validate(value, resolved, root, path, errors)
+    return
+  }
+
+  // 型の検証（型が一致しない場合は以降の検証を行わない）
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(
+        `${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`,
+      )
+      return
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(item => isEqual(item, value))) {
+    errors.push(
+      `${path}: must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`,
+    )
+  }
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`)
+  }
+
+  // 組み合わせの検証
+  if (schema.allOf) {
+    for (const sub of schema.allOf) {
+      validate(value, sub, root, path, errors)
+    }
+  }
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some(sub => isValid(value, sub, root, path))
+    if (!matched) {
+      errors.push(`${path}: does not match any of the allowed schemas`)
+    }
+  }
+  if (schema.oneOf) {
+    const count = schema.oneOf.filter(sub =>
+      isValid(value, sub, root, path),
+    ).length
+    if (count !== 1) {
+      errors.push(`${path}: must match exactly one schema (matched ${count})`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    validateNumber(value, schema, path, errors)
+  } else if (typeof value === 'string') {
+    validateString(value, schema, path, errors)
+  } else if (Array.isArray(value)) {
+    validateArray(value, schema, root, path, errors)
+  } else if (typeof value === 'object' && value !== null) {
+    validateObject(value as Record<string, unknown>, schema, root, path, errors)
+  }
+}
+
+/**
+ * 数値の制約を検証する
+ * @param {number} value 検証する値
+ * @param {JSONSchema} schema スキーマ
+ * @param {string} path 値のパス
+ * @param {string[]} errors エラーメッセージの出力先
+ */
+function validateNumber(
+  value: number,
+  schema: JSONSchema,
+  path: string,
+  errors: string[],
+): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path}: must be >= ${schema.minimum}`)
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push(`${path}: must be <= ${schema.maximum}`)
+  }
+  if (
+    schema.exclusiveMinimum !== undefined &&
+    value <= schema.exclusiveMinimum
+  ) {
+    errors.push(`${path}: must be > ${schema.exclusiveMinimum}`)
+  }
+  if (
+    schema.exclusiveMaximum !== undefined &&
+    value >= schema.exclusiveMaximum
+  ) {
+    errors.push(`${path}: must be < ${schema.exclusiveMaximum}`)
+  }
+  if (
+    schema.multipleOf !== undefined &&
+    !Number.isInteger(value / schema.multipleOf)
+  ) {
+    errors.push(`${path}: must be a multiple of ${schema.multipleOf}`)
+  }
+}
+
+/**
+ * 文字列の制約を検証する
+ * @param {string} value 検証する値
+ * @param {JSONSchema} schema スキーマ
+ * @param {string} path 値のパス
+ * @param {string[]} errors エラーメッセージの出力先
+ */
+function validateString(
+  value: string,
+  schema: JSONSchema,
+  path: string,
+  errors: string[],
+): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path}: must have at least ${schema.minLength} characters`)
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push(`${path}: must have at most ${schema.maxLength} characters`)
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    errors.push(`${path}: must match pattern ${schema.pattern}`)
+  }
+}
+
+/**
+ * 配列の制約と要素を検証する
+ * @param {unknown[]} value 検証する値
+ * @param {JSONSchema} schema スキーマ
+ * @param {JSONSchema} root ルートスキーマ
+ * @param {string} path 値のパス
+ * @param {string[]} errors エラーメッセージの出力先
+ */
+function validateArray(
+  value: unknown[],
+  schema: JSONSchema,
+  root: JSONSchema,
+  path: string,
+  errors: string[],
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push(`${path}: must have at least ${schema.minItems} items`)
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push(`${path}: must have at most ${schema.maxItems} items`)
+  }
+  if (schema.items) {
+    for (const [index, item] of value.entries()) {
+      validate(item, schema.items, root, `${path}[${index}]`, errors)
+    }
+  }
+}
+
+/**
+ * オブジェクトのプロパティを検証する
+ * @param {Record<string, unknown>} value 検証する値
+ * @param {JSONSchema} schema スキーマ
+ * @param {JSONSchema} root ルートスキーマ
+ * @param {string} path 値のパス
+ * @param {string[]} errors エラーメッセージの出力先
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JSONSchema,
+  root: JSONSchema,
+  path: string,
+  errors: string[],
+): void {
+  const properties = schema.properties ?? {}
+
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) {
+      errors.push(`${path}: missing required property "${key}"`)
+    }
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const propertyPath = `${path}.${key}`
+    if (key in properties) {
+      validate(item, properties[key], root, propertyPath, errors)
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${path}: unexpected property "${key}"`)
+    } else if (typeof schema.additionalProperties === 'object') {
+      validate(item, schema.additionalProperties, root, propertyPath, errors)
+    }
+  }
+}
+
+/**
+ * 値がスキーマに適合するかどうかを判定する
+ * @param {unknown} value 検証する値
+ * @param {JSONSchema} schema スキーマ
+ * @param {JSONSchema} root ルートスキーマ
+ * @param {string} path 値のパス
+ * @returns {boolean}
+ */
+function isValid(
+  value: unknown,
+  schema: JSONSchema,
+  root: JSONSchema,
+  path: string,
+): boolean {
+  const errors: string[] = []
+  validate(value, schema, root, path, errors)
+  return errors.length === 0
+}
+
+/**
+ * ルートスキーマ内の参照（#/$defs/... または #/definitions/...）を解決する
+ * @param {string} ref 参照
+ * @param {JSONSchema} root ルートスキーマ
+ * @returns {JSONSchema | undefined}
+ */
+function resolveRef(ref: string, root: JSONSchema): JSONSchema | undefined {
+  if (ref === '#') {
+    return root
+  }
+  if (!ref.startsWith('#/')) {
+    return undefined
+  }
+
+  let current: unknown = root
+  for (const segment of ref.slice(2).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~')
+    if (typeof current !== 'object' || current === null) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[key]
+  }
+  return typeof current === 'object' && current !== null
+    ? (current as JSONSchema)
+    : undefined
+}
+
+/**
+ * 値がJSON Schemaの型に一致するかどうかを判定する
+ * @param {unknown} value 値
+ * @param {string} type JSON Schemaの型
+ * @returns {boolean}
+ */
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    default:
+      return typeOf(value) === type
+  }
+}
+
+/**
+ * 値のJSON Schemaにおける型名を返す
+ * @param {unknown} value 値
+ * @returns {string}
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  return typeof value
+}
+
+/**
+ * JSONの値として等しいかどうかを判定する
+ * @param {unknown} a 値
+ * @param {unknown} b 値
+ * @returns {boolean}
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
@@ -0,0 +1,872 @@
+// PDFからページごとのテキストを抽出する簡易パーサー
+// 外部ライブラリを使わずに、一般的なPDF（FlateDecode圧縮、オブジェクトストリーム、ToUnicode CMap）に対応
+import { constants, inflateSync } from 'node:zlib'
+
+// 読み込むPDFの最大サイズ（バイト）
+const MAX_PDF_SIZE = 32 * 1024 * 1024
+
+// 1つのPDFで展開するストリームの合計の最大サイズ（バイト）
+// 圧縮率の高いストリームで拡張機能ホストのメモリを使い果たさないように制限する
+const MAX_DECODED_SIZE = 64 * 1024 * 1024
+
+// 配列・辞書・ページツリーの入れ子の最大の深さ
+const MAX_NESTING_DEPTH = 256
+
+/**
+ * PDFの参照（n g R）
+ */
+interface PDFRef {
+  ref: number
+}
+
+/**
+ * PDFのオブジェクト
+ * 文字列はバイト列をlatin1文字列として保持し、名前は先頭のスラッシュを除いて保持する
+ */
+type PDFValue =
+  | number
+  | boolean
+  | null
+  | PDFRef
+  | PDFName
+  | PDFString
+  | PDFValue[]
+  | PDFDict
+
+interface PDFName {
+  name: string
+}
+
+interface PDFString {
+  bytes: string
+}
+
+interface PDFDict {
+  dict: Record<string, PDFValue>
+  // ストリームオブジェクトの場合は圧縮されたままの内容
+  stream?: Buffer
+}
+
+/**
+ * コンテンツストリームの演算子
+ */
+interface PDFOperator {
+  operator: string
+}
+
+/**
+ * フォントのToUnicode CMap
+ */
+interface CMap {
+  // 文字コードのバイト数
+  codeLength: number
+  map: Map<number, string>
+}
+
+/**
+ * PDFのオブジェクトやコンテンツストリームを読み取る字句解析器
+ */
+class PDFLexer {
+  public position = 0
+
+  // 読み取り中の配列・辞書の入れ子の深さ
+  private depth = 0
+
+  /**
+   * @param {string} source latin1文字列として読み込んだPDFのバイト列
+   */
+  constructor(private readonly source: string) {}
+
+  /**
+   * 空白とコメントを読み飛ばす
+   */
+  private skipWhitespace(): void {
+    while (this.position < this.source.length) {
+      const char = this.source[this.position]
+      if (char === '%') {
+        while (
+          this.position < this.source.length &&
+          this.source[this.position] !== '\n' &&
+          this.source[this.position] !== '\r'
+        ) {
+          this.position++
+        }
+      } else if (/[\s\0]/.test(char)) {
+        this.position++
+      } else {
+        return
+      }
+    }
+  }
+
+  /**
+   * 次の値または演算子を読み取る
+   * 末尾に達した場合や配列・辞書の終端の場合はundefinedを返す
+   * @returns {PDFValue | PDFOperator | undefined}
+   */
+  public next(): PDFValue | PDFOperator | undefined {
+    this.skipWhitespace()
+    if (this.position >= this.source.length) {
+      return undefined
+    }
+
+    const char = this.source[this.position]
+    switch (char) {
+      case '/':
+        return { name: this.readRegular(1) }
+      case '(':
+        return { bytes: this.readLiteralString() }
+      case '<':
+        if (this.source[this.position + 1] === '<') {
+          this.position += 2
+          return this.readNested(() => this.readDict())
+        }
+        return { bytes: this.readHexString() }
+      case '[': {
+        this.position++
+        return this.readNested(() => {
+          const array: PDFValue[] = []
+          for (
+            let value = this.next();
+            value !== undefined;
+            value = this.next()
+          ) {
+            if (!isOperator(value)) {
+              array.push(value)
+            }
+          }
+          return array
+        })
+      }
+      case ']':
+      case '>':
+        this.position += char === '>' ? 2 : 1
+        return undefined
+      case '{':
+      case '}':
+        this.position++
+        return { operator: char }
+    }
+
+    const token = this.readRegular(0)
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      return this.readNumberOrRef(Number(token))
+    }
+    switch (token) {
+      case 'true':
+        return true
+      case 'false':
+        return false
+      case 'null':
+        return null
+    }
+    return { operator: token }
+  }
+
+  /**
+   * 入れ子の配列・辞書を読み取る
+   * 深すぎる場合はスタックオーバーフローの前に例外をスローする
+   * @param {() => T} read 配列・辞書を読み取る関数
+   * @returns {T}
+   * @throws 入れ子が深すぎる場合
+   */
+  private readNested<T>(read: () => T): T {
+    if (this.depth >= MAX_NESTING_DEPTH) {
+      throw new Error('The PDF file contains too deeply nested objects')
+    }
+    this.depth++
+    try {
+      return read()
+    } finally {
+      this.depth--
+    }
+  }
+
+  /**
+   * 区切り文字までの通常の文字を読み取る
+   * @param {number} skip 先頭で読み飛ばす文字数
+   * @returns {string}
+   */
+  private readRegular(skip: number): string {
+    this.position += skip
+    const start = this.position
+    while (
+      this.position < this.source.length &&
+      !/[\s\0()<>[\]{}/%]/.test(this.source[this.position])
+    ) {
+      this.position++
+    }
+    // 区切り文字が連続する場合に無限ループしないよう最低1文字は進める
+    if (this.position === start && skip === 0) {
+      this.position++
+    }
+    return this.source.slice(start, this.position)
+  }
+
+  /**
+   * 数値の後に「g R」が続く場合は参照として読み取る
+   * @param {number} value 読み取った数値
+   * @returns {number | PDFRef}
+   */
+  private readNumberOrRef(value: number): number | PDFRef {
+    const match = /^\s+(\d+)\s+R(?![^\s\0()<>[\]{}/%])/.exec(
+      this.source.slice(this.position, this.position + 32),
+    )
+    if (match) {
+      this.position += match[0].length
+      return { ref: value }
+    }
+    return value
+  }
+
+  /**
+   * 辞書を読み取る（ストリームの場合は内容も読み取る）
+   * @returns {PDFDict}
+   */
+  private readDict(): PDFDict {
+    const dict: Record<string, PDFValue> = {}
+    for (let key = this.next(); key !== undefined; key = this.next()) {
+      if (!isName(key)) {
+        continue
+      }
+      const value = this.next()
+      if (value !== undefined && !isOperator(value)) {
+        dict[key.name] = value
+      }
+    }
+
+    // ストリームの内容を読み取る
+    const match = /^\s*stream\r?\n/.exec(
+      this.source.slice(this.position, this.position + 16),
+    )
+    if (!match) {
+      return { dict }
+    }
+    const start = this.position + match[0].length
+    const length = dict.Length
+    let end =
+      typeof length === 'number' &&
+      this.source.startsWith('endstream', this.skipEOL(start + length))
+        ? start + length
+        : this.source.indexOf('endstream', start)
+    if (end === -1) {
+      end = this.source.length
+    }
+    this.position = end
+    return {
+      dict,
+      stream: Buffer.from(this.source.slice(start, end), 'latin1'),
+    }
+  }
+
+  /**
+   * 改行と空白を読み飛ばした位置を返す
+   * @param {number} position 開始位置
+   * @returns {number}
+   */
+  private skipEOL(position: number): number {
+    let current = position
+    while (/[\s\0]/.test(this.source[current] ?? '')) {
+      current++
+    }
+    return current
+  }
+
+  /**
+   * 括弧で囲まれた文字列を読み取る
+   * @returns {string}
+   */
+  private readLiteralString(): string {
+    let result = ''
+    let depth = 0
+    this.position++
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++]
+      if (char === '\\') {
+        const escaped = this.source[this.position++]
+        const escapes: Record<string, string> = {
+          n: '\n',
+          r: '\r',
+          t: '\t',
+          b: '\b',
+          f: '\f',
+        }
+        if (escaped in escapes) {
+          result += escapes[escaped]
+        } else if (/[0-7]/.test(escaped)) {
+          let octal = escaped
+          while (
+            octal.length < 3 &&
+            /[0-7]/.test(this.source[this.position] ?? '')
+          ) {
+            octal += this.source[this.position++]
+          }
+          result += String.fromCharCode(Number.parseInt(octal, 8) & 0xff)
+        } else if (escaped === '\r') {
+          // 行継続
+          if (this.source[this.position] === '\n') {
+            this.position++
+          }
+        } else if (escaped !== '\n') {
+          result += escaped
+        }
+      } else if (char === '(') {
+        depth++
+        result += char
+      } else if (char === ')') {
+        if (depth === 0) {
+          break
+        }
+        depth--
+        result += char
+      } else {
+        result += char
+      }
+    }
+    return result
+  }
+
+  /**
+   * 16進数の文字列を読み取る
+   * @returns {string}
+   */
+  private readHexString(): string {
+    const end = this.source.indexOf('>', this.position)
+    const hex = this.source
+      .slice(this.position + 1, end === -1 ? undefined : end)
+      .replace(/[^0-9a-fA-F]/g, '')
+    this.position = end === -1 ? this.source.length : end + 1
+    let result = ''
+    for (let i = 0; i < hex.length; i += 2) {
+      result += String.fromCharCode(
+        Number.parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16),
+      )
+    }
+    return result
+  }
+}
+
+/**
+ * PDFOperator型ガード
+ * @param value 判定対象
+ * @returns {boolean}
+ */
+function isOperator(value: unknown): value is PDFOperator {
+  return typeof value === 'object' && value !== null && 'operator' in value
+}
+
+/**
+ * PDFName型ガード
+ * @param value 判定対象
+ * @returns {boolean}
+ */
+function isName(value: unknown): value is PDFName {
+  return typeof value === 'object' && value !== null && 'name' in value
+}
+
+/**
+ * PDFString型ガード
+ * @param value 判定対象
+ * @returns {boolean}
+ */
+function isString(value: unknown): value is PDFString {
+  return typeof value === 'object' && value !== null && 'bytes' in value
+}
+
+/**
+ * PDFRef型ガード
+ * @param value 判定対象
+ * @returns {boolean}
+ */
+function isRef(value: unknown): value is PDFRef {
+  return typeof value === 'object' && value !== null && 'ref' in value
+}
+
+/**
+ * PDFDict型ガード
+ * @param value 判定対象
+ * @returns {boolean}
+ */
+function isDict(value: unknown): value is PDFDict {
+  return typeof value === 'object' && value !== null && 'dict' in value
+}
+
+/**
+ * PDFのドキュメント（オブジェクトの集合）
+ */
+class PDFDocument {
+  private readonly objects = new Map<number, PDFValue>()
+
+  // これまでに展開したストリームの合計サイズ（バイト）
+  private decodedSize = 0
+
+  /**
+   * @param {Buffer} data PDFのバイト列
+   * @throws PDFとして解析できない場合、またはサイズの上限を超える場合
+   */
+  constructor(data: Buffer) {
+    if (data.length > MAX_PDF_SIZE) {
+      throw new Error(
+        `The PDF file is too large (the maximum size is ${MAX_PDF_SIZE} bytes)`,
+      )
+    }
+    const source = data.toString('latin1')
+    if (!source.startsWith('%PDF-')) {
+      throw new Error('The document is not a PDF file')
+    }
+    if (/\/Encrypt\s/.test(source)) {
+      throw new Error('Encrypted PDF files are not supported')
+    }
+
+    // 間接オブジェクトを読み取る（後から出現したものが更新として優先される）
+    const pattern = /(\d+)\s+\d+\s+obj\b/g
+    for (
+      let match = pattern.exec(source);
+      match;
+      match = pattern.exec(source)
+    ) {
+      const lexer = new PDFLexer(source)
+      lexer.position = match.index + match[0].length
+      const value = lexer.next()
+      if (value !== undefined && !isOperator(value)) {
+        this.objects.set(Number(match[1]), value)
+      }
+      pattern.lastIndex = Math.max(pattern.lastIndex, lexer.position)
+    }
+
+    // オブジェクトストリームに格納されたオブジェクトを読み取る
+    for (const value of [...this.objects.values()]) {
+      if (isDict(value) && this.getName(value.dict.Type) === 'ObjStm') {
+        this.readObjectStream(value)
+      }
+    }
+  }
+
+  /**
+   * オブジェクトストリームに格納されたオブジェクトを読み取る
+   * @param {PDFDict} objectStream オブジェクトストリーム
+   */
+  private readObjectStream(objectStream: PDFDict): void {
+    const content = this.decodeStream(objectStream)
+    const count = this.resolve(objectStream.dict.N)
+    const first = this.resolve(objectStream.dict.First)
+    if (!content || typeof count !== 'number' || typeof first !== 'number') {
+      return
+    }
+
+    const source = content.toString('latin1')
+    const header = source.slice(0, first).trim().split(/\s+/).map(Number)
+    for (let i = 0; i < count && i * 2 + 1 < header.length; i++) {
+      const number = header[i * 2]
+      // 通常の間接オブジェクトとして定義済みの場合はそちらを優先
+      if (this.objects.has(number)) {
+        continue
+      }
+      const lexer = new PDFLexer(source)
+      lexer.position = first + header[i * 2 + 1]
+      const value = lexer.next()
+      if (value !== undefined && !isOperator(value)) {
+        this.objects.set(number, value)
+      }
+    }
+  }
+
+  /**
+   * 参照を解決する
+   * @param {PDFValue | undefined} value 値
+   * @returns {PDFValue | undefined}
+   */
+  public resolve(value: PDFValue | undefined): PDFValue | undefined {
+    let resolved = value
+    for (let depth = 0; isRef(resolved) && depth < 32; depth++) {
+      resolved = this.objects.get(resolved.ref)
+    }
+    return resolved
+  }
+
+  /**
+   * 値を名前として取得する
+   * @param {PDFValue | undefined} value 値
+   * @returns {string | undefined}
+   */
+  public getName(value: PDFValue | undefined): string | undefined {
+    const resolved = this.resolve(value)
+    return isName(resolved) ? resolved.name : undefined
+  }
+
+  /**
+   * 値を辞書として取得する
+   * @param {PDFValue | undefined} value 値
+   * @returns {PDFDict | undefined}
+   */
+  public getDict(value: PDFValue | undefined): PDFDict | undefined {
+    const resolved = this.resolve(value)
+    return isDict(resolved) ? resolved : undefined
+  }
+
+  /**
+   * ストリームの内容を復号する
+   * 対応していないフィルターの場合はundefinedを返す
+   * @param {PDFDict} stream ストリームオブジェクト
+   * @returns {Buffer | undefined}
+   * @throws 展開したストリームの合計サイズが上限を超える場合
+   */
+  public decodeStream(stream: PDFDict): Buffer | undefined {
+    if (!stream.stream) {
+      return undefined
+    }
+    const filter = this.resolve(stream.dict.Filter)
+    const filters = (Array.isArray(filter) ? filter : [filter])
+      .map(value => this.getName(value))
+      .filter(name => name !== undefined)
+
+    let content = stream.stream
+    for (const name of filters) {
+      switch (name) {
+        case 'FlateDecode':
+        case 'Fl':
+          try {
+            content = inflateSync(content, {
+              // 末尾が欠けたストリームも読み取れた範囲まで展開する
+              finishFlush: constants.Z_SYNC_FLUSH,
+              // 展開後のサイズが残りの上限を超える場合は展開を中止する
+              maxOutputLength: Math.max(1, MAX_DECODED_SIZE - this.decodedSize),
+            })
+          } catch (error) {
+            if (
+              (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE'
+            ) {
+              throw new Error(
+                `The PDF file expands to more than ${MAX_DECODED_SIZE} bytes`,
+              )
+            }
+            return undefined
+          }
+          break
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          content = Buffer.from(
+            content
+              .toString('latin1')
+              .replace(/>.*$/s, '')
+              .replace(/[^0-9a-fA-F]/g, ''),
+            'hex',
+          )
+          break
+        default:
+          return undefined
+      }
+    }
+    this.decodedSize += content.length
+    if (this.decodedSize > MAX_DECODED_SIZE) {
+      throw new Error(
+        `The PDF file expands to more than ${MAX_DECODED_SIZE} bytes`,
+      )
+    }
+    return content
+  }
+
+  /**
+   * ページツリーを順にたどり、ページの辞書を返す
+   * ページツリーが見つからない場合はオブジェクトの出現順にページを返す
+   * @returns {PDFDict[]}
+   */
+  public getPages(): PDFDict[] {
+    const catalog = [...this.objects.values()].find(
+      value => isDict(value) && this.getName(value.dict.Type) === 'Catalog',
+    ) as PDFDict | undefined
+    const root = this.getDict(catalog?.dict.Pages)
+    if (!root) {
+      return [...this.objects.values()].filter(
+        value => isDict(value) && this.getName(value.dict.Type) === 'Page',
+      ) as PDFDict[]
+    }
+
+    const pages: PDFDict[] = []
+    const visited = new Set<PDFDict>()
+    const visit = (
+      node: PDFDict,
+      inherited: Record<string, PDFValue>,
+      depth: number,
+    ) => {
+      if (visited.has(node)) {
+        return
+      }
+      if (depth >= MAX_NESTING_DEPTH) {
+        throw new Error('The PDF file contains too deeply nested pages')
+      }
+      visited.add(node)
+      // Resourcesは親のページツリーから継承される
+      const attributes = { ...inherited }
+      if (node.dict.Resources !== undefined) {
+        attributes.Resources = node.dict.Resources
+      }
+      if (this.getName(node.dict.Type) === 'Page' || !node.dict.Kids) {
+        pages.push({ dict: { ...attributes, ...node.dict } })
+        return
+      }
+      const kids = this.resolve(node.dict.Kids)
+      for (const kid of Array.isArray(kids) ? kids : []) {
+        const child = this.getDict(kid)
+        if (child) {
+          visit(child, attributes, depth + 1)
+        }
+      }
+    }
+    visit(root, {}, 0)
+    return pages
+  }
+}
+
+/**
+ * ToUnicode CMapを解析する
+ * @param {string} source CMapの内容
+ * @returns {CMap}
+ */
+function parseCMap(source: string): CMap {
+  const map = new Map<number, string>()
+  let codeLength = 0
+
+  const toCode = (bytes: string) =>
+    [...bytes].reduce((code, char) => code * 256 + char.charCodeAt(0), 0)
+  const toUnicode = (bytes: string) => {
+    let result = ''
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      result += String.fromCharCode(
+        bytes.charCodeAt(i) * 256 + bytes.charCodeAt(i + 1),
+      )
+    }
+    return result
+  }
+
+  const lexer = new PDFLexer(source)
+  const operands: PDFValue[] = []
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!isOperator(token)) {
+      operands.push(token)
+      continue
+    }
+
+    const strings = operands.filter(isString).map(value => value.bytes)
+    switch (token.operator) {
+      case 'endcodespacerange':
+        for (const bytes of strings) {
+          codeLength = Math.max(codeLength, bytes.length)
+        }
+        break
+      case 'endbfchar':
+        for (let i = 0; i + 1 < strings.length; i += 2) {
+          map.set(toCode(strings[i]), toUnicode(strings[i + 1]))
+        }
+        break
+      case 'endbfrange':
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          const [low, high, destination] = operands.slice(i, i + 3)
+          if (!isString(low) || !isString(high)) {
+            continue
+          }
+          const start = toCode(low.bytes)
+          const end = Math.min(toCode(high.bytes), start + 0xffff)
+          for (let code = start; code <= end; code++) {
+            if (Array.isArray(destination)) {
+              const item = destination[code - start]
+              if (isString(item)) {
+                map.set(code, toUnicode(item.bytes))
+              }
+            } else if (isString(destination)) {
+              // 末尾の文字コードを加算する
+              const base = toUnicode(destination.bytes)
+              map.set(
+                code,
+                base.slice(0, -1) +
+                  String.fromCharCode(
+                    base.charCodeAt(base.length - 1) + code - start,
+                  ),
+              )
+            }
+          }
+        }
+        break
+    }
+    if (
+      token.operator.startsWith('end') ||
+      token.operator.startsWith('begin')
+    ) {
+      operands.length = 0
+    }
+  }
+
+  return { codeLength: codeLength || 1, map }
+}
+
+/**
+ * 文字列のバイト列をフォントに応じてテキストに変換する
+ * @param {string} bytes 文字列のバイト列
+ * @param {CMap | undefined} cmap フォントのToUnicode CMap
+ * @returns {string}
+ */
+function decodeText(bytes: string, cmap: CMap | undefined): string {
+  if (cmap) {
+    let result = ''
+    for (let i = 0; i < bytes.length; i += cmap.codeLength) {
+      let code = 0
+      for (let j = 0; j < cmap.codeLength; j++) {
+        code = code * 256 + (bytes.charCodeAt(i + j) || 0)
+      }
+      result += cmap.map.get(code) ?? ''
+    }
+    return result
+  }
+  // BOM付きUTF-16BE
+  if (bytes.startsWith('\xfe\xff')) {
+    return Buffer.from(bytes.slice(2), 'latin1').swap16().toString('utf16le')
+  }
+  return bytes
+}
+
+/**
+ * ページのフォント名からToUnicode CMapへの対応を取得する
+ * @param {PDFDocument} document PDFのドキュメント
+ * @param {PDFDict} page ページの辞書
+ * @returns {Map<string, CMap>}
+ */
+function getFontCMaps(document: PDFDocument, page: PDFDict): Map<string, CMap> {
+  const cmaps = new Map<string, CMap>()
+  const resources = document.getDict(page.dict.Resources)
+  const fonts = document.getDict(resources?.dict.Font)
+  for (const [name, value] of Object.entries(fonts?.dict ?? {})) {
+    const font = document.getDict(value)
+    const toUnicode = document.getDict(font?.dict.ToUnicode)
+    const content = toUnicode && document.decodeStream(toUnicode)
+    if (content) {
+      cmaps.set(name, parseCMap(content.toString('latin1')))
+    } else if (document.getName(font?.dict.Subtype) === 'Type0') {
+      // ToUnicodeのない複合フォントは文字コードからテキストを復元できないため出力しない
+      cmaps.set(name, { codeLength: 2, map: new Map() })
+    }
+  }
+  return cmaps
+}
+
+/**
+ * ページのコンテンツストリームからテキストを抽出する
+ * @param {PDFDocument} document PDFのドキュメント
+ * @param {PDFDict} page ページの辞書
+ * @returns {string}
+ */
+function extractPageText(document: PDFDocument, page: PDFDict): string {
+  const contents = document.resolve(page.dict.Contents)
+  const streams = (Array.isArray(contents) ? contents : [contents])
+    .map(value => document.getDict(value))
+    .map(stream => (stream ? document.decodeStream(stream) : undefined))
+    .filter(content => content !== undefined)
+  const source = Buffer.concat(
+    streams.flatMap(content => [content, Buffer.from('\n')]),
+  ).toString('latin1')
+
+  const cmaps = getFontCMaps(document, page)
+  let cmap: CMap | undefined
+  let text = ''
+  const operands: PDFValue[] = []
+  const newLine = () => {
+    if (text && !text.endsWith('\n')) {
+      text += '\n'
+    }
+  }
+
+  const lexer = new PDFLexer(source)
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!isOperator(token)) {
+      operands.push(token)
+      continue
+    }
+
+    switch (token.operator) {
+      case 'Tf': {
+        const font = operands[operands.length - 2]
+        cmap = isName(font) ? cmaps.get(font.name) : undefined
+        break
+      }
+      case 'Tj': {
+        const value = operands[operands.length - 1]
+        if (isString(value)) {
+          text += decodeText(value.bytes, cmap)
+        }
+        break
+      }
+      case "'":
+      case '"': {
+        newLine()
+        const value = operands[operands.length - 1]
+        if (isString(value)) {
+          text += decodeText(value.bytes, cmap)
+        }
+        break
+      }
+      case 'TJ': {
+        const value = operands[operands.length - 1]
+        for (const item of Array.isArray(value) ? value : []) {
+          if (isString(item)) {
+            text += decodeText(item.bytes, cmap)
+          } else if (typeof item === 'number' && item < -200) {
+            // 大きな字間の調整は単語の区切りとみなす
+            if (!/\s$/.test(text)) {
+              text += ' '
+            }
+          }
+        }
+        break
+      }
+      case 'Td':
+      case 'TD': {
+        const y = operands[operands.length - 1]
+        if (typeof y === 'number' && y !== 0) {
+          newLine()
+        } else if (text && !/\s$/.test(text)) {
+          text += ' '
+        }
+        break
+      }
+      case 'T*':
+      case 'Tm':
+        newLine()
+        break
+      case 'ET':
+        if (text && !/\s$/.test(text)) {
+          text += ' '
+        }
+        break
+      case 'BI':
+        // インライン画像のデータを読み飛ばす
+        lexer.position = Math.max(
+          lexer.position,
+          source.indexOf('EI', lexer.position) + 2,
+        )
+        break
+    }
+    operands.length = 0
+  }
+
+  return text
+    .replace(/[^\P{Cc}\n\t]/gu, '')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * PDFからページごとのテキストを抽出する
+ * @param {Buffer} data PDFのバイト列
+ * @returns {string[]} ページごとのテキスト
+ * @throws PDFとして解析できない場合
+ */
+export function extractPDFText(data: Buffer): string[] {
+  const document = new PDFDocument(data)
+  const pages = document.getPages()
+  if (pages.length === 0) {
+    throw new Error('The PDF file does not contain any pages')
+  }
+  return pages.map(page => extractPageText(document, page))
+}